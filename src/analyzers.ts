@@ -0,0 +1,216 @@
+import { NanoSQLAnalyzer } from "./index";
+import { splitWords } from "./utilities";
+
+const germanStopWords = [
+    "aber", "alle", "als", "also", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "bist",
+    "da", "damit", "dann", "das", "dass", "dem", "den", "denn", "der", "des", "dich", "die", "dir",
+    "doch", "du", "ein", "eine", "einem", "einen", "einer", "eines", "er", "es", "für", "hat", "hatte",
+    "ich", "ihr", "im", "in", "ist", "ja", "kein", "mit", "nach", "nicht", "noch", "nur", "ob", "oder",
+    "sich", "sie", "sind", "so", "über", "um", "und", "uns", "von", "vor", "war", "was", "weil", "wenn",
+    "wer", "wie", "wir", "wird", "zu", "zum", "zur"
+];
+
+const frenchStopWords = [
+    "au", "aux", "avec", "ce", "ces", "cette", "dans", "de", "des", "du", "elle", "en", "est", "et",
+    "être", "eux", "il", "ils", "je", "la", "le", "les", "leur", "lui", "ma", "mais", "me", "même",
+    "mes", "moi", "mon", "ne", "nos", "notre", "nous", "on", "ou", "où", "par", "pas", "pour", "qu",
+    "que", "qui", "sa", "se", "ses", "son", "sont", "sur", "ta", "te", "tes", "toi", "ton", "tu",
+    "un", "une", "vos", "votre", "vous"
+];
+
+const spanishStopWords = [
+    "al", "algo", "como", "con", "de", "del", "el", "ella", "ellos", "en", "entre", "era", "es",
+    "esta", "está", "este", "esto", "fue", "ha", "hay", "la", "las", "le", "les", "lo", "los", "más",
+    "me", "mi", "muy", "ni", "no", "nos", "o", "para", "pero", "por", "que", "qué", "se", "si", "sí",
+    "sin", "sobre", "su", "sus", "también", "te", "tu", "un", "una", "uno", "unos", "y", "ya"
+];
+
+/**
+ * Remove accents so "café" and "cafe" match, ñ is kept since it's a separate letter in spanish.
+ *
+ * @param {string} word
+ * @returns {string}
+ */
+const foldAccents = (word: string): string => {
+    return word
+        .replace(/[àáâãäåā]/g, "a")
+        .replace(/ç/g, "c")
+        .replace(/[èéêëē]/g, "e")
+        .replace(/[ìíîïī]/g, "i")
+        .replace(/[òóôõöō]/g, "o")
+        .replace(/[ùúûüū]/g, "u")
+        .replace(/ÿ/g, "y")
+        .replace(/æ/g, "ae")
+        .replace(/œ/g, "oe");
+};
+
+/**
+ * Light german stemmer, removes plural and case endings (häuser => haus, büchern => buch).
+ *
+ * @param {string} word
+ * @returns {string}
+ */
+const germanStem = (word: string): string => {
+    let w = foldAccents(word).replace(/ß/g, "ss");
+    // s is only removed after letters that can end a word before it
+    const sEnding = (c: string) => "bdfghklmnt".indexOf(c) !== -1;
+
+    if (w.length > 5 && /ern$/.test(w)) {
+        w = w.slice(0, -3);
+    } else if (w.length > 4 && /(em|en|er|es)$/.test(w)) {
+        w = w.slice(0, -2);
+    } else if (w.length > 3 && /e$/.test(w)) {
+        w = w.slice(0, -1);
+    } else if (w.length > 3 && /s$/.test(w) && sEnding(w.charAt(w.length - 2))) {
+        w = w.slice(0, -1);
+    }
+
+    if (w.length > 5 && /est$/.test(w)) {
+        w = w.slice(0, -3);
+    } else if (w.length > 4 && /(er|en)$/.test(w)) {
+        w = w.slice(0, -2);
+    } else if (w.length > 4 && /st$/.test(w) && sEnding(w.charAt(w.length - 3))) {
+        w = w.slice(0, -2);
+    }
+    return w;
+};
+
+// longest suffixes first, [suffix, replacement]
+const frenchSuffixes = [
+    ["issement", ""], ["ement", ""], ["atrice", ""], ["ateur", ""], ["ation", ""], ["euse", "eu"],
+    ["ique", ""], ["isme", ""], ["iste", ""], ["able", ""], ["ité", ""], ["ive", "if"]
+];
+
+/**
+ * Light french stemmer, removes plural, feminine and common suffixes (chevaux => cheval, rapidement => rapid).
+ *
+ * @param {string} word
+ * @returns {string}
+ */
+const frenchStem = (word: string): string => {
+    let w = word;
+    if (w.length < 5) return foldAccents(w);
+
+    if (/aux$/.test(w)) {
+        w = w.slice(0, -3) + "al";
+    } else if (/[sx]$/.test(w)) {
+        w = w.slice(0, -1);
+    }
+
+    const suffix = frenchSuffixes.filter(s => w.length - s[0].length >= 3 && w.slice(-s[0].length) === s[0])[0];
+    if (suffix) {
+        w = w.slice(0, -suffix[0].length) + suffix[1];
+    }
+
+    // verb and feminine endings
+    const ending = (w.match(/(er|ez|ée|é|e)$/) || [""])[0];
+    if (ending && w.length - ending.length >= 3) {
+        w = w.slice(0, -ending.length);
+    }
+
+    // belle => bel
+    if (w.length > 3 && w.charAt(w.length - 1) === w.charAt(w.length - 2)) {
+        w = w.slice(0, -1);
+    }
+    return foldAccents(w);
+};
+
+/**
+ * Light spanish stemmer, removes plural, gender and adverb endings (canciones => cancion, libros => libr).
+ *
+ * @param {string} word
+ * @returns {string}
+ */
+const spanishStem = (word: string): string => {
+    let w = foldAccents(word);
+    if (w.length < 5) return w;
+
+    // luces => luz
+    if (/ces$/.test(w)) {
+        return w.slice(0, -3) + "z";
+    }
+
+    if (w.length > 8 && /mente$/.test(w)) {
+        w = w.slice(0, -5);
+    }
+
+    if (/[^aeiou]es$/.test(w)) {
+        w = w.slice(0, -2);
+    } else if (/s$/.test(w)) {
+        w = w.slice(0, -1);
+    }
+
+    if (w.length > 4 && /[aoe]$/.test(w)) {
+        w = w.slice(0, -1);
+    }
+    return w;
+};
+
+/**
+ * Tokenize with a stop word list and stemmer, words keep their accents until they're stemmed.
+ *
+ * @param {string[]} stopWords
+ * @param {(word: string) => string} stem
+ * @returns {NanoSQLAnalyzer}
+ */
+const stemAnalyzer = (stopWords: string[], stem: (word: string) => string): NanoSQLAnalyzer => {
+    return {
+        tokenize: (value: string) => {
+            // apostrophes split words so l'école is indexed as école
+            return splitWords(String(value || "").replace(/['\u2019]/g, " "), undefined, true).map((w, i) => ({
+                i: i,
+                o: w,
+                w: isNaN(w as any) ? (w.length < 2 || stopWords.indexOf(w) !== -1 ? "" : stem(w)) : w
+            }));
+        }
+    };
+};
+
+const cjkLetters = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]+/g;
+
+/**
+ * Chinese, japanese and korean text doesn't put spaces between words so every pair of letters is indexed instead,
+ * 東京都 => 東京, 京都. Other words in the text are indexed as they are.
+ *
+ * @returns {NanoSQLAnalyzer}
+ */
+const cjkAnalyzer = (): NanoSQLAnalyzer => {
+    return {
+        tokenize: (value: string) => {
+            let tokens: string[] = [];
+            // CJK punctuation splits words like whitespace does
+            splitWords(String(value || "").replace(/[\u3000-\u303F\uFF01-\uFF0F\uFF1A-\uFF20\uFF3B-\uFF40\uFF5B-\uFF65]/g, " "), undefined, true).forEach((word) => {
+                let last = 0;
+                word.replace(cjkLetters, (letters: string, offset: number) => {
+                    if (offset > last) {
+                        tokens.push(word.slice(last, offset));
+                    }
+                    if (letters.length === 1) {
+                        tokens.push(letters);
+                    }
+                    for (let k = 0; k < letters.length - 1; k++) {
+                        tokens.push(letters.slice(k, k + 2));
+                    }
+                    last = offset + letters.length;
+                    return letters;
+                });
+                if (last < word.length || !word.length) {
+                    tokens.push(word.slice(last));
+                }
+            });
+            return tokens.map((w, i) => ({ o: w, w, i }));
+        }
+    };
+};
+
+/**
+ * Analyzers that ship with nanoSQL, the english modes are handled by the default tokenizer.
+ *
+ * @internal
+ */
+export const analyzers: { [name: string]: NanoSQLAnalyzer } = {
+    german: stemAnalyzer(germanStopWords, germanStem),
+    french: stemAnalyzer(frenchStopWords, frenchStem),
+    spanish: stemAnalyzer(spanishStopWords, spanishStem),
+    cjk: cjkAnalyzer()
+};
@@ -196,8 +196,13 @@ export class _IndexedDBStore implements NanoSQLStorageAdapter {
         });
     }
 
-    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: () => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean): void {
+    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean, error?: (err: Error) => void, reverse?: boolean): void {
         let keys = this._dbIndex[table].keys();
+        // a primary key range with one end goes to the first or last key
+        if (usePK && keys.length && (from !== undefined || to !== undefined)) {
+            from = from !== undefined ? from : this._dbIndex[table].first();
+            to = to !== undefined ? to : this._dbIndex[table].last();
+        }
         const usefulValues = [typeof from, typeof to].indexOf("undefined") === -1;
         let ranges: number[] = usefulValues ? [from as any, to as any] : [0, keys.length - 1];
 
@@ -216,12 +221,16 @@ export class _IndexedDBStore implements NanoSQLStorageAdapter {
 
         this.store(table, "readonly", (transaction, store) => {
             let rows: any[] = [];
-            const cursorRequest = usefulValues ? store.openCursor(IDBKeyRange.bound(lower, higher)) : store.openCursor();
+            const cursorRequest = store.openCursor(usefulValues ? IDBKeyRange.bound(lower, higher) : undefined, reverse ? "prev" : "next");
             transaction.oncomplete = (e) => {
                 let i = 0;
                 const getRow = () => {
                     if (rows[i]) {
-                        rowCallback(rows[i], i, () => {
+                        rowCallback(rows[i], i, (stop) => {
+                            if (stop) {
+                                complete();
+                                return;
+                            }
                             i++;
                             i % 500 === 0 ? setFast(getRow) : getRow(); // handle maximum call stack error
                         });
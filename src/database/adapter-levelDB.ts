@@ -1,6 +1,5 @@
 import { NanoSQLStorageAdapter, DBKey, DBRow, _NanoSQLStorage } from "./storage";
 import { DataModel } from "../index";
-import { setFast } from "lie-ts";
 import { StdObject, hash, fastALL, deepFreeze, uuid, timeid, _assign, generateID, intersect } from "../utilities";
 import { DatabaseIndex } from "./db-idx";
 
@@ -182,14 +181,17 @@ export class _LevelStore implements NanoSQLStorageAdapter {
         });
     }
 
-    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: () => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean): void {
+    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean, error?: (err: Error) => void, reverse?: boolean): void {
 
         let keys = this._dbIndex[table].keys();
+        // a primary key range with one end goes to the first or last key
+        if (usePK && keys.length && (from !== undefined || to !== undefined)) {
+            from = from !== undefined ? from : this._dbIndex[table].first();
+            to = to !== undefined ? to : this._dbIndex[table].last();
+        }
         const usefulValues = [typeof from, typeof to].indexOf("undefined") === -1;
         const ranges: number[] = usefulValues ? [from as any, to as any] : [0, keys.length - 1];
 
-        let rows: any[] = [];
-
         if (!(usePK && usefulValues) && this._dbIndex[table].sortIndex === false) {
             keys = keys.sort();
         }
@@ -197,29 +199,30 @@ export class _LevelStore implements NanoSQLStorageAdapter {
         const lower = usePK && usefulValues ? from : keys[ranges[0]];
         const higher = usePK && usefulValues ? to : keys[ranges[1]];
 
-        this._levelDBs[table]
+        let idx = ranges[0] || 0;
+        const stream = this._levelDBs[table]
             .createValueStream({
                 gte: this._isPKnum[table] ? new global._Int64BE(lower as any).toBuffer() : lower,
-                lte: this._isPKnum[table] ? new global._Int64BE(higher as any).toBuffer() : higher
-            })
+                lte: this._isPKnum[table] ? new global._Int64BE(higher as any).toBuffer() : higher,
+                reverse: reverse === true
+            });
+
+        // only one row is held in memory at a time, the stream waits for the row callback before reading the next one.
+        stream
             .on("data", (data) => {
-                rows.push(JSON.parse(data));
-            })
-            .on("end", () => {
-                let idx = ranges[0] || 0;
-                let i = 0;
-                const getRow = () => {
-                    if (i < rows.length) {
-                        rowCallback(rows[i], idx, () => {
-                            idx++;
-                            i++;
-                            i % 500 === 0 ? setFast(getRow) : getRow(); // handle maximum call stack error
-                        });
-                    } else {
+                stream.pause();
+                rowCallback(JSON.parse(data), idx, (stop) => {
+                    if (stop) {
+                        stream.destroy();
                         complete();
+                        return;
                     }
-                };
-                getRow();
+                    idx++;
+                    stream.resume();
+                });
+            })
+            .on("end", () => {
+                complete();
             });
     }
 
@@ -134,8 +134,13 @@ export class _SyncStore implements NanoSQLStorageAdapter {
         }
     }
 
-    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: () => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean): void {
+    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean, error?: (err: Error) => void, reverse?: boolean): void {
         let keys = this._dbIndex[table].keys();
+        // a primary key range with one end goes to the first or last key
+        if (usePK && keys.length && (from !== undefined || to !== undefined)) {
+            from = from !== undefined ? from : this._dbIndex[table].first();
+            to = to !== undefined ? to : this._dbIndex[table].last();
+        }
         const usefulValues = [typeof from, typeof to].indexOf("undefined") === -1;
         let ranges: number[] = usefulValues ? [from as any, to as any] : [0, keys.length - 1];
         if (!keys.length) {
@@ -154,17 +159,21 @@ export class _SyncStore implements NanoSQLStorageAdapter {
             });
         }
 
-        let idx = ranges[0];
+        let idx = reverse ? ranges[1] : ranges[0];
         let i = 0;
 
-        const rowDone = () => {
-            idx++;
+        const rowDone = (stop?: boolean) => {
+            if (stop) {
+                complete();
+                return;
+            }
+            idx += reverse ? -1 : 1;
             i++;
             i % 500 === 0 ? setFast(getRow) : getRow(); // handle maximum call stack error
         };
 
         const getRow = () => {
-            if (idx <= ranges[1]) {
+            if (idx >= ranges[0] && idx <= ranges[1]) {
                 if (this._ls) {
                     let r = localStorage.getItem(this._id + "*" + table + "__" + keys[idx]);
                     rowCallback(r ? JSON.parse(r) : undefined, idx, rowDone);
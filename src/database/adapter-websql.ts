@@ -179,8 +179,13 @@ export class _WebSQLStore implements NanoSQLStorageAdapter {
         });
     }
 
-    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: () => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean): void {
+    public rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void, complete: () => void, from?: any, to?: any, usePK?: boolean, error?: (err: Error) => void, reverse?: boolean): void {
         let keys = this._dbIndex[table].keys();
+        // a primary key range with one end goes to the first or last key
+        if (usePK && keys.length && (from !== undefined || to !== undefined)) {
+            from = from !== undefined ? from : this._dbIndex[table].first();
+            to = to !== undefined ? to : this._dbIndex[table].last();
+        }
         const usefulValues = [typeof from, typeof to].indexOf("undefined") === -1;
         let ranges: number[] = usefulValues ? [from as any, to as any] : [];
         if (!keys.length) {
@@ -213,13 +218,17 @@ export class _WebSQLStore implements NanoSQLStorageAdapter {
             stmnt += ` WHERE id IN (${getKeys.map(k => "?").join(", ")})`;
         }
 
-        stmnt += " ORDER BY id";
+        stmnt += reverse ? " ORDER BY id DESC" : " ORDER BY id";
 
         this._sql(false, stmnt, getKeys, (result) => {
             let i = 0;
             const getRow = () => {
                 if (result.rows.length > i) {
-                    rowCallback(JSON.parse(result.rows.item(i).data), idx, () => {
+                    rowCallback(JSON.parse(result.rows.item(i).data), idx, (stop) => {
+                        if (stop) {
+                            complete();
+                            return;
+                        }
                         idx++;
                         i++;
                         i % 500 === 0 ? setFast(getRow) : getRow(); // handle maximum call stack error
@@ -91,6 +91,9 @@ export class DatabaseIndex {
             } else {
                 this._sorted.push(key);
             }
+        } else if (this._sorted.length && key < this._sorted[this._sorted.length - 1]) {
+            // restoring a previously removed key (transaction rollback), keep the index sorted
+            this._sorted.splice(binarySearch(this._sorted, key), 0, key);
         } else {
             this.ai++;
             this._sorted.push(key);
@@ -101,6 +104,14 @@ export class DatabaseIndex {
         return this._sorted;
     }
 
+    public first(): any {
+        return this.sortIndex ? this._sorted[0] : this._sorted.reduce((prev, cur) => cur < prev ? cur : prev, this._sorted[0]);
+    }
+
+    public last(): any {
+        return this.sortIndex ? this._sorted[this._sorted.length - 1] : this._sorted.reduce((prev, cur) => cur > prev ? cur : prev, this._sorted[0]);
+    }
+
     public exists(key: any): boolean {
         return this._exists[String(key)] ? true : false;
     }
@@ -43,6 +43,14 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
         });
     }
 
+    public didConnect(connectArgs: DBConnect, next: () => void): void {
+        // start purging expired rows, the purge queries run once the database is connected
+        Object.keys(this._store.tableInfo).filter(t => this._store.tableInfo[t]._ttlColumn).forEach((table) => {
+            this._store._purgeExpired(table, () => { });
+        });
+        next();
+    }
+
     public getId() {
         return this._store._id;
     }
@@ -56,14 +64,17 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
         new _NanoSQLStorageQuery(this._store).doQuery(execArgs, next);
     }
 
-    /*public transactionBegin(id: string, next: () => void): void {
-        next();
+    public transactionBegin(id: string, next: () => void): void {
+        this._store._transactionBegin(id, next);
     }
 
     public transactionEnd(id: string, next: () => void): void {
-        next();
+        this._store._transactionEnd(id, false, next);
+    }
+
+    public transactionRollback(id: string, next: () => void): void {
+        this._store._transactionEnd(id, true, next);
     }
-    */
 
     public dumpTables(tables?: string[]) {
         return new Promise((res, rej) => {
@@ -90,6 +101,8 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
             });
             fastALL(Object.keys(tables), (tableName, i, done) => {
                 const pkKey = this._store.tableInfo[tableName]._pk;
+                // imported rows are read into the expiry list again
+                delete this._store._expiry[tableName];
                 const length = (tables[tableName] || []).length || 0;
                 let k = 0;
                 const next = () => {
@@ -118,6 +131,7 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
     }
 
     public willDisconnect(next) {
+        this._store._stopExpiry();
         fastALL(this._store.adapters || [], (adapter: NanoSQLStorageAdapter, i, done) => {
             if (adapter.disconnect) {
                 adapter.disconnect(done);
@@ -133,7 +147,7 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
             case "clone":
                 const nSQLi = new NanoSQLInstance();
                 Object.keys(this.parent.dataModels).forEach((table) => {
-                    nSQLi.table(table).model(this.parent.dataModels[table], [], true);
+                    nSQLi.table(table).model(this.parent.dataModels[table], this.parent.tableProps[table], true);
                 });
                 nSQLi
                     .config({
@@ -209,6 +223,7 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
                         fastALL(tablesToDrop, (dropTable, i, dropDone) => {
                             this._store.adapterDrop(dropTable, dropDone);
                         }).then(() => {
+                            this._store._searchStats[table] = {};
                             this._store.adapters[0].adapter.rangeRead(table, (row, idx, next) => {
                                 this.parent.query("upsert", row)
                                     .comment("_rebuild_search_index_")
@@ -225,6 +240,43 @@ export class NanoSQLDefaultBackend implements NanoSQLPlugin {
                     next(args, []);
                 });
                 break;
+            case "migrate_rows":
+                // rewrite every row of a table, then rebuild the indexes using the changed columns
+                const migrateTable: string = args[1];
+                const changedColumns: string[] = args[2];
+                const rewrite: (row: any) => any = args[3];
+                const migrateInfo = this._store.tableInfo[migrateTable];
+                if (!migrateInfo) {
+                    next(args, []);
+                    return;
+                }
+                const compoundColumns = Object.keys(migrateInfo._compoundIndexes).reduce((prev, cur) => prev.concat(migrateInfo._compoundIndexes[cur]), [] as string[])
+                    .concat(Object.keys(migrateInfo._geoIndexes).reduce((prev, cur) => prev.concat(migrateInfo._geoIndexes[cur]), [] as string[]));
+                const rebuildIndexes = changedColumns.filter(c => migrateInfo._secondaryIndexes.indexOf(c) !== -1 || compoundColumns.indexOf(c) !== -1).length > 0;
+                const rebuildSearch = changedColumns.filter(c => migrateInfo._searchColumns[c]).length > 0;
+                let rowCount = 0;
+                this._store.adapters[0].adapter.rangeRead(migrateTable, (row, idx, nextRow) => {
+                    rowCount++;
+                    this._store.adapterWrite(migrateTable, row[migrateInfo._pk], rewrite({ ...row }), () => {
+                        nextRow();
+                    });
+                }, () => {
+                    this._store._cache[migrateTable] = {};
+                    fastCHAIN([rebuildIndexes, rebuildSearch], (doRebuild, i, done) => {
+                        if (!doRebuild) {
+                            done();
+                            return;
+                        }
+                        if (i === 0) {
+                            this._store.rebuildIndexes(migrateTable, done);
+                        } else {
+                            this.extend(done, ["rebuild_search", migrateTable], []);
+                        }
+                    }).then(() => {
+                        next(args, [rowCount]);
+                    });
+                });
+                break;
             case "rebuild_idx":
                 if (args[1]) {
                     this._store.rebuildIndexes(args[1], (time) => {
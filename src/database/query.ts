@@ -1,7 +1,7 @@
-import { IdbQuery } from "../query/std-query";
-import { NanoSQLPlugin, DBConnect, DataModel, NanoSQLFunction, NanoSQLInstance, ORMArgs, nSQL, JoinArgs } from "../index";
+import { IdbQuery, IdbQueryExec, QueryPlan, QueryPlanStage } from "../query/std-query";
+import { NanoSQLPlugin, DBConnect, DataModel, NanoSQLFunction, NanoSQLInstance, ORMArgs, nSQL, JoinArgs, SetOperationArgs } from "../index";
 import { _NanoSQLStorage, DBRow } from "./storage";
-import { fastALL, _assign, hash, deepFreeze, objQuery, uuid, fastCHAIN, intersect, tokenizer, crowDistance } from "../utilities";
+import { fastALL, _assign, hash, deepFreeze, objQuery, uuid, fastCHAIN, intersect, isObject, tokenizer, parseSearchQuery, tokenOffsets, searchSnippet, crowDistance, geoBounds, isType, timeNow, FunctionCall, parseFunction, fnValue } from "../utilities";
 import * as fuzzy from "fuzzysearch";
 import * as levenshtein from "levenshtein-edit-distance";
 import { resolve } from "dns";
@@ -43,6 +43,30 @@ const queryObj = {
             });
         }
     },
+    restore: (self: _NanoSQLStorageQuery, next) => {
+        if (self._store._doCache) {
+            self._restore(next);
+        } else {
+            self._store.queue.add(self._query.table as string, (done) => {
+                self._restore(() => {
+                    done();
+                    next(self._query);
+                });
+            });
+        }
+    },
+    purge: (self: _NanoSQLStorageQuery, next) => {
+        if (self._store._doCache) {
+            self._purge(next);
+        } else {
+            self._store.queue.add(self._query.table as string, (done) => {
+                self._purge(() => {
+                    done();
+                    next(self._query);
+                });
+            });
+        }
+    },
     drop: (self: _NanoSQLStorageQuery, next) => {
         if (self._store._doCache) {
             self._drop(next);
@@ -98,6 +122,33 @@ export class _NanoSQLStorageQuery {
      */
     private _isInstanceTable: boolean;
 
+    /**
+     * Wether the selected rows already come back in ORDER BY order (read from a compound index).
+     *
+     * @internal
+     * @type {boolean}
+     * @memberof _NanoSQLStorageQuery
+     */
+    public _rowsOrdered: boolean;
+
+    /**
+     * Row counts of the tables read by an explained query, used for the planner estimates.
+     *
+     * @internal
+     * @type {{ [table: string]: number }}
+     * @memberof _NanoSQLStorageQuery
+     */
+    public _tableRows: { [table: string]: number };
+
+    /**
+     * The WHERE stage of an explained query, the row selection fills in the estimated and scanned rows.
+     *
+     * @internal
+     * @type {QueryPlanStage}
+     * @memberof _NanoSQLStorageQuery
+     */
+    public _planWhere: QueryPlanStage;
+
     constructor(
         public _store: _NanoSQLStorage
     ) {
@@ -117,7 +168,18 @@ export class _NanoSQLStorageQuery {
         this._query = query;
         this._isInstanceTable = Array.isArray(query.table);
 
-        queryObj[query.action](this, next);
+        if (this._isInstanceTable) {
+            queryObj[query.action](this, next);
+            return;
+        }
+
+        // queries outside of an open transaction wait for it to end
+        this._store._runQuery(query, (done) => {
+            queryObj[query.action](this, (q) => {
+                done();
+                next(q);
+            });
+        });
     }
 
     /**
@@ -137,6 +199,44 @@ export class _NanoSQLStorageQuery {
         }
     }
 
+    /**
+     * Retreive the selected rows, recording the WHERE stage if the query is being explained.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _getPlannedRows(complete: (rows: DBRow[]) => void) {
+        if (!this._query.explain || this._isInstanceTable) {
+            this._getRows(complete);
+            return;
+        }
+
+        const plan: QueryPlan = this._query.plan = { access: "full scan", indexes: [], filtered: false, stages: [], time: 0 };
+        this._planWhere = { stage: "where", estimated: 0, scanned: 0, rows: 0, time: 0 };
+
+        const joins: JoinArgs[] = this._query.join ? (Array.isArray(this._query.join) ? this._query.join : [this._query.join]) : [];
+        this._tableRows = {};
+        const tables = [this._query.table as string].concat(joins.map(j => parseJoinTable(j.table).table)).filter((t, i, arr) => arr.indexOf(t) === i);
+        fastALL(tables, (table, i, done) => {
+            this._store.adapters[0].adapter.getIndex(table, true, (count: number) => {
+                this._tableRows[table] = count;
+                done();
+            });
+        }).then(() => {
+            const start = timeNow();
+            this._getRows((rows) => {
+                // joins read their rows in the join stage
+                if (!this._query.join) {
+                    this._planWhere.rows = rows.length;
+                    this._planWhere.time = timeNow() - start;
+                    plan.stages.push(this._planWhere);
+                }
+                complete(rows);
+            });
+        });
+    }
+
     private _hash: string;
 
     /**
@@ -154,8 +254,6 @@ export class _NanoSQLStorageQuery {
             queryID: null
         });
 
-        const canCache = !this._query.join && !this._query.orm && this._store._doCache && !Array.isArray(this._query.table);
-
         // Query cache for the win!
         /*if (canCache && this._store._cache[this._query.table as any][this._hash]) {
             this._query.result = this._store._cache[this._query.table as any][this._hash];
@@ -163,24 +261,484 @@ export class _NanoSQLStorageQuery {
             return;
         }*/
 
-        this._getRows((rows) => {
+        const start = timeNow();
+        const done = (resultRows: DBRow[]) => {
+            if (this._query.plan) {
+                this._query.plan.time = timeNow() - start;
+            }
+            this._query.result = resultRows;
+            next(this._query);
+        };
+
+        if (this._query.stream) {
+            this._streamRows(done);
+        } else if (this._query.page || this._query.after !== undefined) {
+            this._cursorRows(done);
+        } else if (this._query.setOperations && this._query.setOperations.length) {
+            this._setOperations(done);
+        } else {
+            this._selectRows(done);
+        }
+    }
+
+    /**
+     * Run a streamed SELECT query, rows are read from the adapter one at a time and passed to the stream callback as they're found.
+     * The next row isn't read until the stream callback asks for it.
+     * Queries that need every row before they can return any (ORDER BY, GROUP BY, aggregates, joins...) are selected normally, then streamed.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _streamRows(complete: (rows: DBRow[]) => void) {
+        const q = this._query;
+        const stream = q.stream as (row: DBRow, next: (stop?: boolean) => void) => void;
+
+        if (!this._canStream()) {
+            const select = q.setOperations && q.setOperations.length ? this._setOperations : this._selectRows;
+            select.apply(this, [(rows: DBRow[]) => {
+                if (q.error) {
+                    complete([]);
+                    return;
+                }
+                let stopped = false;
+                fastCHAIN(rows, (row, i, next) => {
+                    if (stopped) {
+                        next();
+                        return;
+                    }
+                    stream(row, (stop) => {
+                        stopped = stop === true;
+                        next();
+                    });
+                }).then(() => {
+                    complete([]);
+                });
+            }]);
+            return;
+        }
+
+        // the select list is done one row at a time
+        const mutate = q.actionArgs && q.actionArgs.length ? new _MutateSelection({ ...q, offset: undefined, limit: undefined }, this._store) : undefined;
+
+        const scanTable = () => {
+            const where = q.where;
+            const limit = q.limit;
+            const visible = visibleRows(this._store, q, q.table as string);
+            // without a where statement the offset and limit are a range of rows
+            const useRange = !where && !visible && limit !== undefined;
+            // primary key conditions limit the rows that are read
+            const pkRange = !useRange && Array.isArray(where) ? this._wherePKRange(where) : undefined;
+            let skip = useRange ? 0 : q.offset || 0;
+            let sent = 0;
+            let stopped = false;
+            let finished = false;
+            const finish = () => {
+                if (finished) return;
+                finished = true;
+                complete([]);
+            };
+
+            if ((limit !== undefined && limit <= 0) || (pkRange && pkRange[0] !== undefined && pkRange[1] !== undefined && pkRange[0] > pkRange[1])) {
+                finish();
+                return;
+            }
+
+            const from = useRange ? q.offset || 0 : pkRange ? pkRange[0] : undefined;
+            const to = useRange ? (q.offset || 0) + (limit as number) - 1 : pkRange ? pkRange[1] : undefined;
+            this._store.adapters[0].adapter.rangeRead(q.table as string, (row, idx, nextRow) => {
+                // adapters might not stop reading when asked to
+                if (stopped) {
+                    nextRow(true);
+                    return;
+                }
+                if (!row || (visible && !visible(row)) || (where && !(Array.isArray(where) ? _where(row, where, idx, false) : (where as any)(row, idx)))) {
+                    nextRow();
+                    return;
+                }
+                if (skip > 0) {
+                    skip--;
+                    nextRow();
+                    return;
+                }
+                const send = (newRow: DBRow) => {
+                    sent++;
+                    stream(newRow, (stop) => {
+                        // the stream is done with the rows or the limit is reached
+                        if (stop || (limit !== undefined && sent >= limit)) {
+                            stopped = true;
+                            nextRow(true);
+                            return;
+                        }
+                        nextRow();
+                    });
+                };
+                if (mutate) {
+                    mutate._executeQueryArguments([row], (rows) => {
+                        send(rows[0]);
+                    });
+                } else {
+                    send(row);
+                }
+            }, finish, from, to, pkRange !== undefined);
+        };
+
+        // subqueries run first, their results replace them in the where statement
+        if (Array.isArray(q.where) && hasSubquery(q.where)) {
+            resolveSubqueries(this._store._nsql, q, q.where, (where) => {
+                q.where = where as any;
+                scanTable();
+            }, (err) => {
+                q.error = err;
+                complete([]);
+            });
+            return;
+        }
+        scanTable();
+    }
+
+    /**
+     * Get the primary key range a where statement keeps the rows in, undefined if it doesn't.
+     * Only conditions joined with AND are used, the rows in the range are still checked against the whole where statement.
+     *
+     * @internal
+     * @param {any[]} where
+     * @returns {([any, any] | undefined)} [from, to], either can be undefined
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _wherePKRange(where: any[]): [any, any] | undefined {
+        const tableInfo = this._store.tableInfo[this._query.table as string];
+        const pk = tableInfo._pk;
+        const conditions: any[] = typeof where[0] === "string" ? [where] : where;
+        if (conditions.filter((c, i) => i % 2 === 1 && c !== "AND").length) return undefined;
+
+        let from: any;
+        let to: any;
+        // values that don't match the key type are left to the where check
+        const keyType = ["int", "float", "number"].indexOf(tableInfo._pkType) !== -1 ? "number" : "string";
+        const usable = (value: any) => typeof value === keyType;
+        const lower = (value: any) => {
+            if (usable(value) && (from === undefined || value > from)) from = value;
+        };
+        const upper = (value: any) => {
+            if (usable(value) && (to === undefined || value < to)) to = value;
+        };
+        conditions.forEach((c, i) => {
+            if (i % 2 === 1 || c[0] !== pk) return;
+            switch (c[1]) {
+                case "=":
+                    lower(c[2]);
+                    upper(c[2]);
+                    break;
+                case ">":
+                case ">=":
+                    lower(c[2]);
+                    break;
+                case "<":
+                case "<=":
+                    upper(c[2]);
+                    break;
+                case "BETWEEN":
+                    if (Array.isArray(c[2])) {
+                        lower(c[2][0]);
+                        upper(c[2][1]);
+                    }
+                    break;
+            }
+        });
+        return from === undefined && to === undefined ? undefined : [from, to];
+    }
+
+    /**
+     * Check if a streamed query can pass rows on as they're read, only WHERE, OFFSET, LIMIT and select lists without aggregates can.
+     *
+     * @internal
+     * @returns {boolean}
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _canStream(): boolean {
+        const q = this._query;
+        if (typeof q.table !== "string" || q.explain || q.range || q.trie || q.join || q.orm || q.groupBy || q.having || q.orderBy || q.distinct) return false;
+        if (q.setOperations && q.setOperations.length) return false;
+        if (Array.isArray(q.where) && JSON.stringify(q.where).indexOf("search(") !== -1) return false;
+        return (q.actionArgs || []).filter((column) => {
+            if (typeof column !== "string") return true; // subquery column
+            const expression = splitAlias(column)[0];
+            const call = parseFunction(expression);
+            return call !== undefined && (isAggregateCall(call) || parseWindow(expression) !== undefined);
+        }).length === 0;
+    }
+
+    /**
+     * Get a page of rows ordered by the primary key or a secondary index, starting after the query's cursor.
+     * One more row than the limit is read to know if there's another page, if there is the cursor for it is put on the query.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _cursorRows(complete: (rows: DBRow[]) => void) {
+        const q = this._query;
+        q.cursor = undefined;
+
+        const fail = (err: string) => {
+            q.error = err;
+            complete([]);
+        };
+
+        if (typeof q.table !== "string") {
+            fail("nSQL: Cursors can't be used with instance tables!");
+            return;
+        }
+        if (q.explain || q.join || q.orm || q.groupBy || q.having || q.distinct || q.range || q.trie || q.offset || (q.setOperations && q.setOperations.length)) {
+            fail("nSQL: Cursors can only be used with where, order by and limit!");
+            return;
+        }
+        if (Array.isArray(q.where) && JSON.stringify(q.where).indexOf("search(") !== -1) {
+            fail("nSQL: Cursors can't be used with search()!");
+            return;
+        }
+        if (!q.limit || q.limit < 0) {
+            fail("nSQL: Cursors need a limit!");
+            return;
+        }
+
+        const table = q.table;
+        const limit = q.limit;
+        const pk = this._store.tableInfo[table]._pk;
+        const orderKeys = Object.keys(q.orderBy || {});
+        const column = orderKeys.length ? orderKeys[0] : pk;
+        const desc = orderKeys.length ? String((q.orderBy as any)[column]).toLowerCase() === "desc" : false;
+        if (orderKeys.length > 1 || (column !== pk && this._store.tableInfo[table]._secondaryIndexes.indexOf(column) === -1)) {
+            fail("nSQL: Cursors can only order by the primary key or a secondary index!");
+            return;
+        }
+
+        let after: [any, any] | undefined;
+        if (q.after !== undefined) {
+            let cursor: any[];
+            try {
+                cursor = JSON.parse(q.after);
+            } catch (e) {
+                fail("nSQL: Invalid cursor!");
+                return;
+            }
+            if (!Array.isArray(cursor) || cursor.length !== 4) {
+                fail("nSQL: Invalid cursor!");
+                return;
+            }
+            if (cursor[0] !== column || cursor[1] !== (desc ? "desc" : "asc")) {
+                fail("nSQL: The cursor doesn't match the query's order!");
+                return;
+            }
+            after = [cursor[2], cursor[3]];
+        }
+
+        // the select list is done on the page's rows only
+        const mutate = q.actionArgs && q.actionArgs.length ? new _MutateSelection({ ...q, orderBy: undefined, offset: undefined, limit: undefined }, this._store) : undefined;
+
+        const readPage = () => {
+            const where = q.where;
+            const visible = visibleRows(this._store, q, table);
+            let idx = 0;
+            const filter = (row: DBRow): boolean => {
+                if (visible && !visible(row)) return false;
+                if (!where) return true;
+                return Array.isArray(where) ? _where(row, where, idx++, false) : (where as any)(row, idx++);
+            };
+            this._store._cursorRead(table, column, desc, after, limit + 1, filter, (rows, keys) => {
+                if (rows.length > limit) {
+                    rows = rows.slice(0, limit);
+                    q.cursor = JSON.stringify([column, desc ? "desc" : "asc", keys[limit - 1], rows[limit - 1][pk]]);
+                }
+                if (mutate) {
+                    mutate._executeQueryArguments(rows, complete);
+                } else {
+                    complete(rows);
+                }
+            });
+        };
+
+        // subqueries run first, their results replace them in the where statement
+        if (Array.isArray(q.where) && hasSubquery(q.where)) {
+            resolveSubqueries(this._store._nsql, q, q.where, (where) => {
+                q.where = where as any;
+                readPage();
+            }, fail);
+            return;
+        }
+        readPage();
+    }
+
+    /**
+     * Get the rows of a SELECT query.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _selectRows(complete: (rows: DBRow[]) => void) {
+
+        const canCache = !this._query.join && !this._query.orm && this._store._doCache && !Array.isArray(this._query.table);
+
+        this._getPlannedRows((rows) => {
 
             // No query arguments, we can skip the whole mutation selection class
-            if (!["having", "orderBy", "offset", "limit", "actionArgs", "groupBy", "orm", "join"].filter(k => this._query[k]).length) {
+            if (!["having", "distinct", "orderBy", "offset", "limit", "actionArgs", "groupBy", "orm", "join"].filter(k => this._query[k]).length) {
                 if (canCache) this._store._cache[this._query.table as any][this._hash] = rows;
-                this._query.result = rows;
-                next(this._query);
+                complete(rows);
             } else {
-                new _MutateSelection(this._query, this._store)._executeQueryArguments(rows, (resultRows) => {
+                new _MutateSelection(this._query, this._store, this._rowsOrdered, this._tableRows)._executeQueryArguments(rows, (resultRows) => {
                     if (canCache) this._store._cache[this._query.table as any][this._hash] = rows;
-                    this._query.result = resultRows;
-                    next(this._query);
+                    complete(resultRows);
                 });
             }
 
         });
     }
 
+    /**
+     * Run a SELECT query with UNION, INTERSECT or EXCEPT queries.
+     * The other queries are checked against this one, then their rows are combined in order.
+     * The ORDER BY, OFFSET and LIMIT are held back until every query is combined.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _setOperations(complete: (rows: DBRow[]) => void) {
+        const { setOperations, orderBy, offset, limit } = this._query;
+        const operations = setOperations as SetOperationArgs[];
+
+        const columns = this._setColumns(this._query);
+        let error = "";
+        operations.forEach((op) => {
+            if (error) return;
+            const name = op.type.toUpperCase();
+            if (!op.query || String(op.query.action).toLowerCase().trim() !== "select") {
+                error = "nSQL: " + name + " can only combine select queries!";
+                return;
+            }
+            if (typeof op.query.table === "string" && !this._store.models[op.query.table]) {
+                error = "nSQL: Can't " + name + " table \"" + op.query.table + "\", it doesn't exist!";
+                return;
+            }
+            const opColumns = this._setColumns(op.query);
+            if (!columns.length || !opColumns.length) return;
+            if (columns.length !== opColumns.length) {
+                error = "nSQL: " + name + " queries must select the same number of columns!";
+                return;
+            }
+            columns.forEach((column, i) => {
+                if (!error && !setTypesMatch(column.type, opColumns[i].type)) {
+                    error = "nSQL: " + name + " column \"" + opColumns[i].name + "\" (" + opColumns[i].type + ") doesn't match column \"" + column.name + "\" (" + column.type + ")!";
+                }
+            });
+        });
+        if (error) {
+            this._query.error = error;
+            complete([]);
+            return;
+        }
+
+        // the rows of every query get this query's column names
+        const renameRows = (rows: DBRow[], rowColumns: { name: string }[]): DBRow[] => {
+            if (!columns.length || !rowColumns.length) return rows;
+            return rows.map((row) => {
+                return columns.reduce((prev, cur, i) => {
+                    prev[cur.name] = row[rowColumns[i].name];
+                    return prev;
+                }, {});
+            });
+        };
+
+        this._query.setOperations = this._query.orderBy = this._query.offset = this._query.limit = undefined;
+        this._selectRows((rows) => {
+            this._query.setOperations = setOperations;
+            this._query.orderBy = orderBy;
+            this._query.offset = offset;
+            this._query.limit = limit;
+            if (this._query.error) {
+                complete([]);
+                return;
+            }
+
+            let failed = false;
+            fastCHAIN(operations, (op, i, opDone) => {
+                runSubquery(this._store._nsql, this._query, op.query, opDone, (err) => {
+                    failed = true;
+                    this._query.error = err;
+                    complete([]);
+                });
+            }).then((results: DBRow[][]) => {
+                if (failed) return;
+
+                let combined = renameRows(rows, columns);
+                operations.forEach((op, i) => {
+                    const start = timeNow();
+                    const opRows = renameRows(results[i], this._setColumns(op.query));
+                    const scanned = combined.length + opRows.length;
+                    switch (op.type) {
+                        case "union all":
+                            combined = combined.concat(opRows);
+                            break;
+                        case "union":
+                            combined = uniqueRows(combined.concat(opRows));
+                            break;
+                        case "intersect":
+                        case "except":
+                            let found = {};
+                            opRows.forEach((row) => {
+                                found[rowKey(row)] = true;
+                            });
+                            combined = uniqueRows(combined.filter(r => (found[rowKey(r)] === true) === (op.type === "intersect")));
+                            break;
+                    }
+                    if (this._query.plan) {
+                        this._query.plan.stages.push({ stage: op.type === "union all" ? "union" : op.type, estimated: scanned, scanned: scanned, rows: combined.length, time: timeNow() - start });
+                    }
+                });
+
+                if (!orderBy && !offset && !limit) {
+                    complete(combined);
+                    return;
+                }
+                const combinedQuery: IdbQuery = {
+                    ...this._query,
+                    actionArgs: undefined,
+                    join: undefined,
+                    orm: undefined,
+                    groupBy: undefined,
+                    having: undefined,
+                    distinct: undefined
+                };
+                new _MutateSelection(combinedQuery, this._store)._executeQueryArguments(combined, complete);
+            });
+        });
+    }
+
+    /**
+     * The columns a select query returns with their data model types, types are undefined for functions and unknown columns.
+     * Empty if the columns aren't known, like selecting every column of an instance table.
+     *
+     * @internal
+     * @param {IdbQueryExec} query
+     * @returns {{ name: string, type: string | undefined }[]}
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _setColumns(query: IdbQueryExec): { name: string, type: string | undefined }[] {
+        const models: DataModel[] = typeof query.table === "string" ? this._store.models[query.table] || [] : [];
+        const args: any[] = query.actionArgs && query.actionArgs.length ? query.actionArgs : models.filter(m => m.key !== "*").map(m => m.key);
+        return args.map((arg) => {
+            if (typeof arg !== "string") { // subquery column
+                return { name: arg.as, type: undefined };
+            }
+            const [expression, alias] = splitAlias(arg);
+            const model = models.filter(m => m.key === expression)[0];
+            return { name: alias || expression, type: model ? model.type : undefined };
+        });
+    }
+
     private _updateORMRows(relation: {
         _thisColumn: string;
         _thisType: "array" | "single";
@@ -220,7 +778,7 @@ export class _NanoSQLStorageQuery {
                         newRow[relation._fromColumn] = null;
                     }
                 }
-                this._store._nsql.query("upsert", newRow).comment("_orm_skip").manualExec({ table: relation._fromTable }).then(rowDone);
+                this._store._nsql.query("upsert", newRow).comment("_orm_skip").manualExec({ ...inTransaction(this._query), table: relation._fromTable }).then(rowDone);
             }).then(complete);
         });
     }
@@ -334,6 +892,11 @@ export class _NanoSQLStorageQuery {
             if (tokens !== false) return tokens as any;
         }
 
+        const analyzer = NanoSQLInstance.analyzers[args[1]];
+        if (analyzer) {
+            return analyzer.tokenize(value, args);
+        }
+
         return tokenizer(this._query.table as any, column, args, value);
     }
 
@@ -391,8 +954,9 @@ export class _NanoSQLStorageQuery {
                         }, true);
                     }).then(next);
                 }).then(() => {
+                    this._store._updateSearchStats(table, col, -1, -row.tokens.length);
                     // remove row hash and token cache
-                    this._store.adapters[0].adapter.delete(tokenTable + col, pk, next);
+                    this._store.adapterDelete(tokenTable + col, pk, next);
                 });
             }, true);
         }).then(complete);
@@ -498,6 +1062,7 @@ export class _NanoSQLStorageQuery {
                     }).then(nextTokens);
                 }).then(() => {
 
+                    this._store._updateSearchStats(table, col, row ? 0 : 1, newTokens.length - existing.tokens.length);
                     this._store.adapterWrite(tokenTable + col, pk, {
                         id: pk,
                         hash: thisHash,
@@ -660,8 +1225,6 @@ export class _NanoSQLStorageQuery {
      */
     public _upsert(next: (q: IdbQuery) => void) {
 
-        const pk = this._store.tableInfo[this._query.table as any]._pk;
-
         if (this._isInstanceTable) {
             this._getRows((rows) => {
                 this._query.result = (this._query.table as any[]).map((r) => {
@@ -678,44 +1241,118 @@ export class _NanoSQLStorageQuery {
             return;
         }
 
-        if (this._query.where) { // has where statement, select rows then modify them
-
-            this._getRows((rows) => {
-
-                if (rows.length) {
-                    // any changes to this table invalidates the cache
-                    this._store._cache[this._query.table as any] = {};
+        if (this._store.tableInfo[this._query.table as any]._uniqueColumns.length || (this._query.actionArgs || []).filter(hasUpdateOperators).length || ["insert", "ignore"].indexOf(this._query.upsertMode || "") !== -1) {
+            // unique checks, update operators and insert or ignore modes read rows before writing them, they can't be mixed with other upserts on the same table
+            this._store.queue.add("_unique_" + this._query.table, (done) => {
+                this._upsertRows(done, next);
+            });
+        } else {
+            this._upsertRows(() => { }, next);
+        }
+    }
 
-                    let newRows: any[] = [];
-                    fastCHAIN(this._query.actionArgs, (inputData, k, nextRow) => {
+    /**
+     * Write the rows of an UPSERT query.
+     * Calls unlock once every row has been written.
+     *
+     * @internal
+     * @param {() => void} unlock
+     * @param {(q: IdbQuery) => void} next
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _upsertRows(unlock: () => void, next: (q: IdbQuery) => void) {
 
-                        fastCHAIN(rows, (row, i, rowDone) => {
+        const pk = this._store.tableInfo[this._query.table as any]._pk;
 
-                            this._updateSearchIndex(row[pk], row, () => {
-                                this._updateRowViews(inputData || {}, row, (updatedRowData) => {
+        const queryError = (error: string) => {
+            unlock();
+            this._query.error = error;
+            this._query.result = [];
+            next(this._query);
+        };
+
+        const mode = this._query.upsertMode || "merge";
+        if (["merge", "replace", "insert", "ignore", "update"].indexOf(mode) === -1) {
+            queryError(`nSQL: Unknown upsert mode "${mode}"!`);
+            return;
+        }
+
+        const operatorError = (this._query.actionArgs || []).map(checkUpdateOperators).filter(e => e)[0];
+        if (operatorError) {
+            queryError(operatorError);
+            return;
+        }
+
+        // replaced rows lose every column they don't write, they're validated like new rows
+        const validateRow = (row: any, oldRow: any): { row: any, oldRow: any } => {
+            const update = applyUpdateOperators(row, oldRow);
+            return { row: update.row, oldRow: mode === "replace" || update.replace ? undefined : oldRow };
+        };
+
+        if (this._query.where) { // has where statement, select rows then modify them
+
+            if (mode === "insert" || mode === "ignore") {
+                queryError("nSQL: Upserts with a where can only merge, replace or update rows!");
+                return;
+            }
+
+            this._getRows((rows) => {
+
+                if (rows.length) {
+
+                    const setRow = (this._query.actionArgs || []).reduce((prev, cur) => ({ ...prev, ...cur }), {});
+                    const invalid = this._validateRows(rows.map(r => validateRow(setRow, r)));
+                    if (invalid) {
+                        queryError(invalid);
+                        return;
+                    }
+                    this._checkUnique(rows.map(r => ({ pk: r[pk], row: applyUpdateOperators(setRow, r).row })), (error) => {
+                        if (error) {
+                            queryError(error);
+                            return;
+                        }
+
+                        // any changes to this table invalidates the cache
+                        this._store._cache[this._query.table as any] = {};
+
+                        let newRows: any[] = [];
+                        fastCHAIN(this._query.actionArgs, (inputData, k, nextRow) => {
+
+                            fastCHAIN(rows, (row, i, rowDone) => {
+
+                                const update = applyUpdateOperators(inputData || {}, row);
+                                const replace = mode === "replace" || update.replace;
+                                this._updateRowViews(update.row, row, (updatedRowData) => {
                                     if (this._store.tableInfo[this._query.table as any]._hasDefaults) {
                                         Object.keys(this._store.tableInfo[this._query.table as any]._defaults).forEach((col) => {
-                                            if (row[col] === undefined && updatedRowData[col] === undefined) {
+                                            if ((replace ? undefined : row[col]) === undefined && updatedRowData[col] === undefined) {
                                                 updatedRowData[col] = this._store.tableInfo[this._query.table as any]._defaults[col];
                                             }
                                         });
                                     }
-                                    this._store._write(this._query.table as any, row[pk], row, updatedRowData, rowDone);
+                                    this._store._write(this._query.table as any, row[pk], row, updatedRowData, (result) => {
+                                        // the search index is updated from the written row so it has the new values
+                                        this._updateSearchIndex(result[pk], result, () => {
+                                            rowDone(result);
+                                        });
+                                    }, replace);
                                 });
+                            }).then((nRows: DBRow[]) => {
+                                newRows = nRows;
+                                nextRow();
+                            });
+                        }).then(() => {
+                            unlock();
+                            const pks = newRows.map(r => r[pk]);
+                            this._query.result = [{ msg: newRows.length + " row(s) modfied.", affectedRowPKS: pks, affectedRows: newRows, changes: newRows.map((r, i) => ({ before: rows[i], after: r })) }];
+                            this._syncORM("add", rows, newRows, () => {
+                                this._doAfterQuery(newRows, false, next);
                             });
-                        }).then((nRows: DBRow[]) => {
-                            newRows = nRows;
-                            nextRow();
-                        });
-                    }).then(() => {
-                        const pks = newRows.map(r => r[pk]);
-                        this._query.result = [{ msg: newRows.length + " row(s) modfied.", affectedRowPKS: pks, affectedRows: newRows }];
-                        this._syncORM("add", rows, newRows, () => {
-                            this._doAfterQuery(newRows, false, next);
                         });
                     });
                 } else {
-                    this._query.result = [{ msg: "0 row(s) modfied.", affectedRowPKS: [], affectedRows: [] }];
+                    unlock();
+                    this._query.result = [{ msg: "0 row(s) modfied.", affectedRowPKS: [], affectedRows: [], changes: [] }];
                     next(this._query);
                 }
             });
@@ -723,53 +1360,297 @@ export class _NanoSQLStorageQuery {
         } else { // no where statement, perform direct upsert
 
             let rows = this._query.actionArgs || [];
-            this._store._cache[this._query.table as any] = {};
-            let oldRows: any[] = [];
-            let addedRows: any[] = [];
-            fastCHAIN(rows, (row, k, nextRow) => {
-                const write = (oldRow: any) => {
-                    this._updateRowViews(row, oldRow, (updatedRowData) => {
-
-                        if (this._store.tableInfo[this._query.table as any]._hasDefaults) {
-                            Object.keys(this._store.tableInfo[this._query.table as any]._defaults).forEach((col) => {
-                                if ((oldRow || {})[col] === undefined && updatedRowData[col] === undefined) {
-                                    updatedRowData[col] = this._store.tableInfo[this._query.table as any]._defaults[col];
-                                }
-                            });
+            this._getExistingRows(rows, (existingRows) => {
+                const invalid = this._validateRows(rows.map((r, i) => validateRow(r, existingRows[i])));
+                if (invalid) {
+                    queryError(invalid);
+                    return;
+                }
+                this._checkUnique(rows.map((r, i) => ({ pk: r[pk], row: applyUpdateOperators(r, existingRows[i]).row })), (error) => {
+                    if (error) {
+                        queryError(error);
+                        return;
+                    }
+
+                    this._checkInsertOnly(rows, mode, (error) => {
+                        if (error) {
+                            queryError(error);
+                            return;
                         }
 
-                        this._store._write(this._query.table as any, row[pk], oldRow, updatedRowData, (result) => {
-                            this._updateSearchIndex(result[pk], result, () => {
-                                oldRows.push(oldRow || {});
-                                addedRows.push(result);
-                                nextRow();
-                            });
+                        this._store._cache[this._query.table as any] = {};
+                        let oldRows: any[] = [];
+                        let addedRows: any[] = [];
+                        let changes: { before: DBRow | undefined, after: DBRow }[] = [];
+                        fastCHAIN(rows, (row, k, nextRow) => {
+                            const write = (storedRow: any) => {
+                                // soft deleted and expired rows are replaced like they don't exist
+                                const oldRow = isHidden(this._store, this._query.table as string, storedRow) ? null : storedRow;
+                                // ignore doesn't touch existing rows, update doesn't create new ones
+                                if (oldRow ? mode === "ignore" : mode === "update") {
+                                    nextRow();
+                                    return;
+                                }
+                                const update = applyUpdateOperators(row, oldRow);
+                                const replace = mode === "replace" || update.replace;
+                                this._updateRowViews(update.row, oldRow, (updatedRowData) => {
+
+                                    if (this._store.tableInfo[this._query.table as any]._hasDefaults) {
+                                        Object.keys(this._store.tableInfo[this._query.table as any]._defaults).forEach((col) => {
+                                            if ((replace ? {} : oldRow || {})[col] === undefined && updatedRowData[col] === undefined) {
+                                                updatedRowData[col] = this._store.tableInfo[this._query.table as any]._defaults[col];
+                                            }
+                                        });
+                                    }
+
+                                    this._store._write(this._query.table as any, row[pk], storedRow, updatedRowData, (result) => {
+                                        this._updateSearchIndex(result[pk], result, () => {
+                                            oldRows.push(oldRow || {});
+                                            addedRows.push(result);
+                                            changes.push({ before: oldRow || undefined, after: result });
+                                            nextRow();
+                                        });
+                                    }, replace || oldRow !== storedRow);
+                                });
+                            };
+
+                            if (row[pk] !== undefined && this._query.comments.indexOf("_rebuild_search_index_") === -1) {
+                                this._store._read(this._query.table as any, [row[pk]] as any, (rows) => {
+                                    if (rows.length) {
+                                        write(rows[0]);
+                                    } else {
+                                        write(null);
+                                    }
+                                });
+                            } else {
+                                write(null);
+                            }
+                        }).then(() => {
+                            unlock();
+                            this._query.result = [{ msg: `${addedRows.length} row(s) inserted.`, affectedRowPKS: addedRows.map(r => r[pk]), affectedRows: addedRows, changes: changes }];
+                            if (this._store._hasORM) {
+                                this._syncORM("add", oldRows, addedRows, () => {
+                                    this._doAfterQuery(addedRows, false, next);
+                                });
+                            } else {
+                                this._doAfterQuery(addedRows, false, next);
+                            }
                         });
                     });
-                };
+                });
+            });
+        }
+    }
 
-                if (row[pk] !== undefined && this._query.comments.indexOf("_rebuild_search_index_") === -1) {
-                    this._store._read(this._query.table as any, [row[pk]] as any, (rows) => {
-                        if (rows.length) {
-                            write(rows[0]);
-                        } else {
-                            write(null);
-                        }
-                    });
-                } else {
-                    write(null);
+    /**
+     * Make sure none of the rows of an insert only upsert already exist or share a primary key with each other.
+     * Calls complete with an error message if one does.
+     *
+     * @internal
+     * @param {any[]} rows
+     * @param {string} mode
+     * @param {(error?: string) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _checkInsertOnly(rows: any[], mode: string, complete: (error?: string) => void) {
+        const table = this._query.table as any;
+        const pk = this._store.tableInfo[table]._pk;
+        const pks = rows.map(r => r[pk]).filter(k => k !== undefined);
+        if (mode !== "insert" || !pks.length) {
+            complete();
+            return;
+        }
+        const repeated = pks.filter((k, i) => pks.indexOf(k) !== i)[0];
+        if (repeated !== undefined) {
+            complete(`nSQL: Insert failed, ${table}.${pk} "${repeated}" is in the upsert more than once!`);
+            return;
+        }
+        this._store._read(table, pks as any, (existing: DBRow[]) => {
+            const found = existing.filter(r => r && !isHidden(this._store, table, r));
+            complete(found.length ? `nSQL: Insert failed, ${table}.${pk} "${found[0][pk]}" already exists!` : undefined);
+        });
+    }
+
+    /**
+     * Get the existing version of each row in an upsert (undefined for new rows).
+     * Only needed when the table has validation rules or unique columns that update operators might change.
+     *
+     * @internal
+     * @param {any[]} rows
+     * @param {(existingRows: any[]) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _getExistingRows(rows: any[], complete: (existingRows: any[]) => void) {
+        const table = this._query.table as any;
+        const pk = this._store.tableInfo[table]._pk;
+        const pks = rows.map(r => r[pk]).filter(k => k !== undefined);
+        const needed = this._store.tableInfo[table]._hasValidation || (this._store.tableInfo[table]._uniqueColumns.length && rows.filter(hasUpdateOperators).length);
+        if (!needed || !pks.length || this._query.comments.indexOf("_rebuild_search_index_") !== -1) {
+            complete([]);
+            return;
+        }
+        this._store._read(table, pks as any, (existing) => {
+            let existingMap = {};
+            existing.forEach((row) => {
+                // soft deleted and expired rows are replaced like new ones
+                if (!isHidden(this._store, table, row)) {
+                    existingMap[row[pk]] = row;
                 }
-            }).then(() => {
-                this._query.result = [{ msg: `${addedRows.length} row(s) inserted.`, affectedRowPKS: addedRows.map(r => r[pk]), affectedRows: addedRows }];
-                if (this._store._hasORM) {
-                    this._syncORM("add", oldRows, addedRows, () => {
-                        this._doAfterQuery(addedRows, false, next);
-                    });
-                } else {
-                    this._doAfterQuery(addedRows, false, next);
+            });
+            complete(rows.map(r => r[pk] !== undefined ? existingMap[r[pk]] : undefined));
+        });
+    }
+
+    /**
+     * Check the rows of an upsert against the validation rules of the data model.
+     * New and replaced rows have every column checked, existing rows only the columns being changed.
+     * Returns an error message listing every failing column, if any.
+     *
+     * @internal
+     * @param {{ row: any, oldRow: any }[]} rows values being written and the existing row (if any)
+     * @returns {(string | undefined)}
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _validateRows(rows: { row: any, oldRow: any }[]): string | undefined {
+        const table = this._query.table as any;
+        const tableInfo = this._store.tableInfo[table];
+        if (!tableInfo._hasValidation || this._query.comments.indexOf("_rebuild_search_index_") !== -1) {
+            return undefined;
+        }
+
+        const strict = !!this._store._nsql.getConfig().strict;
+        let errors: string[] = [];
+        rows.forEach((r) => {
+            const row = { ...(r.oldRow || {}), ...r.row };
+            this._store.models[table].forEach((model) => {
+                if (r.oldRow && r.row[model.key] === undefined) return;
+                const value = row[model.key] === undefined && !r.oldRow ? tableInfo._defaults[model.key] : row[model.key];
+                const error = this._columnError(model, value, row, strict);
+                if (error && errors.indexOf(`${table}.${model.key} ${error}`) === -1) {
+                    errors.push(`${table}.${model.key} ${error}`);
                 }
             });
+        });
+
+        return errors.length ? `nSQL: Validation failed, ${errors.join(", ")}!` : undefined;
+    }
+
+    /**
+     * Check a single column value against it's data model, returns why the value isn't valid (if it isn't).
+     *
+     * @internal
+     * @param {DataModel} model
+     * @param {*} value
+     * @param {*} row
+     * @param {boolean} strict
+     * @returns {(string | undefined)}
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _columnError(model: DataModel, value: any, row: any, strict: boolean): string | undefined {
+        if (value === undefined || value === null) {
+            if (model.required) return "is required";
+            if (value === null && model.notNull) return "can't be null";
+            return undefined;
+        }
+
+        if (strict && !isType(model.type, value)) {
+            return `must be of type ${model.type}`;
+        }
+
+        if (model.enum && model.enum.indexOf(value) === -1) {
+            return `must be one of ${JSON.stringify(model.enum)}`;
         }
+
+        if (typeof value === "number") {
+            if (model.min !== undefined && value < model.min) return `must be at least ${model.min}`;
+            if (model.max !== undefined && value > model.max) return `must be at most ${model.max}`;
+        }
+
+        if (typeof value === "string" || Array.isArray(value)) {
+            if (model.minLength !== undefined && value.length < model.minLength) return `must have a length of at least ${model.minLength}`;
+            if (model.maxLength !== undefined && value.length > model.maxLength) return `must have a length of at most ${model.maxLength}`;
+        }
+
+        if (model.pattern !== undefined && typeof value === "string") {
+            const pattern = typeof model.pattern === "string" ? new RegExp(model.pattern) : model.pattern;
+            pattern.lastIndex = 0;
+            if (!pattern.test(value)) return `must match ${String(pattern)}`;
+        }
+
+        if (model.validate) {
+            const result = model.validate(value, row);
+            if (result === false) return "is invalid";
+            if (typeof result === "string") return result;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Make sure the rows about to be written don't break any unique() constraint, either against each other or existing rows.
+     * Calls complete with an error message if they do.
+     *
+     * @internal
+     * @param {{ pk: any, row: any }[]} rows primary key (undefined for new rows) and the values being written
+     * @param {(error?: string) => void} complete
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _checkUnique(rows: { pk: any, row: any }[], complete: (error?: string) => void) {
+        const table = this._query.table as any;
+        const tableInfo = this._store.tableInfo[table];
+        if (!tableInfo._uniqueColumns.length) {
+            complete();
+            return;
+        }
+
+        let error: string | undefined;
+        const uniqueError = (column: string, value: any) => {
+            error = error || `nSQL: Unique constraint failed, ${table}.${column} "${value}" already exists!`;
+        };
+
+        fastCHAIN(tableInfo._uniqueColumns, (column, i, nextColumn) => {
+            if (error) {
+                nextColumn();
+                return;
+            }
+
+            // the value each row in this query will end up with
+            let batchPKs: { [pk: string]: any } = {};
+            let batchValues: { [value: string]: any } = {};
+            const checkRows = rows.filter((r) => {
+                const value = r.row[column];
+                if (value === undefined || value === null) return false;
+                const key = JSON.stringify(value);
+                if (batchValues[key] !== undefined && (r.pk === undefined || batchValues[key] !== String(r.pk))) {
+                    uniqueError(column, value);
+                }
+                batchValues[key] = String(r.pk);
+                if (r.pk !== undefined) {
+                    batchPKs[String(r.pk)] = value;
+                }
+                return true;
+            });
+
+            fastALL(error ? [] : checkRows, (r, k, rowDone) => {
+                const value = r.row[column];
+                this._store._secondaryIndexRead(table, "=", column, value, (existing) => {
+                    existing.forEach((row) => {
+                        const rowPK = String(row[tableInfo._pk]);
+                        // soft deleted and expired rows don't hold their values
+                        if (isHidden(this._store, table, row)) return;
+                        if (row[column] !== value || (r.pk !== undefined && rowPK === String(r.pk))) return;
+                        // this row is getting a different value in the same query
+                        if (batchPKs[rowPK] !== undefined && batchPKs[rowPK] !== value) return;
+                        uniqueError(column, value);
+                    });
+                    rowDone();
+                });
+            }).then(() => {
+                nextColumn();
+            });
+        }).then(() => {
+            complete(error);
+        });
     }
 
     /**
@@ -797,37 +1678,166 @@ export class _NanoSQLStorageQuery {
             return;
         }
 
-        if (this._query.where) { // has where statement, select rows then delete them
+        const softDelete = this._store.tableInfo[this._query.table as any]._softDelete;
 
+        if (this._query.where || softDelete) { // has where statement, select rows then delete them
+            // soft deletes without a where mark every row
             this._getRows((rows) => {
-
-                rows = rows.filter(r => r);
-                if (rows.length) {
-                    fastALL(rows, (r, i, done) => {
-                        this._clearFromSearchIndex(r[this._store.tableInfo[this._query.table as any]._pk], r, () => {
-                            this._store._delete(this._query.table as any, r[this._store.tableInfo[this._query.table as any]._pk], done);
-                        });
-                    }).then((affectedRows) => {
-                        // any changes to this table invalidate the cache
-                        this._store._cache[this._query.table as any] = {};
-                        const pks = rows.map(r => r[this._store.tableInfo[this._query.table as any]._pk]);
-
-                        this._query.result = [{ msg: rows.length + " row(s) deleted.", affectedRowPKS: pks, affectedRows: rows }];
-                        this._syncORM("del", rows, [], () => {
-                            this._doAfterQuery(rows, true, next);
-                        });
-                    });
+                if (softDelete) {
+                    this._markDeleted(rows.filter(r => !isSoftDeleted(r)), true, next);
                 } else {
-                    this._query.result = [{ msg: "0 row(s) deleted.", affectedRowPKS: [], affectedRows: [] }];
-                    next(this._query);
+                    this._deleteRows(rows, next);
                 }
             });
-
         } else { // no where statement, perform drop
             this._drop(next);
         }
     }
 
+    /**
+     * Initilize a RESTORE query, the soft deleted rows found with the where statement (or all of them) are brought back.
+     * The query fails if a row's unique() values have been taken since it was deleted.
+     *
+     * @internal
+     * @param {(q: IdbQuery) => void} next
+     * @memberof _NanoSQLStorageQuery
+     */
+    public _restore(next: (q: IdbQuery) => void) {
+        if (!this._checkSoftDelete()) {
+            next(this._query);
+            return;
+        }
+        const table = this._query.table as any;
+        const pk = this._store.tableInfo[table]._pk;
+        const restoreRows = (unlock: () => void) => {
+            this._query.withDeleted = true;
+            this._getRows((rows) => {
+                const deleted = rows.filter(isSoftDeleted);
+                this._checkUnique(deleted.map(r => ({ pk: r[pk], row: r })), (error) => {
+                    if (error) {
+                        unlock();
+                        this._query.error = error;
+                        this._query.result = [];
+                        next(this._query);
+                        return;
+                    }
+                    this._markDeleted(deleted, false, (q) => {
+                        unlock();
+                        next(q);
+                    });
+                });
+            });
+        };
+        if (this._store.tableInfo[table]._uniqueColumns.length) {
+            // unique checks can't be mixed with upserts on the same table
+            this._store.queue.add("_unique_" + table, restoreRows);
+        } else {
+            restoreRows(() => { });
+        }
+    }
+
+    /**
+     * Initilize a PURGE query, soft deleted rows are removed for good.
+     * The query's argument is how many seconds ago the rows must have been deleted, all of them are removed without it.
+     *
+     * @internal
+     * @param {(q: IdbQuery) => void} next
+     * @memberof _NanoSQLStorageQuery
+     */
+    public _purge(next: (q: IdbQuery) => void) {
+        if (!this._checkSoftDelete()) {
+            next(this._query);
+            return;
+        }
+        const deletedBefore = Date.now() - (parseFloat(this._query.actionArgs) || 0) * 1000;
+        this._query.withDeleted = true;
+        this._getRows((rows) => {
+            this._deleteRows(rows.filter(r => isSoftDeleted(r) && r._deletedAt <= deletedBefore), next);
+        });
+    }
+
+    /**
+     * Make sure a RESTORE or PURGE query is on a table with the softDelete prop, sets the query error if it isn't.
+     *
+     * @internal
+     * @returns {boolean}
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _checkSoftDelete(): boolean {
+        if (this._isInstanceTable || !this._store.tableInfo[this._query.table as any]._softDelete) {
+            this._query.error = `nSQL: "${this._query.action}" queries need a table with the softDelete prop!`;
+            this._query.result = [];
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Remove rows from the table along with their indexes, search tokens, ORM relations and views.
+     *
+     * @internal
+     * @param {DBRow[]} rows
+     * @param {(q: IdbQuery) => void} next
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _deleteRows(rows: DBRow[], next: (q: IdbQuery) => void) {
+        const table = this._query.table as any;
+        const pk = this._store.tableInfo[table]._pk;
+
+        if (!rows.length) {
+            this._query.result = [{ msg: "0 row(s) deleted.", affectedRowPKS: [], affectedRows: [] }];
+            next(this._query);
+            return;
+        }
+
+        fastALL(rows, (r, i, done) => {
+            this._clearFromSearchIndex(r[pk], r, () => {
+                this._store._delete(table, r[pk], done);
+            });
+        }).then(() => {
+            // any changes to this table invalidate the cache
+            this._store._cache[table] = {};
+            const pks = rows.map(r => r[pk]);
+
+            this._query.result = [{ msg: rows.length + " row(s) deleted.", affectedRowPKS: pks, affectedRows: rows }];
+            this._syncORM("del", rows, [], () => {
+                this._doAfterQuery(rows, true, next);
+            });
+        });
+    }
+
+    /**
+     * Set or clear the _deletedAt column of rows in a softDelete table.
+     * The rows keep their indexes, search tokens and ORM relations so they can be restored.
+     *
+     * @internal
+     * @param {DBRow[]} rows
+     * @param {boolean} deleted
+     * @param {(q: IdbQuery) => void} next
+     * @memberof _NanoSQLStorageQuery
+     */
+    private _markDeleted(rows: DBRow[], deleted: boolean, next: (q: IdbQuery) => void) {
+        const table = this._query.table as any;
+        const pk = this._store.tableInfo[table]._pk;
+        const now = Date.now();
+
+        fastALL(rows, (row, i, done) => {
+            let newRow = { ...row, _deletedAt: now };
+            if (!deleted) {
+                delete newRow._deletedAt;
+            }
+            this._store._write(table, row[pk], row, newRow, done, true);
+        }).then((written: DBRow[]) => {
+            this._store._cache[table] = {};
+            this._query.result = [{ msg: `${written.length} row(s) ${deleted ? "deleted" : "restored"}.`, affectedRowPKS: written.map(r => r[pk]), affectedRows: written }];
+            if (deleted) {
+                next(this._query);
+            } else {
+                this._doAfterQuery(written, false, next);
+            }
+        });
+    }
+
     /**
      * Initilize a DROP query.
      *
@@ -858,6 +1868,18 @@ export class _NanoSQLStorageQuery {
     }
 }
 
+/**
+ * The OVER clause of a window function column.
+ *
+ * @internal
+ * @interface WindowArgs
+ */
+interface WindowArgs {
+    fn: string; // the function call, ie "SUM(salary)"
+    partitionBy: string[]; // columns to split the rows into partitions with
+    orderBy: { [column: string]: "asc" | "desc" }; // order of the rows in each partition
+}
+
 /**
  * Takes a selection of rows and applys modifiers like orderBy, join and others to the rows.
  * Returns the affected rows updated in the way the query specified.
@@ -891,15 +1913,75 @@ export class _MutateSelection {
         [groupKey: string]: any[];
     };
 
+    /**
+     * Rows the next stage of an explained query is expected to scan.
+     *
+     * @internal
+     * @type {number}
+     * @memberof _MutateSelection
+     */
+    private _estimate: number;
+
+    /**
+     * Rows read by the join stage.
+     *
+     * @internal
+     * @type {number}
+     * @memberof _MutateSelection
+     */
+    private _joinScanned: number;
+
+    /**
+     * Results of the scalar subqueries in the select list, by alias.
+     *
+     * @internal
+     * @type {{ [alias: string]: any }}
+     * @memberof _MutateSelection
+     */
+    private _subqueryResults: { [alias: string]: any };
+
     constructor(
         public q: IdbQuery,
-        public s: _NanoSQLStorage
+        public s: _NanoSQLStorage,
+        public _rowsOrdered?: boolean,
+        public _tableRows?: { [table: string]: number }
     ) {
         this._groupByColumns = [];
+        this._joinScanned = 0;
+        this._estimate = this.q.plan && this.q.plan.stages.length ? this.q.plan.stages[0].estimated : 0;
+    }
+
+    /**
+     * Start timing a stage of an explained query, the returned function records the stage once it's done.
+     *
+     * @internal
+     * @param {QueryPlanStage["stage"]} stage
+     * @param {number} scanned rows going into the stage
+     * @returns {(rows: DBRow[], scanned?: number) => DBRow[]}
+     * @memberof _MutateSelection
+     */
+    private _explain(stage: QueryPlanStage["stage"], scanned: number): (rows: DBRow[], scanned?: number) => DBRow[] {
+        const plan = this.q.plan;
+        if (!plan) {
+            return (rows) => rows;
+        }
+        const start = timeNow();
+        const estimated = this._estimate;
+        return (rows, actualScanned) => {
+            plan.stages.push({
+                stage: stage,
+                estimated: estimated,
+                scanned: actualScanned !== undefined ? actualScanned : scanned,
+                rows: rows.length,
+                time: timeNow() - start
+            });
+            return rows;
+        };
     }
 
     /**
      * Peform a join command.
+     * Joins are chained, the rows from each join become the left side of the next one.
      *
      * @internal
      * @param {DBRow[]} rows
@@ -914,64 +1996,54 @@ export class _MutateSelection {
             return;
         }
 
-        let joinData: JoinArgs[] = Array.isArray(this.q.join) ? this.q.join : [this.q.join];
-
-        const leftTablePK = this.q.table + "." + this.s.tableInfo[this.q.table as string]._pk;
-
-        fastCHAIN(joinData, (join: JoinArgs, ji, next) => {
-            let joinConditions = {};
-            if (join.type !== "cross" && join.where) {
-                joinConditions = {
-                    _left: join.where[0],
-                    _check: join.where[1],
-                    _right: join.where[2]
-                };
-            }
-
-            const leftTable = this.q.table as any;
+        const joinData: JoinArgs[] = Array.isArray(this.q.join) ? this.q.join : [this.q.join];
 
-            const rightTable = join.table;
+        const tables = [{ table: this.q.table as string, as: this.q.table as string }].concat(joinData.map(j => parseJoinTable(j.table)));
+        const missing = tables.filter(t => !this.s.tableInfo[t.table]);
+        if (missing.length) {
+            this.q.error = `nSQL: Can't join table "${missing[0].table}", it doesn't exist!`;
+            complete([]);
+            return;
+        }
 
-            this._doJoin(join.type, leftTable as any, rightTable, joinConditions as any, (joinedRows) => {
-                next(joinedRows);
-            });
-        }).then((result: any[][]) => {
-
-            // handle bringing the multiple joins into a single result set.
-            // we're essentially doing a left outer join on the results.
-            let i = 1;
-            while (i < result.length) {
-                result[i].forEach((row) => {
-                    let found = false;
-                    if ([undefined, null].indexOf(row[leftTablePK]) === -1) {
-                        result[0].forEach((row2, j) => {
-                            if (row2[leftTablePK] && row[leftTablePK] === row2[leftTablePK]) {
-                                found = true;
-                                Object.keys(row).forEach((key) => {
-                                    if (result[0][j][key] === undefined) {
-                                        result[0][j][key] = row[key];
-                                    }
-                                });
-                            }
-                        });
-                    }
-                    if (!found) {
-                        result[0].push(row);
-                    }
+        let aliases: string[] = [];
+        let columns: string[] = [];
+
+        fastCHAIN(tables, (table: { table: string, as: string }, ti, next) => {
+            const tableColumns = this.s.tableInfo[table.table]._keys.map(k => table.as + "." + k);
+            const visible = visibleRows(this.s, this.q, table.table);
+            // every row of the table with it's columns keyed as alias.column
+            this.s._read(table.table, (row, idx, keep) => {
+                keep(!visible || visible(row));
+            }, (tableRows) => {
+                const aliasedRows = tableRows.map((row) => {
+                    return this.s.tableInfo[table.table]._keys.reduce((prev, k, i) => {
+                        prev[tableColumns[i]] = row[k];
+                        return prev;
+                    }, {});
                 });
-                i++;
-            }
+                if (ti === 0) {
+                    rows = aliasedRows;
+                } else {
+                    const join = joinData[ti - 1];
+                    rows = this._doJoin(join.type, rows, columns, aliasedRows, tableColumns, join.where, aliases.concat([table.as]));
+                }
+                aliases.push(table.as);
+                columns = columns.concat(tableColumns.filter(c => columns.indexOf(c) === -1));
+                next();
+            });
+        }).then(() => {
 
             if (this.q.where) { // apply where statement to join
-                complete(result[0].filter((row: any, idx) => {
+                complete(rows.filter((row: any, idx) => {
                     return Array.isArray(this.q.where) ? _where(row, this.q.where || [], idx, true) : (this.q.where as any)(row, idx);
                 }));
             } else if (this.q.range) { // apply range statement to join
-                complete(result[0].filter((row: any, idx) => {
+                complete(rows.filter((row: any, idx) => {
                     return this.q.range && this.q.range[0] >= idx && (this.q.range[0] + this.q.range[1]) - 1 <= idx;
                 }));
             } else { // send the whole result
-                complete(result[0]);
+                complete(rows);
             }
         });
 
@@ -1037,10 +2109,22 @@ export class _MutateSelection {
      */
     private _having(rows: DBRow[]): any[] {
         return rows.filter((row: any, idx) => {
-            return Array.isArray(this.q.having) ? _where(row, this.q.having || [], idx, true) : (this.q.having as any)(row, idx);
+            return Array.isArray(this.q.having) ? _where(row, this.q.having || [], idx, this.q.join !== undefined) : (this.q.having as any)(row, idx);
         });
     }
 
+    /**
+     * Perform the DISTINCT mutation, only the first of the rows with the same values is kept.
+     *
+     * @internal
+     * @param {DBRow[]} rows
+     * @returns {any[]}
+     * @memberof _MutateSelection
+     */
+    private _distinct(rows: DBRow[]): any[] {
+        return uniqueRows(rows);
+    }
+
     /**
      * Perform the orderBy mutation.
      *
@@ -1115,7 +2199,7 @@ export class _MutateSelection {
                 const relateData = this.s._columnsAreTables[this.q.table as string][orm.key];
 
                 if (relateData) {
-                    this.s._nsql.query("select").where([this.s.tableInfo[relateData._toTable]._pk, relateData._thisType === "array" ? "IN" : "=", row[orm.key]]).manualExec({ table: relateData._toTable }).then((rows) => {
+                    this.s._nsql.query("select").where([this.s.tableInfo[relateData._toTable]._pk, relateData._thisType === "array" ? "IN" : "=", row[orm.key]]).manualExec({ ...inTransaction(this.q), table: relateData._toTable }).then((rows) => {
                         const q = nSQL().query("select", orm.select);
                         if (orm.where) {
                             q.where(orm.where);
@@ -1156,84 +2240,67 @@ export class _MutateSelection {
      *
      * @internal
      * @param {("left" | "inner" | "right" | "cross" | "outer")} type
-     * @param {string} leftTable
-     * @param {string} rightTable
-     * @param {(null | { _left: string, _check: string, _right: string })} joinConditions
-     * @param {(rows: DBRow[]) => void} complete
+     * @param {DBRow[]} leftRows
+     * @param {string[]} leftColumns
+     * @param {DBRow[]} rightRows
+     * @param {string[]} rightColumns
+     * @param {(any[] | undefined)} joinConditions
+     * @param {string[]} aliases
+     * @returns {DBRow[]}
      * @memberof _MutateSelection
      */
-    private _doJoin(type: "left" | "inner" | "right" | "cross" | "outer", leftTable: string, rightTable: string, joinConditions: null | { _left: string, _check: string, _right: string }, complete: (rows: DBRow[]) => void): void {
+    private _doJoin(type: "left" | "inner" | "right" | "cross" | "outer", leftRows: DBRow[], leftColumns: string[], rightRows: DBRow[], rightColumns: string[], joinConditions: any[] | undefined, aliases: string[]): DBRow[] {
         const L = "left";
         const R = "right";
         const O = "outer";
         const C = "cross";
         let t = this;
 
-        const firstTableData = t.s.tableInfo[type === R ? rightTable : leftTable];
-        const seconTableData = t.s.tableInfo[type === R ? leftTable : rightTable];
-
         const doJoinRows = (leftRow: any, rightRow: any) => {
-            return [firstTableData, seconTableData].reduce((prev, cur, i) => {
-                cur._keys.forEach((k) => {
-                    prev[cur._name + "." + k] = ((i === 0 ? leftRow : rightRow) || {})[k];
+            return (type === R ? [[rightColumns, rightRow], [leftColumns, leftRow]] : [[leftColumns, leftRow], [rightColumns, rightRow]]).reduce((prev, cur) => {
+                cur[0].forEach((k) => {
+                    prev[k] = (cur[1] || {})[k];
                 });
                 return prev;
             }, {});
         };
 
-        let joinTable: any[] = [];
+        const firstRows = type === R ? rightRows : leftRows;
+        const secondRows = type === R ? leftRows : rightRows;
 
-        const rightKey: string = joinConditions && joinConditions._right ? joinConditions._right.split(".").pop() || "" : "";
-        const usedSecondTableRows: any = {};
-        let secondRowCache: any[] = [];
+        let joinTable: any[] = [];
+        const usedSecondRows: boolean[] = [];
 
         // O^2, YAY!
-        t.s._read(firstTableData._name, (firstRow, idx, keep) => {
+        firstRows.forEach((firstRow) => {
             let hasOneRelation = false;
-            t.s._read(seconTableData._name, (secondRow, idx2, keep2) => {
-
-                if (!joinConditions || type === C) { // no conditional to check OR cross join, always add
-                    joinTable.push(doJoinRows(firstRow, secondRow));
+            t._joinScanned++;
+            secondRows.forEach((secondRow, idx2) => {
+                t._joinScanned++;
+                const row = type === R ? doJoinRows(secondRow, firstRow) : doJoinRows(firstRow, secondRow);
+                // no conditional to check OR cross join, always add
+                if (!joinConditions || type === C || _where(row, resolveJoinConditions(joinConditions, row, aliases), 0, true)) {
+                    usedSecondRows[idx2] = true;
+                    joinTable.push(row);
                     hasOneRelation = true;
-                } else { // check conditional statement to possibly join
-                    const willJoinRows = _where({
-                        [firstTableData._name]: firstRow,
-                        [seconTableData._name]: secondRow
-                    }, [joinConditions._left, joinConditions._check, type === R ? firstRow[rightKey] : secondRow[rightKey]], 0, false);
-                    if (willJoinRows) {
-                        if (type === O) usedSecondTableRows[idx2] = true;
-                        joinTable.push(doJoinRows(firstRow, secondRow));
-                        hasOneRelation = true;
-                    } else {
-                        if (type === O) secondRowCache[idx2] = secondRow;
-                    }
-                }
-                keep2(false);
-            }, () => {
-                // left, right or outer join will cause rows without a relation to be added anyway with null relation
-                if (!hasOneRelation && [L, R, O].indexOf(type) > -1) {
-                    joinTable.push(doJoinRows(firstRow, null));
                 }
-
-                keep(false);
             });
+            // left, right or outer join will cause rows without a relation to be added anyway with null relation
+            if (!hasOneRelation && [L, R, O].indexOf(type) > -1) {
+                joinTable.push(type === R ? doJoinRows(null, firstRow) : doJoinRows(firstRow, null));
+            }
+        });
 
-        }, () => {
-
-            // full outer join, add the secondary rows that haven't been added yet
-            if (type === O) {
-                const addRows = secondRowCache.filter((val, i) => !usedSecondTableRows[i]);
-                let i = 0;
-                while (i < addRows.length) {
-                    joinTable.push(doJoinRows(null, addRows[i]));
-                    i++;
+        // full outer join, add the secondary rows that haven't been added yet
+        if (type === O) {
+            secondRows.forEach((secondRow, i) => {
+                if (!usedSecondRows[i]) {
+                    joinTable.push(doJoinRows(null, secondRow));
                 }
-                complete(joinTable);
+            });
+        }
 
-            } else {
-                complete(joinTable);
-            }
-        });
+        return joinTable;
     }
 
     /**
@@ -1260,6 +2327,126 @@ export class _MutateSelection {
         }, 0);
     }
 
+    /**
+     * Call a select list function.
+     * Nested function calls in the arguments run first, their results are added to copies of the rows keyed by the call as it was written.
+     * DISTINCT calls only get the first row of each non null value of the first argument.
+     *
+     * @internal
+     * @param {FunctionCall} call
+     * @param {DBRow[]} rows
+     * @param {(result: any) => void} complete
+     * @param {...any[]} fnArgs extra arguments passed before the call arguments, like the peers of window functions
+     * @memberof _MutateSelection
+     */
+    private _callFunction(call: FunctionCall, rows: DBRow[], complete: (result: any) => void, ...fnArgs: any[]): void {
+        const fn = NanoSQLInstance.functions[call.name];
+        const args = call.args.map(a => typeof a === "string" ? a : a.text);
+        const nested = call.args.filter(a => typeof a !== "string") as FunctionCall[];
+
+        // simple functions with aggregates inside them give the same value for every row
+        const done = fn.type === "S" && isAggregateCall(call) ? (result: any[]) => complete(result[0]) : complete;
+
+        const callFn = (fnRows: DBRow[]) => {
+            if (call.distinct) {
+                let found = {};
+                fnRows = fnRows.filter((row) => {
+                    const value = fnValue(args[0], row, this.q.join !== undefined);
+                    const key = JSON.stringify(value);
+                    if (value === undefined || value === null || found[key]) return false;
+                    found[key] = true;
+                    return true;
+                });
+            }
+            fn.call(fnRows, done, this.q.join !== undefined, ...fnArgs, ...args);
+        };
+
+        if (!nested.length) {
+            callFn(rows);
+            return;
+        }
+
+        fastALL(nested, (nestedCall: FunctionCall, i, nestedDone) => {
+            this._callFunction(nestedCall, rows, nestedDone);
+        }).then((results) => {
+            const nestedRows = rows.map((row, i) => {
+                return nested.reduce((prev, nestedCall, j) => {
+                    prev[nestedCall.text] = isAggregateCall(nestedCall) ? results[j] : results[j][i];
+                    return prev;
+                }, { ...row });
+            });
+            callFn(nestedRows);
+        });
+    }
+
+    /**
+     * Run a window function, rows are split into partitions and ordered before being passed to the function.
+     * Completes with the function results in the same order as the rows.
+     *
+     * @internal
+     * @param {DBRow[]} rows
+     * @param {FunctionCall} call
+     * @param {WindowArgs} window
+     * @param {(results: any[]) => void} complete
+     * @memberof _MutateSelection
+     */
+    private _window(rows: DBRow[], call: FunctionCall, window: WindowArgs, complete: (results: any[]) => void): void {
+        const isJoin = this.q.join !== undefined;
+        const orderColumns = Object.keys(window.orderBy);
+        let results: any[] = [];
+
+        const sortRows = (a: DBRow, b: DBRow): number => {
+            return orderColumns.reduce((prev, cur) => {
+                if (prev) return prev;
+                const A = objQuery(cur, a, isJoin);
+                const B = objQuery(cur, b, isJoin);
+                if (A === B) return 0;
+                return (A > B ? 1 : -1) * (window.orderBy[cur] === "desc" ? -1 : 1);
+            }, 0);
+        };
+
+        // keep the row indexes so the results line up with the rows
+        let partitions: { [key: string]: number[] } = {};
+        rows.forEach((row, i) => {
+            const key = window.partitionBy.map(c => String(objQuery(c, row, isJoin))).join(".");
+            if (!partitions[key]) {
+                partitions[key] = [];
+            }
+            partitions[key].push(i);
+        });
+
+        fastALL(Object.keys(partitions), (key, i, done) => {
+            const rowIdxs = partitions[key].sort((a, b) => sortRows(rows[a], rows[b]) || a - b);
+            const partition = rowIdxs.map(idx => rows[idx]);
+
+            // rows that tie in the window order are in the same peer group
+            let peers: number[] = [];
+            partition.forEach((row, j) => {
+                peers.push(j === 0 ? 0 : peers[j - 1] + (sortRows(partition[j - 1], row) === 0 ? 0 : 1));
+            });
+
+            const setResults = (values: any[]) => {
+                rowIdxs.forEach((idx, j) => {
+                    results[idx] = values[j];
+                });
+                done();
+            };
+
+            if (NanoSQLInstance.functions[call.name].type === "W") {
+                this._callFunction(call, partition, setResults, peers);
+                return;
+            }
+
+            // aggregates get the rows up to the last peer of each row, or the whole partition when there's no order
+            fastALL(partition, (row, j, rowDone) => {
+                const last = orderColumns.length ? peers.lastIndexOf(peers[j]) : partition.length - 1;
+                this._callFunction(call, partition.slice(0, last + 1), rowDone);
+            }).then(setResults);
+        }).then(() => {
+            complete(results);
+        });
+    }
+
     /**
      * Apply AS, functions and Group By
      *
@@ -1270,7 +2457,30 @@ export class _MutateSelection {
      */
     private _mutateRows(rows: DBRow[], complete: (rows: DBRow[]) => void): void {
 
-        const columnSelection: string[] = this.q.actionArgs;
+        const columnSelection: any[] = this.q.actionArgs;
+
+        // run scalar subquery columns first, they give the same value for every row
+        const subqueryColumns: { query: IdbQueryExec, as: string }[] = (columnSelection || []).filter(c => typeof c !== "string");
+        if (subqueryColumns.length && !this._subqueryResults) {
+            this._subqueryResults = {};
+            fastALL(subqueryColumns, (column, i, done) => {
+                if (!column.as || !isSubquery(column.query)) {
+                    this.q.error = "nSQL: Subquery columns need a query and an alias!";
+                    done();
+                    return;
+                }
+                runSubquery(this.s._nsql, this.q, column.query, (subRows) => {
+                    this._subqueryResults[column.as] = firstColumn(subRows[0]);
+                    done();
+                }, (err) => {
+                    this.q.error = err;
+                    done();
+                });
+            }).then(() => {
+                this._mutateRows(rows, complete);
+            });
+            return;
+        }
 
         const functionResults: {
             [column: string]: any;
@@ -1286,53 +2496,101 @@ export class _MutateSelection {
             // possibly has functions, AS statements
             let hasAggregateFun = false;
 
+            let hasWindowFun = false;
+            let fnError: string | undefined;
+
             let columnData: {
                 [columnName: string]: {
                     fn: NanoSQLFunction,
                     key: string;
+                    call: FunctionCall;
+                    aggregate: boolean;
+                    window?: WindowArgs;
                 }
             } = {};
 
             columnSelection.forEach((column) => {
-                if (column.indexOf("(") === -1) { // no functions
+                if (typeof column !== "string" || column.indexOf("(") === -1) { // no functions
                     return;
                 }
-                const fnName: string = (column.match(/^.*\(/g) || [""])[0].replace(/\(|\)/g, "").toUpperCase();
-                const fn = NanoSQLInstance.functions[fnName];
-                const key = column.split(" AS ").length === 1 ? fnName : (column.split(" AS ").pop() || "").trim();
-                if (!fn) {
-                    throw new Error("nSQL: '" + fnName + "' is not a valid function!");
+                const [expression, alias] = splitAlias(column);
+                const window = parseWindow(expression);
+                const call = parseFunction(window ? window.fn : expression);
+                if (!call) {
+                    throw new Error("nSQL: '" + expression + "' is not a valid function call!");
                 }
-                if (fn.type === "A") { // agregate function
+                const fnName = call.name;
+                const fn = NanoSQLInstance.functions[fnName];
+                const key = alias || fnName;
+
+                // every function in the call must exist, only the outer function can be a window function
+                const checkCall = (fnCall: FunctionCall, nested: boolean) => {
+                    if (!NanoSQLInstance.functions[fnCall.name]) {
+                        throw new Error("nSQL: '" + fnCall.name + "' is not a valid function!");
+                    }
+                    if (NanoSQLInstance.functions[fnCall.name].type === "W" && (nested || !window)) {
+                        fnError = "nSQL: '" + fnCall.name + "' needs an OVER clause!";
+                    }
+                    if (fnCall.distinct && NanoSQLInstance.functions[fnCall.name].type !== "A") {
+                        fnError = "nSQL: DISTINCT can only be used with aggregate functions!";
+                    }
+                    fnCall.args.forEach(a => typeof a !== "string" && checkCall(a, true));
+                };
+                checkCall(call, false);
+
+                const aggregate = isAggregateCall(call);
+                if (window) {
+                    hasWindowFun = true;
+                    if (fn.type === "S") {
+                        fnError = "nSQL: '" + fnName + "' can't be used with OVER!";
+                    }
+                } else if (aggregate) { // agregate function
                     hasAggregateFun = true;
                 }
                 columnData[column] = {
                     fn: fn,
-                    key: key
+                    key: key,
+                    call: call,
+                    aggregate: aggregate,
+                    window: window
                 };
             });
 
-            fastALL(columnSelection, (column, j, columnDone) => {
+            if (!fnError && hasWindowFun && hasAggregateFun) {
+                fnError = "nSQL: Window functions can't be used with aggregate functions!";
+            }
 
-                if (column.indexOf("(") > -1) { // function exists
+            if (fnError) {
+                this.q.error = fnError;
+                complete([]);
+                return;
+            }
+
+            fastALL(columnSelection, (column, j, columnDone) => {
 
-                    const fnArgs: string[] = (column.match(/\(.*\)/g) || [""])[0].replace(/\(|\)/g, "").split(",").map(v => v.trim());
+                if (typeof column === "string" && column.indexOf("(") > -1) { // function exists
 
-                    if (this._sortGroups && hasAggregateFun) { // group by exists with aggregate function
+                    const window = columnData[column].window;
+                    if (window) { // window function, one result for each row
+                        this._window(rows, columnData[column].call, window, (results) => {
+                            functionResults[columnData[column].key] = results;
+                            columnDone();
+                        });
+                    } else if (this._sortGroups && hasAggregateFun) { // group by exists with aggregate function
                         fastALL(Object.keys(this._sortGroups), (k, l, fnDone) => {
                             if (!fnGroupByResults[k]) {
                                 fnGroupByResults[k] = {};
                             }
-                            columnData[column].fn.call(rows.filter((r, i) => this._sortGroups[k].indexOf(i) > -1), (result) => {
+                            this._callFunction(columnData[column].call, rows.filter((r, i) => this._sortGroups[k].indexOf(i) > -1), (result) => {
                                 fnGroupByResults[k][columnData[column].key] = result;
                                 fnDone();
-                            }, this.q.join !== undefined, ...fnArgs);
+                            });
                         }).then(columnDone);
                     } else { // no group by
-                        columnData[column].fn.call(rows, (result) => {
+                        this._callFunction(columnData[column].call, rows, (result) => {
                             functionResults[columnData[column].key] = result;
                             columnDone();
-                        }, this.q.join !== undefined, ...fnArgs);
+                        });
                     }
 
                 } else {
@@ -1346,12 +2604,16 @@ export class _MutateSelection {
                     let newRow = {};
                     // remove unselected columns, apply AS and integrate function results
                     columnSelection.forEach((column) => {
+                        if (typeof column !== "string") { // subquery
+                            newRow[column.as] = this._subqueryResults[column.as];
+                            return;
+                        }
                         const hasFunc = column.indexOf("(") > -1;
-                        const type = hasFunc ? columnData[column].fn.type : "";
-                        if (column.indexOf(" AS ") > -1) { // alias column data
-                            const alias: string[] = column.split(" AS ");
-                            const key = hasFunc ? columnData[column].key : alias[0].trim();
-                            newRow[alias[1]] = hasFunc ? (type === "A" ? fnResults[key] : fnResults[key][idx]) : objQuery(key, row, this.q.join !== undefined);
+                        const type = hasFunc ? (columnData[column].aggregate && !columnData[column].window ? "A" : "S") : "";
+                        const [expression, alias] = splitAlias(column);
+                        if (alias !== undefined) { // alias column data
+                            const key = hasFunc ? columnData[column].key : expression;
+                            newRow[alias] = hasFunc ? (type === "A" ? fnResults[key] : fnResults[key][idx]) : objQuery(key, row, this.q.join !== undefined);
                         } else {
                             const key = hasFunc ? columnData[column].key : column;
                             newRow[column] = hasFunc ? (type === "A" ? fnResults[key] : fnResults[key][idx]) : objQuery(key, row, this.q.join !== undefined);
@@ -1367,6 +2629,9 @@ export class _MutateSelection {
                             oneRow[0][fnName] = functionResults[columnData[fnName].key];
                         }
                     });
+                    subqueryColumns.forEach((column) => {
+                        oneRow[0][column.as] = this._subqueryResults[column.as];
+                    });
                     complete(oneRow);
                     return;
                 }
@@ -1403,24 +2668,30 @@ export class _MutateSelection {
 
         const afterMutate = () => {
             if (this.q.having) {
-                inputRows = this._having(inputRows);
+                inputRows = this._explain("having", inputRows.length)(this._having(inputRows));
+            }
+            if (this.q.distinct) {
+                inputRows = this._explain("distinct", inputRows.length)(this._distinct(inputRows));
             }
-            if (this.q.orderBy) {
-                inputRows = this._orderBy(inputRows);
+            if (this.q.orderBy && !this._rowsOrdered) {
+                inputRows = this._explain("orderBy", inputRows.length)(this._orderBy(inputRows));
             }
             if (this.q.offset) {
-                inputRows = this._offset(inputRows);
+                inputRows = this._explain("offset", inputRows.length)(this._offset(inputRows));
+                this._estimate = Math.max(this._estimate - this.q.offset, 0);
             }
             if (this.q.limit) {
-                inputRows = this._limit(inputRows);
+                inputRows = this._explain("limit", inputRows.length)(this._limit(inputRows));
+                this._estimate = Math.min(this._estimate, this.q.limit);
             }
             callback(inputRows);
         };
 
         const afterORM = () => {
             if (this.q.actionArgs && this.q.actionArgs.length) {
+                const explain = this._explain("functions", inputRows.length);
                 this._mutateRows(inputRows, (newRows) => {
-                    inputRows = newRows;
+                    inputRows = explain(newRows);
                     afterMutate();
                 });
             } else {
@@ -1431,11 +2702,12 @@ export class _MutateSelection {
 
         const afterJoin = () => {
             if (this.q.groupBy) {
-                inputRows = this._groupBy(inputRows);
+                inputRows = this._explain("groupBy", inputRows.length)(this._groupBy(inputRows));
             }
             if (this.q.orm) {
+                const explain = this._explain("orm", inputRows.length);
                 this._orm(inputRows, (newRows) => {
-                    inputRows = newRows;
+                    inputRows = explain(newRows);
                     afterORM();
                 });
             } else {
@@ -1444,8 +2716,17 @@ export class _MutateSelection {
         };
 
         if (this.q.join) {
+            const tableRows = this._tableRows || {};
+            const joins: JoinArgs[] = Array.isArray(this.q.join) ? this.q.join : [this.q.join];
+            // every join compares each row of the left table against every row of the right table
+            this._estimate = joins.reduce((prev, join) => {
+                return prev + (tableRows[this.q.table as string] || 0) * ((tableRows[parseJoinTable(join.table).table] || 0) + 1);
+            }, 0);
+            const explain = this._explain("join", 0);
             this._join(inputRows, (rows) => {
-                inputRows = rows;
+                inputRows = explain(rows, this._joinScanned);
+                // assume each left row finds about one match
+                this._estimate = tableRows[this.q.table as string] || 0;
                 afterJoin();
             });
         } else {
@@ -1455,6 +2736,21 @@ export class _MutateSelection {
 }
 
 
+/**
+ * How to read rows from a compound index.
+ *
+ * @internal
+ * @interface CompoundIndexPlan
+ */
+interface CompoundIndexPlan {
+    index: string; // compound index name
+    equal: any[]; // values to match against the first columns of the index
+    range: { lower?: [any, boolean], upper?: [any, boolean] } | undefined; // bounds to check against the next column, [value, inclusive]
+    where: any[]; // leftover where conditions
+    ordered: boolean; // rows come back in order by order
+    reverse: boolean; // rows must be reversed to match the order by
+}
+
 /**
  * Selects the needed rows from the storage system.
  * Uses the fastes possible method to get the rows.
@@ -1465,6 +2761,14 @@ export class _MutateSelection {
 // tslint:disable-next-line
 export class _RowSelection {
 
+    /**
+     * The secondary index couldn't give the distinct values, read the rows instead.
+     *
+     * @internal
+     * @type {boolean}
+     * @memberof _RowSelection
+     */
+    private _distinctScan: boolean;
 
     constructor(
         public qu: _NanoSQLStorageQuery,
@@ -1481,21 +2785,99 @@ export class _RowSelection {
             throw new Error("nSQL: Can only have ONE of Trie, Range or Where!");
         }
 
+        // soft deleted and expired rows are left out
+        const visible = visibleRows(this.s, this.q, this.q.table as string);
+        if (visible) {
+            const selected = callback;
+            callback = (rows) => {
+                selected(rows.filter(r => !r || visible(r)));
+            };
+        }
+
+        // subqueries run first, their results replace them in the where statement
+        if (Array.isArray(this.q.where) && hasSubquery(this.q.where)) {
+            resolveSubqueries(this.s._nsql, this.q, this.q.where, (where) => {
+                this.q.where = where as any;
+                this._selectRows(callback);
+            }, (err) => {
+                this.q.error = err;
+                callback([]);
+            });
+            return;
+        }
+
+        this._selectRows(callback);
+    }
+
+    /**
+     * Picks the fastest way to get the rows for this query.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} callback
+     * @memberof _RowSelection
+     */
+    private _selectRows(callback: (rows: DBRow[]) => void) {
+
         // join command requires n^2 scan that gets taken care of in join logic.
         if (this.q.join) {
+            this._explain("join", [], 0);
             callback([]);
             return;
         }
 
+        // distinct values of a secondary index, the index table already has them.
+        const distinctColumn = this._distinctIndexColumn();
+        if (distinctColumn && !this._distinctScan) {
+            this.s._distinctIndexValues(this.q.table as any, distinctColumn, (values) => {
+                if (!values) { // index can't give the exact values
+                    this._distinctScan = true;
+                    this._selectRows(callback);
+                    return;
+                }
+                this._explain("distinct index", [distinctColumn], values.length);
+                this._scanned(callback)(values.map(v => ({ [distinctColumn]: v })));
+            });
+            return;
+        }
+
         // trie search, nice and fast.
         if (this.q.trie && this.q.trie.column && this.q.trie.search) {
-            this._selectByTrie(callback);
+            this._explain("trie", [this.q.trie.column], this._tableRows() / 10);
+            this._selectByTrie(this._scanned(callback));
             return;
         }
 
         // range select, very fast
         if (this.q.range && this.q.range.length) {
-            this._selectByRange(callback);
+            this._explain("range", [this.s.tableInfo[this.q.table as any]._pk], Math.abs(this.q.range[0]));
+            this._selectByRange(this._scanned(callback));
+            return;
+        }
+
+        // where statement possibly contains only primary key and secondary key queries, do faster query if possible.
+        // if compound where statement includes primary key/secondary index queries followed by AND with other conditions,
+        // grabs the section of data related to the optimized read, then full table scans the result.
+        let doFastRead = false;
+        let whereSlice = 0;
+        if (this.q.where && this.q.where.length && Array.isArray(this.q.where)) {
+            if (typeof this.q.where[0] === "string") { // Single WHERE
+                doFastRead = this._isOptimizedWhere(this.q.where) === 0;
+            } else { // combined where statements
+                doFastRead = (this.q.where || []).reduce((prev, cur, i) => {
+                    if (i % 2 === 1) return prev;
+                    return prev + this._isOptimizedWhere(cur);
+                }, 0) === 0;
+            }
+            whereSlice = doFastRead ? 0 : this._isSubOptimizedWhere(this.q.where);
+        }
+
+        // compound index covers several where conditions and/or the order by, primary key reads are still faster
+        const pkRead = (doFastRead || whereSlice > 0) && this._wherePK(doFastRead ? this.q.where as any : (this.q.where as any).slice(0, whereSlice));
+        const compoundRead = pkRead ? undefined : this._compoundIndexPlan();
+        if (compoundRead) {
+            const indexRows = compoundRead.range ? this._tableRows() / 3 : compoundRead.equal.length ? this._tableRows() / 10 : this._tableRows();
+            this._explain("compound index", [compoundRead.index], indexRows, compoundRead.where.length > 0);
+            this._selectByCompoundIndex(compoundRead, callback);
             return;
         }
 
@@ -1503,32 +2885,21 @@ export class _RowSelection {
         // OR
         // where statement is function, still gotta read the whole db.
         if ((!this.q.where || !this.q.where.length) || !Array.isArray(this.q.where)) {
+            this._explain("full scan", [], this._tableRows(), this.q.where !== undefined);
             this._fullTableScan(callback);
             return;
         }
 
-        // where statement possibly contains only primary key and secondary key queries, do faster query if possible.
-        let doFastRead = false;
-        if (typeof this.q.where[0] === "string") { // Single WHERE
-            doFastRead = this._isOptimizedWhere(this.q.where) === 0;
-        } else { // combined where statements
-            doFastRead = (this.q.where || []).reduce((prev, cur, i) => {
-                if (i % 2 === 1) return prev;
-                return prev + this._isOptimizedWhere(cur);
-            }, 0) === 0;
-        }
-
         if (doFastRead) { // can go straight to primary or secondary keys, wee!
+            this._explainWhere(this.q.where, false);
             this._selectByKeysOrSeach(this.q.where, callback);
             return;
         }
 
-        // if compound where statement includes primary key/secondary index queries followed by AND with other conditions.
-        // grabs the section of data related to the optimized read, then full table scans the result.
-        const whereSlice = this._isSubOptimizedWhere(this.q.where);
         if (whereSlice > 0) {
             const fastWhere: any[] = this.q.where.slice(0, whereSlice);
             const slowWhere: any[] = this.q.where.slice(whereSlice + 1);
+            this._explainWhere(fastWhere, true);
             this._selectByKeysOrSeach(fastWhere, (rows) => {
                 callback(rows.filter((r, i) => _where(r, slowWhere, i, false)));
             });
@@ -1536,9 +2907,169 @@ export class _RowSelection {
         }
 
         // Full table scan :(
+        this._explain("full scan", [], this._tableRows(), true);
         this._fullTableScan(callback);
     }
 
+    /**
+     * Find the column a DISTINCT query can read straight from it's secondary index.
+     * Works when every selected column is either the column itself with .distinct() or an aggregate like COUNT(DISTINCT column),
+     * and nothing else needs the rest of the row.
+     *
+     * @internal
+     * @returns {(string | undefined)}
+     * @memberof _RowSelection
+     */
+    private _distinctIndexColumn(): string | undefined {
+        const q = this.q;
+        if (q.action !== "select" || typeof q.table !== "string" || q.where || q.range || q.trie || q.orm || q.groupBy || q.having || visibleRows(this.s, q, q.table)) return undefined;
+        const args: any[] = q.actionArgs || [];
+        if (!args.length || args.filter(a => typeof a !== "string").length) return undefined;
+
+        let columns: string[] = [];
+        let plain = 0;
+        const canUseIndex = args.reduce((prev, arg: string) => {
+            if (!prev) return false;
+            const expression = splitAlias(arg)[0];
+            const call = parseFunction(expression);
+            if (!call) {
+                plain++;
+                columns.push(expression);
+                return q.distinct === true;
+            }
+            const fn = NanoSQLInstance.functions[call.name];
+            if (!call.distinct || !fn || fn.type !== "A" || parseWindow(expression) || call.args.length !== 1 || typeof call.args[0] !== "string") return false;
+            columns.push(call.args[0] as string);
+            return true;
+        }, true);
+
+        // aggregates give one row, plain columns would come from whatever row is first
+        if (!canUseIndex || (plain && plain !== args.length)) return undefined;
+        if (columns.filter(c => c !== columns[0]).length) return undefined;
+        return this.s.tableInfo[q.table]._secondaryIndexes.indexOf(columns[0]) !== -1 ? columns[0] : undefined;
+    }
+
+    /**
+     * Number of rows in the table, only known for explained queries.
+     *
+     * @internal
+     * @returns {number}
+     * @memberof _RowSelection
+     */
+    private _tableRows(): number {
+        return this.qu._tableRows ? this.qu._tableRows[this.q.table as any] || 0 : 0;
+    }
+
+    /**
+     * Record how rows are being selected for an explained query.
+     *
+     * @internal
+     * @param {QueryPlan["access"]} access
+     * @param {string[]} indexes
+     * @param {number} estimated rows the planner expects to scan
+     * @param {boolean} [filtered] rows are checked against leftover where conditions
+     * @memberof _RowSelection
+     */
+    private _explain(access: QueryPlan["access"], indexes: string[], estimated: number, filtered?: boolean) {
+        if (!this.q.plan) return;
+        this.q.plan.access = access;
+        this.q.plan.indexes = indexes;
+        this.q.plan.filtered = filtered || false;
+        this.qu._planWhere.estimated = Math.min(Math.ceil(estimated), this._tableRows());
+    }
+
+    /**
+     * Wraps a row callback to record how many rows were read for an explained query.
+     *
+     * @internal
+     * @param {(rows: DBRow[]) => void} callback
+     * @returns {(rows: DBRow[]) => void}
+     * @memberof _RowSelection
+     */
+    private _scanned(callback: (rows: DBRow[]) => void): (rows: DBRow[]) => void {
+        if (!this.q.plan) return callback;
+        return (rows) => {
+            this.qu._planWhere.scanned = rows.length;
+            callback(rows);
+        };
+    }
+
+    /**
+     * Record the access path of a where statement using primary keys, secondary indexes or search indexes.
+     *
+     * @internal
+     * @param {any[]} where
+     * @param {boolean} filtered
+     * @memberof _RowSelection
+     */
+    private _explainWhere(where: any[], filtered: boolean) {
+        if (!this.q.plan) return;
+        const tableData = this.s.tableInfo[this.q.table as any];
+        const conditions: any[][] = typeof where[0] === "string" ? [where] : where.filter((w, i) => i % 2 === 0);
+        let accessTypes: QueryPlan["access"][] = [];
+        let indexes: string[] = [];
+        conditions.forEach((w) => {
+            let access: QueryPlan["access"];
+            let columns: string[];
+            if (w[0].indexOf("search(") === 0) {
+                access = "search";
+                columns = w[0].replace(/search\((.*)\)/gmi, "$1").split(",").map(c => c.trim());
+            } else if (parseGeoWhere(w)) {
+                columns = (parseGeoWhere(w) as GeoWhere).columns;
+                access = this._geoIndex(columns) ? "geo" : "crow";
+            } else {
+                access = w[0] === tableData._pk ? "pk" : "index";
+                columns = [w[0]];
+            }
+            if (accessTypes.indexOf(access) === -1) accessTypes.push(access);
+            columns.forEach((c) => {
+                if (indexes.indexOf(c) === -1) indexes.push(c);
+            });
+        });
+
+        // estimate the rows for each condition, AND takes the smallest estimate and OR adds them together
+        const estimated = conditions.reduce((prev, w, i) => {
+            const rows = this._estimateRows(w);
+            if (i === 0) return rows;
+            return where[(i * 2) - 1] === "AND" ? Math.min(prev, rows) : prev + rows;
+        }, 0);
+
+        this._explain(accessTypes.length > 1 ? "index merge" : accessTypes[0], indexes, estimated, filtered);
+    }
+
+    /**
+     * Guess how many rows a single where condition reads from the primary key or a secondary index.
+     * Equality checks use the number of unique values in the index when it's cached, ranges are assumed to read a third of the table.
+     *
+     * @internal
+     * @param {any[]} where
+     * @returns {number}
+     * @memberof _RowSelection
+     */
+    private _estimateRows(where: any[]): number {
+        const tableData = this.s.tableInfo[this.q.table as any];
+        const total = this._tableRows();
+        const isPK = where[0] === tableData._pk;
+        if (!isPK && tableData._secondaryIndexes.indexOf(where[0]) === -1) {
+            return total;
+        }
+        const idxTable = "_" + this.q.table + "_idx_" + where[0];
+        const uniqueValues = isPK ? total : this.s._doCache ? this.s._secondaryIndexes[idxTable].idx.length : 10;
+        switch (where[1]) {
+            case "=":
+            case "IN":
+                const values = where[1] === "IN" && Array.isArray(where[2]) ? where[2].length : 1;
+                return values * Math.ceil(total / Math.max(uniqueValues, 1));
+            case ">":
+            case ">=":
+            case "<":
+            case "<=":
+            case "BETWEEN":
+                return total / 3;
+        }
+        return total;
+    }
+
     /**
      * Does super fast primary key or secondary index select.
      * Handles compound WHERE statements, combining their results.
@@ -1550,7 +3081,7 @@ export class _RowSelection {
      */
     private _selectByKeysOrSeach(where: any[], callback: (rows: DBRow[]) => void) {
         if (where && typeof where[0] === "string") { // single where
-            this._selectRowsByIndexOrSearch(where as any, callback);
+            this._selectRowsByIndexOrSearch(where as any, this._scanned(callback));
         } else if (where) { // compound where
             let resultRows: DBRow[] = [];
             let lastCommand = "";
@@ -1562,6 +3093,9 @@ export class _RowSelection {
                     return;
                 }
                 this._selectRowsByIndexOrSearch(wArg, (rows) => {
+                    if (this.q.plan) {
+                        this.qu._planWhere.scanned += rows.length;
+                    }
                     if (lastCommand === "AND") {
                         let idx = {};
                         let i = rows.length;
@@ -1586,6 +3120,129 @@ export class _RowSelection {
         }
     }
 
+    /**
+     * Get the geo index built on a latitude and longitude column, if there is one.
+     *
+     * @internal
+     * @param {string[]} columns [latitude, longitude]
+     * @returns {(string | undefined)}
+     * @memberof _RowSelection
+     */
+    private _geoIndex(columns: string[]): string | undefined {
+        const index = "geo(" + columns.join(",") + ")";
+        return this.s.tableInfo[this.q.table as any]._geoIndexes[index] ? index : undefined;
+    }
+
+    /**
+     * The matched words and a snippet for each column a search() found the row in, used by .highlight().
+     *
+     * @internal
+     * @param {DBRow} row
+     * @param {{ [col: string]: { word: string, loc: number[] }[] }} locations token locations of the matched words in each column
+     * @returns {{ [col: string]: { matches: { word: string, start: number, end: number }[], snippet: string } }}
+     * @memberof _RowSelection
+     */
+    private _highlights(row: DBRow, locations: { [col: string]: { word: string, loc: number[] }[] }): { [col: string]: { matches: { word: string, start: number, end: number }[], snippet: string } } {
+        let highlights = {};
+        Object.keys(locations).forEach((col) => {
+            const value = String(row[col] === undefined || row[col] === null ? "" : row[col]);
+            const tokens = this.qu._tokenizer(col, value);
+            let offsets: { [loc: number]: [number, number] | undefined } = {};
+            tokenOffsets(value, tokens).forEach((offset, k) => {
+                offsets[tokens[k].i] = offset;
+            });
+            let used: { [loc: number]: boolean } = {};
+            const matches = locations[col].reduce((prev, cur) => prev.concat(cur.loc), [] as number[]).filter((loc) => {
+                if (used[loc] || !offsets[loc]) return false;
+                used[loc] = true;
+                return true;
+            }).map((loc) => {
+                const [start, end] = offsets[loc] as [number, number];
+                return { word: value.slice(start, end), start: start, end: end };
+            }).sort((a, b) => a.start - b.start);
+            highlights[col] = {
+                matches: matches,
+                snippet: searchSnippet(value, matches, this.q.highlight as any)
+            };
+        });
+        return highlights;
+    }
+
+    /**
+     * Select the rows of a crow() distance or within() bounding box condition.
+     * Geo indexes only read the rows in the geohash cells around the search area,
+     * otherwise crow() reads the rows inside the latitude and longitude ranges from their secondary indexes.
+     * Rows found with crow() get their distance from the search point as "_distance".
+     *
+     * @internal
+     * @param {GeoWhere} geo
+     * @param {any[]} where
+     * @param {(rows: DBRow[]) => void} callback
+     * @memberof _RowSelection
+     */
+    private _geoRows(geo: GeoWhere, where: any[], callback: (rows: DBRow[]) => void) {
+        const table = this.q.table as string;
+        const pk = this.s.tableInfo[table]._pk;
+        const [latColumn, lonColumn] = geo.columns;
+        const distance = parseFloat(where[2] || "0");
+        const box = geo.fn === "crow" ? geoBounds(geo.args[0], geo.args[1], distance, NanoSQLInstance.earthRadius) : geo.args.slice(0, 4);
+
+        // check the exact distance or box of each row found
+        const matchRows = (rows: DBRow[]): DBRow[] => {
+            if (geo.fn === "within") {
+                return rows.filter(r => NanoSQLInstance.whereFunctions.within.apply(null, [r, false].concat(geo.args.slice(0, 4), geo.columns)));
+            }
+            let result: DBRow[] = [];
+            rows.forEach((r) => {
+                if (typeof r[latColumn] !== "number" || typeof r[lonColumn] !== "number") return;
+                const rowDistance = crowDistance(r[latColumn], r[lonColumn], geo.args[0], geo.args[1], NanoSQLInstance.earthRadius);
+                if (where[1] === "<=" ? rowDistance <= distance : rowDistance < distance) {
+                    result.push({ ...r, _distance: rowDistance });
+                }
+            });
+            return result;
+        };
+
+        const geoIndex = this._geoIndex(geo.columns);
+        if (geoIndex) {
+            this.s._geoRead(table, geoIndex, box, (rows) => {
+                callback(matchRows(rows));
+            });
+            return;
+        }
+
+        // rows inside both the latitude and longitude range are inside the bounding box
+        const lonRange = box[1] > box[3] ? [-180, 180] : [box[1], box[3]];
+        fastALL([[latColumn, box[0], box[2]], [lonColumn, lonRange[0], lonRange[1]]], (range: any[], i, next) => {
+            const idxTable = "_" + table + "_idx_" + range[0];
+            if (this.s._doCache) {
+                next(this.s._secondaryIndexes[idxTable].idx.filter(idx => range[1] <= idx && range[2] >= idx).map(idx => this.s._secondaryIndexes[idxTable].rows[idx]));
+            } else {
+                this.s._rangeRead(idxTable, range[1], range[2], true, next);
+            }
+        }).then((result: { id: number, rows: any[] }[][]) => {
+            let inLat = {};
+            result[0].forEach((r) => {
+                r.rows.forEach((rowPK) => {
+                    inLat[rowPK] = true;
+                });
+            });
+            let keys: any[] = [];
+            result[1].forEach((r) => {
+                r.rows.forEach((rowPK) => {
+                    if (inLat[rowPK]) keys.push(rowPK);
+                });
+            });
+            if (!keys.length) {
+                callback([]);
+                return;
+            }
+            this.s._read(table, keys as any, (rows) => {
+                callback(matchRows(rows.filter(r => r && r[pk] !== undefined)));
+            });
+        });
+    }
+
     /**
      * Much faster SELECT by primary key or secondary index.
      * Accepts a single WHERE statement, no compound statements allowed.
@@ -1609,6 +3266,17 @@ export class _RowSelection {
             }
 
             const columns: string[] = where[0].replace(/search\((.*)\)/gmi, "$1").split(",").map(c => c.trim());
+
+            // +required, -excluded, "phrase" and prefix* operators, "=" searches match the value exactly instead
+            const syntax = whereType === 0 ? undefined : parseSearchQuery(where[2]);
+
+            // positions of the required and excluded words in each row, by column
+            let wordPositions: {
+                [col: string]: {
+                    [rowPK: string]: { [token: string]: number[] }
+                }
+            } = {};
+
             let weights: {
                 [rowPK: string]: {
                     weight: number,
@@ -1625,9 +3293,20 @@ export class _RowSelection {
                 [search: string]: string;
             } = {};
 
+            // the term frequencies of each matching row, used to get their BM25 score
+            let scoreTerms: {
+                [rowPK: string]: {
+                    column: string,
+                    boost: number,
+                    terms: { tf: number, length: number, docs: number }[]
+                }[]
+            } = {};
+
             fastALL(columns, (col, i, nextCol) => {
                 // tokenize search terms
-                const searchTerms = this.qu._tokenizer(col, where[2]);
+                const searchTerms = syntax ? this.qu._tokenizer(col, syntax.text).filter(t => t.o) : this.qu._tokenizer(col, where[2]);
+                const excludedTokens = syntax ? [].concat.apply([], syntax.excluded.map(e => this.qu._tokenizer(col, e))).filter(t => t.w) : [];
+                wordPositions[col] = {};
                 const args = this.s.tableInfo[this.q.table as any]._searchColumns[col];
                 let reducedResults: {
                     [rowPK: string]: {
@@ -1635,6 +3314,8 @@ export class _RowSelection {
                     }
                 } = {};
                 let reducedFirstLocations: any[] = [];
+                // number of rows each matched word is found in
+                let docFreq: { [word: string]: number } = {};
 
                 let tokenToTerm: { [token: string]: string } = {};
                 let termToToken: { [term: string]: string } = {};
@@ -1664,9 +3345,23 @@ export class _RowSelection {
                                         reducedFirstLocations.push(r.i[0]);
                                         reducedResults[r.id][term.w] = r;
                                     });
+                                    docFreq[term.w] = row.rows.length;
                                     nextTerm();
                                 });
-                            }).then(nextTable);
+                            }).then(() => {
+                                // where the searched and excluded words are in each row
+                                fastALL(syntax ? searchTerms.concat(excludedTokens) : [], (term: { w: string }, j, nextTerm) => {
+                                    this.s.adapterRead(indexTable, term.w as any, (row: SearchRowIndex) => {
+                                        (row ? row.rows : []).forEach((r) => {
+                                            if (!wordPositions[col][r.id]) {
+                                                wordPositions[col][r.id] = {};
+                                            }
+                                            wordPositions[col][r.id][term.w] = r.i;
+                                        });
+                                        nextTerm();
+                                    });
+                                }).then(nextTable);
+                            });
                             break;
                         case 1:
                             if (whereType === 0) {
@@ -1686,6 +3381,11 @@ export class _RowSelection {
                                             wordsToGet.push(word);
                                         }
                                     });
+                                    (syntax ? syntax.prefixes : []).forEach((prefix) => {
+                                        if (String(word).indexOf(prefix) === 0) {
+                                            wordsToGet.push(word);
+                                        }
+                                    });
                                 });
 
                                 // remove duplicates
@@ -1698,6 +3398,11 @@ export class _RowSelection {
                                             return;
                                         }
 
+                                        const fuzzyKey = termToToken[term] || term;
+                                        if (!docFreq[fuzzyKey]) {
+                                            docFreq[fuzzyKey] = row.rows.length;
+                                        }
+
                                         row.rows.forEach(r => {
                                             // if the non fuzzy search already got this row then ignore it
                                             let exists = false;
@@ -1752,6 +3457,19 @@ export class _RowSelection {
                         weights[rowPK].weight += (totalLocations / docLength) + parseInt(args[0]);
                         weights[rowPK].locations[col] = wordLocs;
 
+                        if (!scoreTerms[rowPK]) {
+                            scoreTerms[rowPK] = [];
+                        }
+                        scoreTerms[rowPK].push({
+                            column: col,
+                            boost: parseFloat(args[0]) || 1,
+                            terms: Object.keys(reducedResults[rowPK]).map(w => ({
+                                tf: reducedResults[rowPK][w].i.length,
+                                length: reducedResults[rowPK][w].l,
+                                docs: docFreq[w] || 1
+                            }))
+                        });
+
                         if (whereType !== 0) { // fuzzy term match
                             // We're checking each result to see how closely it matches the search phrase.
                             // Closer proximity === higher weight
@@ -1823,6 +3541,26 @@ export class _RowSelection {
                 });
             }).then((results) => {
 
+                // rows must have every required word and phrase in one of the columns and none of the excluded ones
+                if (syntax) {
+                    const hasPhrase = (rowPK: string, phrase: string, stopWords: boolean): boolean => {
+                        return columns.filter((col) => {
+                            const tokens = this.qu._tokenizer(col, phrase).filter(t => t.w);
+                            const positions = wordPositions[col][rowPK] || {};
+                            if (!tokens.length) return stopWords; // phrases of only stop words aren't indexed
+                            return (positions[tokens[0].w] || []).filter((loc) => {
+                                const start = loc - tokens[0].i;
+                                return tokens.filter(t => (positions[t.w] || []).indexOf(start + t.i) === -1).length === 0;
+                            }).length > 0;
+                        }).length > 0;
+                    };
+                    Object.keys(weights).forEach((rowPK) => {
+                        if (syntax.required.filter(r => !hasPhrase(rowPK, r, true)).length || syntax.excluded.filter(e => hasPhrase(rowPK, e, false)).length) {
+                            delete weights[rowPK];
+                        }
+                    });
+                }
+
                 // normalize the weights
                 let max = 0;
                 const rowKeys = Object.keys(weights);
@@ -1863,108 +3601,60 @@ export class _RowSelection {
                                     if (lev <= 1) {
                                         weights[rowPK].weight += 10;
                                     } else {
-                                        weights[rowPK].weight += 10 / (lev * 10);
-                                    }
-                                });
-                            });
-                        });
-                    });
-
-                    // normalize weights again
-                    let max = 0;
-                    const rowKeys = Object.keys(weights);
-                    let ii = rowKeys.length;
-                    while (ii--) {
-                        max = Math.max(max, weights[rowKeys[ii]].weight);
-                    }
-                    ii = rowKeys.length;
-                    while (ii--) {
-                        weights[rowKeys[ii]].weight = weights[rowKeys[ii]].weight / max;
-                    }
-
-                    callback(rows.filter(r => {
-                        if (whereType === 0) return true;
-                        if (whereType > 0) {
-                            return whereType < weights[r[pk]].weight;
-                        }
-                        if (whereType < 0) {
-                            return whereType * -1 > weights[r[pk]].weight;
-                        }
-                        return true;
-                    }).map(r => ({
-                        ...r,
-                        _weight: weights[r[pk]].weight,
-                        _locations: weights[r[pk]].locations
-                    })));
-                });
-            });
-            return;
-        }
-
-        // get rows based on crow distance from given GPS coordinates
-        if (where[0].indexOf("crow(") === 0) {
-            const gps: any[] = where[0].replace(/crow\((.*)\)/gmi, "$1").split(",").map((c, i) => i < 2 ? parseFloat(c.trim()) : c.trim());
-
-            const latTable = "_" + this.q.table + "_idx_" + (gps.length > 2 ? gps[2] : "lat");
-            const lonTable = "_" + this.q.table + "_idx_" + (gps.length > 2 ? gps[3] : "lon");
-
-            const distance = parseFloat(where[2] || "0");
-
-            // get latitudes that are distance north and distance south from the search point
-            const latRange = [-1, 1].map((i) => {
-                return gps[0] + ((distance * i) / NanoSQLInstance.earthRadius) * (180 * Math.PI);
-            });
-
-            // get the longitudes that are distance west and distance east from the search point
-            const lonRange = [-1, 1].map((i) => {
-                return gps[1] + ((distance * i) / NanoSQLInstance.earthRadius) * (180 * Math.PI) / Math.cos(gps[0] * Math.PI / 180);
-            });
-
-            // We're getting all rows that are within the latitude OR longitude range.
-            // the final result will be a square giving us an approximation of the final result set.
-            fastALL([latTable, lonTable], (table, i, next) => {
-                const ranges = i === 0 ? latRange : lonRange;
-                this.s._rangeRead(table, ranges[0], ranges[1], true, next);
-            }).then((result: { id: number, rows: any[] }[][]) => {
-
-                // if the lat or lon results are empty then we have no records that match
-                if (!result[0].length || !result[1].length) {
-                    callback([]);
-                    return;
-                }
-
-                // build an array of row primary keys and calculate their distance
-                // doesn't calculate distance if row doesn't fit inside the approximation square.
-                let rows: { [pk: string]: number } = {};
-                let keys: any[] = [];
-                [0, 1].forEach((i) => {
-                    result[i].forEach((r) => {
-                        r.rows.forEach((pk) => {
-                            switch (i) {
-                                case 0:
-                                    rows[pk] = r.id;
-                                    break;
-                                case 1:
-                                    // record is inside the search radius
-                                    if (rows[pk] && crowDistance(gps[0], gps[1], rows[pk], r.id, NanoSQLInstance.earthRadius) < distance) {
-                                        keys.push(pk);
+                                        weights[rowPK].weight += 10 / (lev * 10);
                                     }
-                                    break;
-                            }
+                                });
+                            });
                         });
                     });
-                });
 
-                // Get the rows
-                const pk = this.qu._store.tableInfo[this.q.table as any]._pk;
-                this.s._read(this.q.table as any, keys as any, (records) => {
-                    callback(records.map(r => ({
-                        ...r,
-                        _distance: rows[r[pk]]
-                    })));
+                    // normalize weights again
+                    let max = 0;
+                    const rowKeys = Object.keys(weights);
+                    let ii = rowKeys.length;
+                    while (ii--) {
+                        max = Math.max(max, weights[rowKeys[ii]].weight);
+                    }
+                    ii = rowKeys.length;
+                    while (ii--) {
+                        weights[rowKeys[ii]].weight = weights[rowKeys[ii]].weight / max;
+                    }
+
+                    fastALL(columns, (col, i, next) => {
+                        this.s._getSearchStats(this.q.table as string, col, next);
+                    }).then((stats: { docs: number, length: number }[]) => {
+                        let columnStats = {};
+                        columns.forEach((col, i) => {
+                            columnStats[col] = stats[i];
+                        });
+                        callback(rows.filter(r => {
+                            if (whereType === 0) return true;
+                            if (whereType > 0) {
+                                return whereType < weights[r[pk]].weight;
+                            }
+                            if (whereType < 0) {
+                                return whereType * -1 > weights[r[pk]].weight;
+                            }
+                            return true;
+                        }).map(r => ({
+                            ...r,
+                            _weight: weights[r[pk]].weight,
+                            _locations: weights[r[pk]].locations,
+                            _score: (scoreTerms[r[pk]] || []).reduce((prev, cur) => {
+                                return prev + cur.terms.reduce((p, t) => p + bm25(t.tf, t.length, t.docs, columnStats[cur.column]), 0) * cur.boost;
+                            }, 0),
+                            ...(this.q.highlight ? { _highlights: this._highlights(r, weights[r[pk]].locations) } : {})
+                        })));
+                    });
                 });
             });
+            return;
+        }
 
+        // get rows based on crow distance from given GPS coordinates or inside a bounding box
+        const geo = parseGeoWhere(where);
+        if (geo) {
+            this._geoRows(geo, where, callback);
             return;
         }
 
@@ -2084,6 +3774,32 @@ export class _RowSelection {
         }
     }
 
+    /**
+     * Select rows using a compound index, the leftover where conditions are checked against the result.
+     *
+     * @internal
+     * @param {CompoundIndexPlan} plan
+     * @param {(rows: DBRow[]) => void} callback
+     * @memberof _RowSelection
+     */
+    private _selectByCompoundIndex(plan: CompoundIndexPlan, callback: (rows: DBRow[]) => void) {
+        this.s._compoundIndexRead(this.q.table as any, plan.index, plan.equal, plan.range, (rows) => {
+            if (this.q.plan) {
+                this.qu._planWhere.scanned = rows.length;
+            }
+            if (plan.where.length) {
+                rows = rows.filter((r, i) => _where(r, plan.where, i, false));
+            }
+            if (plan.ordered) {
+                this.qu._rowsOrdered = true;
+                if (plan.reverse) {
+                    rows.reverse();
+                }
+            }
+            callback(rows);
+        });
+    }
+
     /**
      * Select rows based on a Trie Query.
      *
@@ -2117,7 +3833,9 @@ export class _RowSelection {
         } = [];
 
         const scanTable = () => {
+            let scanned = 0;
             this.s._read(this.q.table as any, (row, i, keep) => {
+                scanned++;
                 if (!hasWhere) { // no where statement
                     keep(true);
                     return;
@@ -2128,7 +3846,12 @@ export class _RowSelection {
                 } else { // where is function
                     keep((this.q.where as any)(row, i));
                 }
-            }, callback);
+            }, (rows) => {
+                if (this.q.plan) {
+                    this.qu._planWhere.scanned = scanned;
+                }
+                callback(rows);
+            });
         };
 
         const where: any[] = this.q.where as any || [];
@@ -2142,7 +3865,7 @@ export class _RowSelection {
                 }
 
                 // perform optimized search query, then store the results to compare aginst the rest of the .where() conditions
-                this.qu._store._nsql.query("select").where(wAr).manualExec({ table: this.q.table }).then((rows) => {
+                this.qu._store._nsql.query("select").where(wAr).manualExec({ ...inTransaction(this.q), table: this.q.table }).then((rows) => {
                     arraySearchCache[i] = rows.map(r => r[PK]);
                     done();
                 });
@@ -2194,6 +3917,153 @@ export class _RowSelection {
         return 0;
     }
 
+    /**
+     * Find the best compound index to read from, if any.
+     * A compound index is used when the where conditions are all combined with AND and either:
+     * - The index covers at least two of them, equality checks for the first columns followed by an optional range check on the next one.
+     * - The index also gives the ORDER BY, so the rows don't have to be sorted.
+     *
+     * @internal
+     * @returns {(CompoundIndexPlan | undefined)}
+     * @memberof _RowSelection
+     */
+    private _compoundIndexPlan(): CompoundIndexPlan | undefined {
+        const tableData = this.s.tableInfo[this.q.table as any];
+        const indexes = Object.keys(tableData._compoundIndexes);
+        if (!indexes.length) return undefined;
+
+        let conditions: any[][] = [];
+        if (this.q.where) {
+            if (!Array.isArray(this.q.where)) return undefined;
+            if (typeof this.q.where[0] === "string") { // single where
+                conditions = [this.q.where];
+            } else { // combined where, every condition must be a simple one joined with AND
+                let simpleWhere = true;
+                this.q.where.forEach((wArg, i) => {
+                    if (i % 2 === 1) {
+                        if (wArg !== "AND") simpleWhere = false;
+                    } else if (typeof wArg[0] !== "string") {
+                        simpleWhere = false;
+                    } else {
+                        conditions.push(wArg);
+                    }
+                });
+                if (!simpleWhere) return undefined;
+            }
+            // search() and crow() conditions need their own index
+            if (conditions.filter(c => c[0].indexOf("(") !== -1).length) return undefined;
+        }
+
+        const orderBy = this.q.orderBy || {};
+        const orderColumns = Object.keys(orderBy);
+        const aliases = (this.q.actionArgs || []).map(a => typeof a === "string" ? (a.indexOf(" AS ") !== -1 ? (a.split(" AS ").pop() || "").trim() : "") : a.as).filter(a => a);
+        const canOrder = orderColumns.length && !this.q.groupBy && !this.q.join && !orderColumns.filter(c => aliases.indexOf(c) !== -1).length;
+
+        let bestPlan: CompoundIndexPlan | undefined;
+        let bestCovered = 0;
+
+        indexes.forEach((index) => {
+            const columns = tableData._compoundIndexes[index];
+            let used: number[] = [];
+            let equal: any[] = [];
+
+            // equality checks against the first columns of the index
+            columns.every((column) => {
+                const found = conditions.reduce((prev, c, i) => {
+                    if (prev !== -1 || used.indexOf(i) !== -1) return prev;
+                    return c[0] === column && c[1] === "=" && c[2] !== null && typeof c[2] !== "object" ? i : -1;
+                }, -1);
+                if (found === -1) return false;
+                used.push(found);
+                equal.push(conditions[found][2]);
+                return true;
+            });
+
+            // range check against the next column
+            let range: { lower?: [any, boolean], upper?: [any, boolean] } | undefined;
+            const rangeColumn = columns[equal.length];
+            if (rangeColumn) {
+                conditions.forEach((c, i) => {
+                    if (c[0] !== rangeColumn || used.indexOf(i) !== -1) return;
+                    const r = range || {};
+                    switch (c[1]) {
+                        case ">":
+                        case ">=":
+                            if (r.lower) return;
+                            r.lower = [c[2], c[1] === ">="];
+                            break;
+                        case "<":
+                        case "<=":
+                            if (r.upper) return;
+                            r.upper = [c[2], c[1] === "<="];
+                            break;
+                        case "BETWEEN":
+                            if (r.lower || r.upper || !Array.isArray(c[2])) return;
+                            r.lower = [c[2][0], true];
+                            r.upper = [c[2][1], true];
+                            break;
+                        default:
+                            return;
+                    }
+                    range = r;
+                    used.push(i);
+                });
+            }
+
+            // the order by can come straight from the index if it follows the columns after the equality checks
+            let nextColumn = equal.length;
+            let direction = "";
+            const ordered = canOrder && orderColumns.filter((column) => {
+                const pos = columns.indexOf(column);
+                if (pos !== -1 && pos < equal.length) return true; // same value for every row
+                if (pos !== nextColumn) return false;
+                nextColumn++;
+                const dir = String(orderBy[column]).toLowerCase() === "desc" ? "desc" : "asc";
+                if (direction && direction !== dir) return false;
+                direction = dir;
+                return true;
+            }).length === orderColumns.length ? true : false;
+
+            if (used.length < 2 && !(ordered && (used.length || !conditions.length))) return;
+            if (bestPlan && (used.length < bestCovered || (used.length === bestCovered && (bestPlan.ordered || !ordered)))) return;
+
+            bestCovered = used.length;
+            bestPlan = {
+                index: index,
+                equal: equal,
+                range: range,
+                where: conditions.filter((c, i) => used.indexOf(i) === -1).reduce((prev, cur, i) => {
+                    return i > 0 ? prev.concat(["AND", cur]) : [cur];
+                }, [] as any[]),
+                ordered: ordered,
+                reverse: direction === "desc"
+            };
+        });
+
+        // a single leftover condition isn't a compound where
+        if (bestPlan && bestPlan.where.length === 1) {
+            bestPlan.where = bestPlan.where[0];
+        }
+
+        return bestPlan;
+    }
+
+    /**
+     * Check if an optimized where statement reads the primary key.
+     *
+     * @internal
+     * @param {any[]} where
+     * @returns {boolean}
+     * @memberof _RowSelection
+     */
+    private _wherePK(where: any[]): boolean {
+        const pk = this.s.tableInfo[this.q.table as any]._pk;
+        if (typeof where[0] === "string") {
+            return where[0] === pk;
+        }
+        return where.filter((w, i) => i % 2 === 0 && w[0] === pk).length > 0;
+    }
+
     /**
      * Checks if a single WHERE statement ["row", "=", value] uses a primary key or secondary index as it's row.
      * If so, we can use a much faster SELECT method.
@@ -2208,17 +4078,17 @@ export class _RowSelection {
         const wQuery = wArgs[0] || "";
         const wCondition = wArgs[1] || "";
 
-        if (Array.isArray(wQuery)) { // nested where statement
-            return 0;
+        // nested where statements are checked row by row, the index reads can't handle them
+        if (Array.isArray(wQuery)) {
+            return 1;
         }
 
-        // is a valid crow query with secondary indexes
-        if (wQuery.indexOf("crow(") !== 1 && wCondition === "<") {
-            const crowArgs = wQuery.replace(/crow\((.*)\)/gmi, "$1").split(",").map(c => c.trim());
-            const latTable = crowArgs[2] || "lat";
-            const lonTable = crowArgs[3] || "lon";
-            if (tableData._secondaryIndexes.indexOf(latTable) === -1 || tableData._secondaryIndexes.indexOf(lonTable) === -1) return 1;
-            return 0;
+        // is a valid crow or within query with a geo index, crow queries can also use secondary indexes on both columns
+        const geo = parseGeoWhere(wArgs);
+        if (geo) {
+            if (this._geoIndex(geo.columns)) return 0;
+            if (geo.fn === "crow" && tableData._secondaryIndexes.indexOf(geo.columns[0]) !== -1 && tableData._secondaryIndexes.indexOf(geo.columns[1]) !== -1) return 0;
+            return 1;
         }
 
         // is a valid search query
@@ -2289,6 +4159,484 @@ export class InstanceSelection {
     }
 }
 
+/**
+ * A key that's the same for rows with the same columns and values.
+ *
+ * @param {DBRow} row
+ * @returns {string}
+ */
+const rowKey = (row: DBRow): string => {
+    return JSON.stringify(Object.keys(row).sort().map(k => [k, row[k]]));
+};
+
+/**
+ * Remove duplicate rows, the first of each is kept.
+ *
+ * @param {DBRow[]} rows
+ * @returns {DBRow[]}
+ */
+const uniqueRows = (rows: DBRow[]): DBRow[] => {
+    let found = {};
+    return rows.filter((row) => {
+        const key = rowKey(row);
+        if (found[key]) return false;
+        found[key] = true;
+        return true;
+    });
+};
+
+/**
+ * Check if two data model types can be in the same column of a set operation.
+ * Unknown types and "any" match everything, number types match each other.
+ *
+ * @param {(string | undefined)} typeA
+ * @param {(string | undefined)} typeB
+ * @returns {boolean}
+ */
+const setTypesMatch = (typeA: string | undefined, typeB: string | undefined): boolean => {
+    if (!typeA || !typeB || typeA === typeB || typeA === "any" || typeB === "any") return true;
+    const numbers = ["int", "float", "number"];
+    return numbers.indexOf(typeA) !== -1 && numbers.indexOf(typeB) !== -1;
+};
+
+/**
+ * Check if a value is a query object used as a subquery.
+ *
+ * @param {*} value
+ * @returns {boolean}
+ */
+const isSubquery = (value: any): boolean => {
+    return value !== null && typeof value === "object" && !Array.isArray(value) && value.table !== undefined && typeof value.action === "string";
+};
+
+/**
+ * Check if a where statement has subqueries in it.
+ *
+ * @param {any[]} where
+ * @returns {boolean}
+ */
+const hasSubquery = (where: any[]): boolean => {
+    if (typeof where[0] !== "string") { // compound where
+        return where.filter((w, i) => i % 2 === 0 && hasSubquery(w)).length > 0;
+    }
+    return isSubquery(where[1]) || isSubquery(where[2]);
+};
+
+/**
+ * Run a subquery and get it's rows.
+ *
+ * @param {NanoSQLInstance} nSQL
+ * @param {IdbQuery} parent the query running the subquery
+ * @param {IdbQueryExec} query
+ * @param {(rows: DBRow[]) => void} complete
+ * @param {(err: any) => void} error
+ */
+const runSubquery = (nSQL: NanoSQLInstance, parent: IdbQuery, query: IdbQueryExec, complete: (rows: DBRow[]) => void, error: (err: any) => void) => {
+    if (String(query.action).toLowerCase().trim() !== "select") {
+        error("nSQL: Subqueries must be select queries!");
+        return;
+    }
+    const { queryID, result, ...subquery } = query;
+    nSQL.query("select", query.actionArgs).manualExec({ ...subquery, ...inTransaction(parent) }).then(complete).catch(error);
+};
+
+/**
+ * Query arguments that keep a nested query in the transaction of the query running it, so it isn't held until the transaction ends.
+ *
+ * @param {IdbQuery} query
+ * @returns {{ transaction?: boolean, queryID?: string }}
+ */
+const inTransaction = (query: IdbQuery): { transaction?: boolean, queryID?: string } => {
+    return query.transaction ? { transaction: true, queryID: query.queryID } : {};
+};
+
+/**
+ * The first column of a subquery row.
+ *
+ * @param {DBRow} row
+ * @returns {*}
+ */
+const firstColumn = (row: DBRow): any => {
+    return row ? row[Object.keys(row)[0]] : undefined;
+};
+
+/**
+ * Run the subqueries in a where statement and replace them with their results.
+ * IN and NOT IN get the first column of every row, EXISTS and NOT EXISTS get wether any rows were found, everything else gets the first column of the first row.
+ * Conditions comparing with a subquery that found no value (or NULL) become "UNKNOWN" conditions that never match.
+ *
+ * @param {NanoSQLInstance} nSQL
+ * @param {IdbQuery} parent the query the where statement belongs to
+ * @param {any[]} where
+ * @param {(where: any[]) => void} complete
+ * @param {(err: any) => void} error
+ */
+const resolveSubqueries = (nSQL: NanoSQLInstance, parent: IdbQuery, where: any[], complete: (where: any[]) => void, error: (err: any) => void) => {
+    let failed = false;
+    const fail = (err: any) => {
+        if (failed) return;
+        failed = true;
+        error(err);
+    };
+
+    const resolve = (wArgs: any[], done: (wArgs: any[]) => void) => {
+        if (typeof wArgs[0] !== "string") { // compound where
+            fastALL(wArgs, (wArg, i, next) => {
+                if (i % 2 === 1) {
+                    next(wArg);
+                    return;
+                }
+                resolve(wArg, next);
+            }).then(done);
+            return;
+        }
+
+        if (["EXISTS", "NOT EXISTS"].indexOf(wArgs[0]) !== -1 && isSubquery(wArgs[1])) {
+            runSubquery(nSQL, parent, wArgs[1], (rows) => {
+                done([wArgs[0], rows.length > 0]);
+            }, fail);
+            return;
+        }
+
+        if (isSubquery(wArgs[2])) {
+            runSubquery(nSQL, parent, wArgs[2], (rows) => {
+                if (["IN", "NOT IN"].indexOf(wArgs[1]) !== -1) {
+                    done([wArgs[0], wArgs[1], rows.map(firstColumn).filter((v, i, values) => values.indexOf(v) === i)]);
+                    return;
+                }
+                const value = firstColumn(rows[0]);
+                // like SQL NULL, comparing with a subquery that found no value is unknown and matches no rows
+                done(value === undefined || value === null ? [wArgs[0], "UNKNOWN", null] : [wArgs[0], wArgs[1], value]);
+            }, fail);
+            return;
+        }
+
+        done(wArgs);
+    };
+
+    resolve(where, (newWhere) => {
+        if (!failed) complete(newWhere);
+    });
+};
+
+/**
+ * Split a select column into the column and it's alias, " AS " inside quoted strings is ignored.
+ *
+ * splitAlias("CONCAT(name, ' AS ', id) AS label") => ["CONCAT(name, ' AS ', id)", "label"]
+ *
+ * @param {string} column
+ * @returns {[string, string | undefined]}
+ */
+const splitAlias = (column: string): [string, string | undefined] => {
+    let quote = "";
+    let aliasIdx = -1;
+    let i = 0;
+    while (i < column.length) {
+        const char = column[i];
+        if (quote) {
+            if (char === quote) quote = "";
+        } else if (char === "'" || char === "\"") {
+            quote = char;
+        } else if (column.slice(i, i + 4) === " AS ") {
+            aliasIdx = i;
+        }
+        i++;
+    }
+    return aliasIdx === -1 ? [column, undefined] : [column.slice(0, aliasIdx).trim(), column.slice(aliasIdx + 4).trim()];
+};
+
+/**
+ * Check if a function call is an aggregate or has aggregates in it's arguments.
+ *
+ * @param {FunctionCall} call
+ * @returns {boolean}
+ */
+const isAggregateCall = (call: FunctionCall): boolean => {
+    const fn = NanoSQLInstance.functions[call.name];
+    return (fn && fn.type === "A") || call.args.filter(a => typeof a !== "string" && isAggregateCall(a)).length > 0;
+};
+
+/**
+ * Split a window function like "RANK() OVER (PARTITION BY dept ORDER BY salary DESC)" into the function and it's window.
+ * Returns undefined for columns without an OVER clause.
+ *
+ * @param {string} column
+ * @returns {(WindowArgs | undefined)}
+ */
+const parseWindow = (column: string): WindowArgs | undefined => {
+    const over = column.match(/^(.+\))\s*OVER\s*\((.*)\)\s*$/i);
+    if (!over) return undefined;
+
+    const clause = over[2].trim();
+    const orderIdx = clause.search(/ORDER\s+BY/i);
+    const partitionBy = (orderIdx === -1 ? clause : clause.slice(0, orderIdx)).replace(/^PARTITION\s+BY/i, "");
+    const orderBy = orderIdx === -1 ? "" : clause.slice(orderIdx).replace(/^ORDER\s+BY/i, "");
+    const columnList = (list: string) => list.split(",").map(c => c.trim()).filter(c => c);
+
+    return {
+        fn: over[1].trim(),
+        partitionBy: columnList(partitionBy),
+        orderBy: columnList(orderBy).reduce((prev, cur) => {
+            const parts = cur.split(/\s+/);
+            prev[parts[0]] = (parts[1] || "").toLowerCase() === "desc" ? "desc" : "asc";
+            return prev;
+        }, {})
+    };
+};
+
+/**
+ * BM25 relevance of a word in a row, rarer words and words found more often in shorter rows score higher.
+ *
+ * @param {number} tf times the word is in the row
+ * @param {number} length number of words in the row
+ * @param {number} docs number of rows with the word
+ * @param {{ docs: number, length: number }} stats rows and total words in the column
+ * @returns {number}
+ */
+const bm25 = (tf: number, length: number, docs: number, stats: { docs: number, length: number }): number => {
+    const k1 = 1.2;
+    const b = 0.75;
+    const totalDocs = Math.max(stats.docs, docs);
+    const avgLength = stats.docs ? stats.length / stats.docs : length;
+    const idf = Math.log(1 + (totalDocs - docs + 0.5) / (docs + 0.5));
+    return idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (length / (avgLength || 1))));
+};
+
+const updateOperators = ["$set", "$unset", "$inc", "$mul", "$min", "$max", "$push", "$addToSet", "$pull"];
+
+/**
+ * Does an upsert row use update operators like $inc or $push?
+ *
+ * @param {*} row
+ * @returns {boolean}
+ */
+const hasUpdateOperators = (row: any): boolean => {
+    return Object.keys(row || {}).filter(k => k.charAt(0) === "$").length > 0;
+};
+
+/**
+ * Get an error message for unknown update operators or operators without columns.
+ *
+ * @param {*} row
+ * @returns {(string | undefined)}
+ */
+const checkUpdateOperators = (row: any): string | undefined => {
+    const bad = Object.keys(row || {}).filter(k => k.charAt(0) === "$" && (updateOperators.indexOf(k) === -1 || typeof row[k] !== "object" || row[k] === null))[0];
+    if (!bad) return undefined;
+    return updateOperators.indexOf(bad) === -1 ? `nSQL: Unknown update operator "${bad}"!` : `nSQL: "${bad}" needs an object of columns!`;
+};
+
+/**
+ * Apply the update operators of an upsert row to the existing row (undefined for new rows).
+ * Columns can be deep paths into map columns like "address.city".
+ * Returns the values to write, rows with $unset are returned whole and need to replace the existing row.
+ *
+ * { $inc: { views: 1 }, $push: { tags: "new" }, $set: { "address.city": "Paris" } }
+ *
+ * @param {*} newRow
+ * @param {*} oldRow
+ * @returns {{ row: any, replace: boolean }}
+ */
+const applyUpdateOperators = (newRow: any, oldRow: any): { row: any, replace: boolean } => {
+    if (!hasUpdateOperators(newRow)) {
+        return { row: newRow, replace: false };
+    }
+
+    let row = {};
+    Object.keys(newRow).filter(k => k.charAt(0) !== "$").forEach((k) => {
+        row[k] = newRow[k];
+    });
+    let unset: string[] = [];
+
+    const current = (col: string) => Object.prototype.hasOwnProperty.call(row, col) ? row[col] : (oldRow || {})[col];
+    const getPath = (path: string): any => {
+        return path.split(".").slice(1).reduce((prev, key) => prev === undefined || prev === null ? undefined : prev[key], current(path.split(".")[0]));
+    };
+    // deep paths copy the top column so the existing row isn't changed
+    const setPath = (path: string, value: any, remove?: boolean) => {
+        const keys = path.split(".");
+        if (keys.length === 1) {
+            if (remove) {
+                unset.push(path);
+            } else {
+                row[path] = value;
+            }
+            return;
+        }
+        let top = isObject(current(keys[0])) ? _assign(current(keys[0])) : {};
+        let obj = top;
+        keys.slice(1, -1).forEach((key) => {
+            if (!isObject(obj[key])) obj[key] = {};
+            obj = obj[key];
+        });
+        if (remove) {
+            delete obj[keys[keys.length - 1]];
+        } else {
+            obj[keys[keys.length - 1]] = value;
+        }
+        row[keys[0]] = top;
+    };
+    const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+    // { $each: [...] } adds more than one value
+    const values = (value: any): any[] => isObject(value) && Array.isArray(value.$each) ? value.$each : [value];
+    const list = (path: string): any[] => Array.isArray(getPath(path)) ? getPath(path).slice() : [];
+
+    updateOperators.forEach((op) => {
+        const args = newRow[op];
+        if (!args) return;
+        const paths: string[] = Array.isArray(args) ? args : Object.keys(args);
+        paths.forEach((path) => {
+            const value = Array.isArray(args) ? undefined : args[path];
+            const existing = getPath(path);
+            switch (op) {
+                case "$set": setPath(path, value); break;
+                case "$unset": setPath(path, undefined, true); break;
+                case "$inc": setPath(path, (parseFloat(existing) || 0) + parseFloat(value)); break;
+                case "$mul": setPath(path, (parseFloat(existing) || 0) * parseFloat(value)); break;
+                case "$min":
+                    if (existing === undefined || existing === null || value < existing) setPath(path, value);
+                    break;
+                case "$max":
+                    if (existing === undefined || existing === null || value > existing) setPath(path, value);
+                    break;
+                case "$push": setPath(path, list(path).concat(values(value))); break;
+                case "$addToSet":
+                    setPath(path, values(value).reduce((prev, v) => prev.filter(p => same(p, v)).length ? prev : prev.concat([v]), list(path)));
+                    break;
+                case "$pull": setPath(path, list(path).filter(v => !same(v, value))); break;
+            }
+        });
+    });
+
+    if (!unset.length) {
+        return { row: row, replace: false };
+    }
+    let replaced = { ...(oldRow || {}), ...row };
+    unset.forEach((col) => {
+        delete replaced[col];
+    });
+    return { row: replaced, replace: true };
+};
+
+/**
+ * Check if a row of a softDelete table has been deleted.
+ *
+ * @internal
+ * @param {DBRow} row
+ * @returns {boolean}
+ */
+const isSoftDeleted = (row: DBRow): boolean => {
+    return !!row && row._deletedAt !== undefined && row._deletedAt !== null;
+};
+
+/**
+ * Check if a row of a ttl() or expiresAt table has expired, it stays in the table until the expiry timer deletes it.
+ *
+ * @internal
+ * @param {_NanoSQLStorage} store
+ * @param {string} table
+ * @param {DBRow} row
+ * @returns {boolean}
+ */
+const isExpired = (store: _NanoSQLStorage, table: string, row: DBRow): boolean => {
+    if (!row || !store.tableInfo[table] || !store.tableInfo[table]._ttlColumn) return false;
+    const at = store._rowExpiry(table, row);
+    return at !== undefined && at <= Date.now();
+};
+
+/**
+ * Check if a row is soft deleted or expired, upserts and unique checks treat these rows like they don't exist.
+ *
+ * @internal
+ * @param {_NanoSQLStorage} store
+ * @param {string} table
+ * @param {DBRow} row
+ * @returns {boolean}
+ */
+const isHidden = (store: _NanoSQLStorage, table: string, row: DBRow): boolean => {
+    return (!!store.tableInfo[table] && store.tableInfo[table]._softDelete && isSoftDeleted(row)) || isExpired(store, table, row);
+};
+
+/**
+ * Get a check for the rows of a table a query can see, undefined when it can see all of them.
+ * Soft deleted rows are left out unless the query has withDeleted(), expired rows are left out except for the query deleting them.
+ *
+ * @internal
+ * @param {_NanoSQLStorage} store
+ * @param {IdbQuery} query
+ * @param {string} table
+ * @returns {(((row: DBRow) => boolean) | undefined)}
+ */
+const visibleRows = (store: _NanoSQLStorage, query: IdbQuery, table: string): ((row: DBRow) => boolean) | undefined => {
+    const info = store.tableInfo[table];
+    if (!info) return undefined;
+    const hideDeleted = info._softDelete && !query.withDeleted;
+    const hideExpired = !!info._ttlColumn && (query.comments || []).indexOf("_expired_") === -1;
+    if (!hideDeleted && !hideExpired) return undefined;
+    return (row: DBRow) => !(hideDeleted && isSoftDeleted(row)) && !(hideExpired && isExpired(store, table, row));
+};
+
+interface GeoWhere {
+    fn: "crow" | "within";
+    args: number[];
+    columns: string[];
+}
+
+/**
+ * Parse a crow() distance or within() bounding box condition, conditions that can't use an index give undefined.
+ * "crow(-49, 29, lat_main, lon_main)" with "<" or "<=" => {fn: "crow", args: [-49, 29], columns: ["lat_main", "lon_main"]}
+ * "within(10, 20, 11, 21)" with "=" true => {fn: "within", args: [10, 20, 11, 21], columns: ["lat", "lon"]}
+ *
+ * @param {any[]} where
+ * @returns {(GeoWhere | undefined)}
+ */
+const parseGeoWhere = (where: any[]): GeoWhere | undefined => {
+    if (typeof where[0] !== "string") return undefined;
+    const fn = where[0].indexOf("crow(") === 0 ? "crow" : where[0].indexOf("within(") === 0 ? "within" : undefined;
+    if (!fn) return undefined;
+    if (fn === "crow" ? ["<", "<="].indexOf(where[1]) === -1 : where[1] !== "=" || where[2] !== true) return undefined;
+    const args = where[0].replace(/^\w+\((.*)\)$/gmi, "$1").split(",").map(c => c.trim());
+    const numbers = fn === "crow" ? 2 : 4;
+    const coords = args.slice(0, numbers).map(c => parseFloat(c));
+    if (args.length < numbers || coords.filter(c => isNaN(c)).length) return undefined;
+    return {
+        fn: fn,
+        args: coords,
+        columns: [args[numbers] || "lat", args[numbers + 1] || "lon"]
+    };
+};
+
+/**
+ * Split a join table like "users AS u" into the table name and the alias it's columns are keyed with.
+ *
+ * @param {string} table
+ * @returns {{ table: string, as: string }}
+ */
+const parseJoinTable = (table: string): { table: string, as: string } => {
+    const parts = String(table).split(/\s+AS\s+/i);
+    return { table: parts[0].trim(), as: (parts[1] || parts[0]).trim() };
+};
+
+/**
+ * Replace column references on the right side of join conditions with their values from the joined row.
+ * Values that don't start with the alias of a joined table are left alone.
+ *
+ * @param {any[]} where
+ * @param {DBRow} row
+ * @param {string[]} aliases
+ * @returns {any[]}
+ */
+const resolveJoinConditions = (where: any[], row: DBRow, aliases: string[]): any[] => {
+    if (typeof where[0] !== "string") { // compound join conditions
+        return where.map((w, i) => i % 2 === 1 ? w : resolveJoinConditions(w, row, aliases));
+    }
+    const value = where[2];
+    if (typeof value === "string" && value.indexOf(".") !== -1 && aliases.indexOf(value.split(".")[0]) !== -1) {
+        return [where[0], where[1], objQuery(value, row, true)];
+    }
+    return where;
+};
+
 /**
  * Handles WHERE statements, combining multiple compared statements aginst AND/OR as needed to return a final boolean value.
  * The final boolean value is wether the row matches the WHERE conditions or not.
@@ -2361,6 +4709,10 @@ const whereFuncCache: { [value: string]: string[] } = {};
  */
 const _compare = (where: any[], wholeRow: any, isJoin: boolean): boolean => {
 
+    // EXISTS subqueries are replaced with wether they found any rows
+    if (where[0] === "EXISTS") return where[1] === true;
+    if (where[0] === "NOT EXISTS") return where[1] !== true;
+
     if (!whereFuncCache[where[0]]) {
         // "levenshtein(word, column)"" => ["levenshtein", "word", "column"]
         // "crow(-49, 29, lat_main, lon_main)" => ["crow", -49, 29, "lat_main", "lon_main"]
@@ -2396,6 +4748,9 @@ const _compare = (where: any[], wholeRow: any, isJoin: boolean): boolean => {
 
     const givenValue = where[2];
     const compare = where[1];
+
+    // scalar subqueries that found no value, see resolveSubqueries
+    if (compare === "UNKNOWN") return false;
     const columnValue = (() => {
         if (whereFuncCache[where[0]].length) {
             const whereFn = NanoSQLInstance.whereFunctions[whereFuncCache[where[0]][0]];
@@ -1,7 +1,7 @@
 import { Trie } from "prefix-trie-ts";
 import { IdbQuery } from "../query/std-query";
 import { DataModel, NanoSQLInstance, NanoSQLConfig, NanoSQLBackupAdapter } from "../index";
-import { StdObject, hash, fastALL, fastCHAIN, deepFreeze, uuid, intersect, timeid, _assign, generateID, isSafari, isMSBrowser, isObject, removeDuplicates, random16Bits, Promise, binarySearch } from "../utilities";
+import { StdObject, hash, fastALL, fastCHAIN, deepFreeze, uuid, intersect, timeid, _assign, generateID, isSafari, isMSBrowser, isObject, removeDuplicates, random16Bits, Promise, binarySearch, geoHash, geoHashCells } from "../utilities";
 import { _SyncStore } from "./adapter-sync";
 import { _IndexedDBStore } from "./adapter-indexedDB";
 import { _WebSQLStore } from "./adapter-websql";
@@ -12,6 +12,11 @@ import { DatabaseIndex } from "./db-idx";
 /* NODE-END */
 const queue = require("queue");
 
+/**
+ * Table holding the undo journal of the open transaction, a transaction left open by a crash is rolled back from it on connect.
+ */
+const transactionJournal = "_transaction_journal";
+
 export interface DBRow {
     [key: string]: any;
 }
@@ -44,6 +49,81 @@ const newQueryQ = (_this: _NanoSQLStorage): QueryQ => {
     };
 };
 
+/**
+ * Compare two compound index keys (arrays of column values), null values are sorted first.
+ *
+ * @param {any[]} a
+ * @param {any[]} b
+ * @returns {number}
+ */
+const compareIndexKeys = (a: any[], b: any[]): number => {
+    let i = 0;
+    while (i < a.length) {
+        if (a[i] !== b[i]) {
+            if (a[i] === null) return -1;
+            if (b[i] === null) return 1;
+            return a[i] > b[i] ? 1 : -1;
+        }
+        i++;
+    }
+    return 0;
+};
+
+/**
+ * Given a sorted array of stringified compound index keys, find where a key fits into the array.
+ * The key can hold fewer values than the index keys, only that many of their first values are compared.
+ * The location is before the keys matching it, or after them if after is true.
+ *
+ * @param {string[]} idx
+ * @param {string} key
+ * @param {boolean} [after]
+ * @returns {number}
+ */
+const compoundIndexLocation = (idx: string[], key: string, after?: boolean): number => {
+    const search = JSON.parse(key);
+    let low = 0;
+    let high = idx.length;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const compare = compareIndexKeys(search, JSON.parse(idx[mid]));
+        if (compare > 0 || (after && compare === 0)) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
+
+/**
+ * Get the columns of each compound index declared in a table's props, ie: "idx(tenant, created)".
+ *
+ * @param {any[]} props
+ * @returns {string[][]}
+ */
+const compoundIndexColumns = (props: any[]): string[][] => {
+    return (props || []).filter(p => typeof p === "string" && p.indexOf("idx(") === 0).map((p: string) => {
+        return p.replace(/idx\((.*)\)/gmi, "$1").split(",").map(c => c.trim()).filter(c => c);
+    }).filter(c => c.length);
+};
+
+/**
+ * Get the latitude and longitude columns of each geo index declared in a table's props, ie: "geo(lat, lon)".
+ *
+ * @param {any[]} props
+ * @returns {string[][]}
+ */
+const geoIndexColumns = (props: any[]): string[][] => {
+    return (props || []).filter(p => typeof p === "string" && p.indexOf("geo(") === 0).map((p: string) => {
+        return p.replace(/geo\((.*)\)/gmi, "$1").split(",").map(c => c.trim()).filter(c => c);
+    });
+};
+
+/**
+ * Length of the geohash keys in geo index tables, about 5 meters square.
+ */
+const geoPrecision = 9;
+
 /**
  * Storage class uses one of these to attach to the actual database backend.
  *
@@ -118,16 +198,21 @@ export interface NanoSQLStorageAdapter {
      * Each row is read asyncrounosuly, so make sure the front end can incriment through the rows quickly.
      *
      * If pkRange is true, the from and to values will be primary keys.  Even if the provided keys don't exist, the backend should gracefully provide all keys between the two keys given.
+     * If only one of them is given the range goes to the first or last key of the table.
      * If pkRange is false, the from and to values will be numbers indicating a range of rows to get, regardless of the primary key values.
+     * Calling nextRow(true) stops the read, complete is called right away.
      *
      * @param {string} table
-     * @param {(row: DBRow, idx: number, nextRow: () => void) => void} rowCallback
+     * @param {(row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void} rowCallback
      * @param {() => void} complete
      * @param {DBKey} [from]
      * @param {DBKey} [to]
+     * @param {boolean} [pkRange]
+     * @param {(err: Error) => void} [error]
+     * @param {boolean} [reverse] read the rows from the last key to the first
      * @memberof NanoSQLStorageAdapter
      */
-    rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: () => void) => void, complete: () => void, from?: any, to?: any, pkRange?: boolean, error?: (err: Error) => void): void;
+    rangeRead(table: string, rowCallback: (row: DBRow, idx: number, nextRow: (stop?: boolean) => void) => void, complete: () => void, from?: any, to?: any, pkRange?: boolean, error?: (err: Error) => void, reverse?: boolean): void;
 
     /**
      * Delete a row from the backend given a table and primary key.
@@ -228,13 +313,20 @@ export class _NanoSQLStorage {
             _pkType: string // Primary Key Type
             _name: string // table name
             _secondaryIndexes: string[] // secondary index columns
+            _compoundIndexes: { [index: string]: string[] } // compound indexes, columns joined with "," => columns
+            _geoIndexes: { [index: string]: string[] } // geo indexes, "geo(lat,lon)" => [lat, lon]
+            _uniqueColumns: string[] // columns with a unique constraint
             _searchColumns: {
                 [column: string]: string[];
             }
+            _ttlColumn: string // column with a ttl() or expiresAt prop
+            _ttlSeconds: number // seconds rows live after the time in the ttl() column, 0 when the column holds the expiry time
+            _softDelete: boolean // deletes only set the row's _deletedAt column, see the softDelete table prop
             _trieColumns: string[] // trie columns
             _keys: string[] // array of columns
             _defaults: { [column: string]: any };
             _hasDefaults: boolean;
+            _hasValidation: boolean; // columns have validation rules or strict mode is on
             _views: { // views present on this table
                 [table: string]: {
                     pkColumn: string;
@@ -280,6 +372,60 @@ export class _NanoSQLStorage {
         }
     };
 
+    /**
+     * Number of rows and total tokens of each search() column, used to rank search results.
+     * Loaded from the search token tables the first time a column is searched, then kept up to date as rows are indexed.
+     *
+     * @internal
+     * @type {{
+     *         [tableName: string]: {
+     *             [column: string]: { docs: number, length: number }
+     *         }
+     *     }}
+     * @memberof _NanoSQLStorage
+     */
+    public _searchStats: {
+        [tableName: string]: {
+            [column: string]: { docs: number, length: number }
+        }
+    };
+
+    /**
+     * When each row of a ttl() or expiresAt table expires, keyed by primary key.
+     * Read from the table the first time it's needed, then kept up to date as rows are written and deleted.
+     *
+     * @internal
+     * @type {{
+     *         [tableName: string]: {
+     *             [pk: string]: { pk: DBKey, at: number }
+     *         }
+     *     }}
+     * @memberof _NanoSQLStorage
+     */
+    public _expiry: {
+        [tableName: string]: {
+            [pk: string]: { pk: DBKey, at: number }
+        }
+    };
+
+    /**
+     * The timer purging the next expiring rows of each table and when it fires.
+     *
+     * @internal
+     * @type {{ [tableName: string]: { timer: any, at: number } }}
+     * @memberof _NanoSQLStorage
+     */
+    private _expiryTimers: { [tableName: string]: { timer: any, at: number } };
+
+    /**
+     * Callbacks waiting on the expired rows of a table to be purged.
+     *
+     * @internal
+     * @type {{ [tableName: string]: (() => void)[] }}
+     * @memberof _NanoSQLStorage
+     */
+    private _expiring: { [tableName: string]: (() => void)[] };
+
     /**
      * Stores a copy of all the data models
      *
@@ -430,6 +576,36 @@ export class _NanoSQLStorage {
         [table: string]: any[];
     };
 
+    /**
+     * The current transaction and it's undo journal.
+     * The transaction is "pending" until the queries started before it finish, while it's "open" only it's own queries run
+     * and every other query waits for it to end.
+     * The original version of every row and cached secondary index the transaction touches is kept here
+     * (and rows in the journal table) so the whole transaction can be rolled back.
+     *
+     * @type {({
+     *         id: string;
+     *         state: "pending" | "open" | "ending";
+     *         rows: { [table: string]: { [pk: string]: { pk: DBKey, row: DBRow | undefined } } };
+     *         indexes: { [idxTable: string]: { idx: any[], rows: any } };
+     *     } | undefined)}
+     * @memberof _NanoSQLStorage
+     */
+    public _transaction: {
+        id: string;
+        state: "pending" | "open" | "ending";
+        rows: { [table: string]: { [pk: string]: { pk: DBKey, row: DBRow | undefined } } };
+        indexes: { [idxTable: string]: { idx: any[], rows: any } };
+    } | undefined;
+
+    private _transactionDone: () => void;
+
+    private _transactionStart: (() => void) | undefined;
+
+    private _runningQueries: number;
+
+    private _heldQueries: (() => void)[];
+
     public adapters: NanoSQLBackupAdapter[];
 
     constructor(parent: NanoSQLInstance, args: NanoSQLConfig) {
@@ -446,9 +622,16 @@ export class _NanoSQLStorage {
         this.models = {};
         this.tableInfo = {};
         this._trieIndexes = {};
+        this._searchStats = {};
+        this._expiry = {};
+        this._expiryTimers = {};
+        this._expiring = {};
         this._tableNames = [];
         this._doCache = (typeof args.cache !== "undefined" ? args.cache : true);
         this._cache = {};
+        this._runningQueries = 0;
+        this._heldQueries = [];
+        this._flushWaiting = [];
 
         if (this._doCache && args.peer && typeof window !== "undefined") {
             const prevTable = parent.sTable;
@@ -495,24 +678,49 @@ export class _NanoSQLStorage {
 
     public _isFlushing: boolean;
 
-    public _flushIndexes() {
-        if (this._doCache && !this._isFlushing && Object.keys(this._secondaryIndexUpdates).length) {
-            this._isFlushing = true;
-            const indexes = _assign(this._secondaryIndexUpdates);
-            this._secondaryIndexUpdates = {};
-            fastALL(Object.keys(indexes), (table, i, done) => {
-                const PKs = indexes[table];
-                fastALL(PKs, (pk, ii, nextRow) => {
-                    this.adapterWrite(table, pk, _assign(this._secondaryIndexes[table].rows[pk]), nextRow);
-                }).then(done);
-            }).then(() => {
-                // flush indexes to database no more than every 100ms.
-                setTimeout(() => {
-                    this._isFlushing = false;
-                    this._flushIndexes();
-                }, 100);
-            });
+    private _flushWaiting: (() => void)[];
+
+    /**
+     * Write changed cached secondary indexes to the database.
+     * Nothing is written while a transaction is open, so the index tables never hold uncommitted changes.
+     *
+     * @param {() => void} [complete] called once the changes made so far are written
+     * @memberof _NanoSQLStorage
+     */
+    public _flushIndexes(complete?: () => void) {
+        if (complete) {
+            this._flushWaiting.push(complete);
+        }
+        if (this._isFlushing || (this._transaction && this._transaction.state === "open")) {
+            return;
+        }
+        const waiting = this._flushWaiting;
+        this._flushWaiting = [];
+        if (!this._doCache || !Object.keys(this._secondaryIndexUpdates).length) {
+            waiting.forEach(cb => cb());
+            return;
         }
+        this._isFlushing = true;
+        const indexes = _assign(this._secondaryIndexUpdates);
+        this._secondaryIndexUpdates = {};
+        fastALL(Object.keys(indexes), (table, i, done) => {
+            const PKs = indexes[table];
+            fastALL(PKs, (pk, ii, nextRow) => {
+                const indexRow = this._secondaryIndexes[table].rows[pk];
+                if (indexRow) {
+                    this._adapterWrite(table, pk, _assign(indexRow), nextRow);
+                } else {
+                    this._adapterDelete(table, pk, nextRow);
+                }
+            }).then(done);
+        }).then(() => {
+            waiting.forEach(cb => cb());
+            // flush indexes to database no more than every 100ms.
+            setTimeout(() => {
+                this._isFlushing = false;
+                this._flushIndexes();
+            }, 100);
+        });
     }
 
     /**
@@ -527,6 +735,13 @@ export class _NanoSQLStorage {
             this._id = hash(JSON.stringify(dataModels)).toString();
         }
 
+        dataModels[transactionJournal] = [
+            { key: "id", type: "string", props: ["pk()"] },
+            { key: "table", type: "string" },
+            { key: "pk", type: "any" },
+            { key: "row", type: "any" }
+        ];
+
         this.models = this._createIndexTables(dataModels);
 
         this._tableNames = Object.keys(this.models);
@@ -626,33 +841,25 @@ export class _NanoSQLStorage {
                 done();
             });
         }).then(() => {
+            return new Promise((res, rej) => {
+                this._recoverTransaction(res);
+            });
+        }).then(() => {
 
             // populate trie data
             fastALL(Object.keys(this._trieIndexes), (table, i, tableDone) => {
-                const trieColumns = this._trieIndexes[table];
-                if (Object.keys(trieColumns).length) {
-                    fastALL(Object.keys(trieColumns), (column, ii, nextColumn) => {
-                        const idxTable = "_" + table + "_idx_" + column;
-                        this.adapters[0].adapter.getIndex(idxTable, false, (index: any[]) => {
-                            index.forEach((value) => {
-                                this._trieIndexes[table][column].addWord(String(value));
-                            });
-                            nextColumn();
-                        });
-                    }).then(tableDone);
-                } else {
-                    tableDone();
-                }
+                this._buildTries(table, tableDone);
             }).then(() => {
                 // populate cached secondary indexes from persistent storage
                 if (this._doCache) {
                     fastALL(Object.keys(this.tableInfo), (table, i, next) => {
-                        fastALL(this.tableInfo[table]._secondaryIndexes, (column, ii, nextCol) => {
-                            const idxTable = "_" + table + "_idx_" + column;
+                        fastALL(this._indexes(table), (column, ii, nextCol) => {
+                            const idxTable = this._indexTable(table, column);
                             this.adapters[0].adapter.getIndex(idxTable, false, (index: any[]) => {
-                                this._secondaryIndexes[idxTable].idx = index;
+                                // the cache is updated in place, don't share arrays with the adapter
+                                this._secondaryIndexes[idxTable].idx = this.tableInfo[table]._compoundIndexes[column] ? this._sortCompoundIndex(index.slice()) : index.slice();
                                 this.adapters[0].adapter.rangeRead(idxTable, (row, i, nextRow) => {
-                                    this._secondaryIndexes[idxTable].rows[row.id] = row;
+                                    this._secondaryIndexes[idxTable].rows[row.id] = { id: row.id, rows: row.rows.slice() };
                                     nextRow();
                                 }, nextCol);
                             });
@@ -668,6 +875,62 @@ export class _NanoSQLStorage {
         });
     }
 
+    /**
+     * Roll back a transaction the database was closed in the middle of, every row in the journal table is put back.
+     * Cached secondary indexes aren't written while a transaction is open so the index tables don't need any changes.
+     *
+     * @internal
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    private _recoverTransaction(complete: () => void) {
+        let entries: any[] = [];
+        this.adapters[0].adapter.rangeRead(transactionJournal, (entry, idx, next) => {
+            if (entry) {
+                entries.push(entry);
+            }
+            next();
+        }, () => {
+            if (!entries.length) {
+                complete();
+                return;
+            }
+            fastALL(entries, (entry, i, done) => {
+                if (entry.row) {
+                    this._adapterWrite(entry.table, entry.pk, entry.row, () => done());
+                } else {
+                    this._adapterDelete(entry.table, entry.pk, done);
+                }
+            }).then(() => {
+                this._adapterDrop(transactionJournal, complete);
+            });
+        });
+    }
+
+    /**
+     * Fill the trie indexes of a table from the values in it's secondary index tables.
+     *
+     * @internal
+     * @param {string} table
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    private _buildTries(table: string, complete: () => void) {
+        const trieColumns = this._trieIndexes[table];
+        fastALL(Object.keys(trieColumns || {}), (column, ii, nextColumn) => {
+            const idxTable = "_" + table + "_idx_" + column;
+            this._trieIndexes[table][column] = new Trie([]);
+            this.adapters[0].adapter.getIndex(idxTable, false, (index: any[]) => {
+                index.forEach((value) => {
+                    this._trieIndexes[table][column].addWord(String(value));
+                });
+                nextColumn();
+            });
+        }).then(() => {
+            complete();
+        });
+    }
+
     /**
      * Rebuild secondary indexes of a given table.
      * Pass "_ALL_" as table to rebuild all indexes.
@@ -682,10 +945,11 @@ export class _NanoSQLStorage {
                 tableDone();
                 return;
             }
-            const secondIndexes = this.tableInfo[ta]._secondaryIndexes;
+            const secondIndexes = this._indexes(ta);
             fastALL(secondIndexes, (column, j, idxDone) => {
-                const idxTable = "_" + ta + "_idx_" + column;
+                const idxTable = this._indexTable(ta, column);
 
+                this._journalIndex(idxTable);
                 this._secondaryIndexes[idxTable].idx = [];
                 this._secondaryIndexes[idxTable].rows = {};
                 this._secondaryIndexUpdates[idxTable] = [];
@@ -698,8 +962,15 @@ export class _NanoSQLStorage {
                         [group: string]: any[] // rows
                     }
                 } = {};
+                // object keys are strings, keep the index values to write them with their original type
+                let indexValues: {
+                    [secondIndex: string]: {
+                        [group: string]: any
+                    }
+                } = {};
                 secondIndexes.forEach((column) => {
                     indexGroups[column] = {};
+                    indexValues[column] = {};
                 });
 
                 this._read(ta, (row, idx, done) => {
@@ -708,13 +979,15 @@ export class _NanoSQLStorage {
                         return;
                     }
                     secondIndexes.forEach((column) => {
-                        if (!row[column]) {
+                        const key = this.tableInfo[ta]._compoundIndexes[column] || this.tableInfo[ta]._geoIndexes[column] ? this._indexKey(ta, column, row) : row[column];
+                        if (!key) {
                             return;
                         }
-                        if (!indexGroups[column][row[column]]) {
-                            indexGroups[column][row[column]] = [];
+                        if (!indexGroups[column][key]) {
+                            indexGroups[column][key] = [];
+                            indexValues[column][key] = key;
                         }
-                        indexGroups[column][row[column]].push(row[pk]);
+                        indexGroups[column][key].push(row[pk]);
                     });
                     done(false);
 
@@ -724,19 +997,32 @@ export class _NanoSQLStorage {
                 }, () => {
 
                     fastALL(secondIndexes, (item, i, done) => {
-                        const idxTable = "_" + ta + "_idx_" + item;
+                        const idxTable = this._indexTable(ta, item);
+                        if (this._trieIndexes[ta][item]) {
+                            this._trieIndexes[ta][item] = new Trie([]);
+                            Object.keys(indexGroups[item]).forEach((value) => {
+                                this._trieIndexes[ta][item].addWord(value);
+                            });
+                        }
                         if (this._doCache) {
-                            Object.keys(indexGroups[item]).forEach((rowKey, i) => {
+                            Object.keys(indexGroups[item]).forEach((group, i) => {
+                                const rowKey = indexValues[item][group];
                                 this._secondaryIndexUpdates[idxTable].push(rowKey);
                                 this._secondaryIndexes[idxTable].idx.push(rowKey);
-                                this._secondaryIndexes[idxTable].rows[rowKey] = {id: rowKey, rows: indexGroups[item][rowKey]};
+                                this._secondaryIndexes[idxTable].rows[rowKey] = {id: rowKey, rows: indexGroups[item][group]};
                             });
+                            if (this.tableInfo[ta]._compoundIndexes[item]) {
+                                this._secondaryIndexes[idxTable].idx = this._sortCompoundIndex(this._secondaryIndexes[idxTable].idx);
+                            } else {
+                                // cursors and range reads expect the cached keys in order
+                                this._secondaryIndexes[idxTable].idx.sort((a, b) => a > b ? 1 : a < b ? -1 : 0);
+                            }
                             done();
                         } else {
-                            fastALL(Object.keys(indexGroups[item]), (rowKey, i, next) => {
-                                this.adapterWrite(idxTable, rowKey, {
-                                    id: rowKey,
-                                    rows: indexGroups[item][rowKey].sort()
+                            fastALL(Object.keys(indexGroups[item]), (group, i, next) => {
+                                this.adapterWrite(idxTable, indexValues[item][group], {
+                                    id: indexValues[item][group],
+                                    rows: indexGroups[item][group].sort()
                                 }, next);
                             }).then(done);
                         }
@@ -772,6 +1058,108 @@ export class _NanoSQLStorage {
         return String(value).substr(0, 32);
     }
 
+    /**
+     * Get every secondary and compound index of a table.
+     *
+     * @internal
+     * @param {string} table
+     * @returns {string[]}
+     * @memberof _NanoSQLStorage
+     */
+    private _indexes(table: string): string[] {
+        return this.tableInfo[table]._secondaryIndexes.concat(Object.keys(this.tableInfo[table]._compoundIndexes)).concat(Object.keys(this.tableInfo[table]._geoIndexes));
+    }
+
+    /**
+     * Get the columns a secondary, compound or geo index is built from.
+     *
+     * @internal
+     * @param {string} table
+     * @param {string} index
+     * @returns {string[]}
+     * @memberof _NanoSQLStorage
+     */
+    private _indexColumns(table: string, index: string): string[] {
+        return this.tableInfo[table]._compoundIndexes[index] || this.tableInfo[table]._geoIndexes[index] || [index];
+    }
+
+    /**
+     * Get the name of the table holding a secondary or compound index.
+     *
+     * @internal
+     * @param {string} table
+     * @param {string} index column or compound index name
+     * @returns {string}
+     * @memberof _NanoSQLStorage
+     */
+    private _indexTable(table: string, index: string): string {
+        const geoColumns = this.tableInfo[table]._geoIndexes[index];
+        if (geoColumns) {
+            return "_" + table + "_geo_" + geoColumns.join("_");
+        }
+        const columns = this.tableInfo[table]._compoundIndexes[index];
+        return columns ? "_" + table + "_cidx_" + columns.join("_") : "_" + table + "_idx_" + index;
+    }
+
+    /**
+     * Get the secondary index primary key of a row.
+     * Compound indexes use the stringified array of the row's values, missing values are indexed as null.
+     * Geo indexes use the geohash of the row's coordinates, rows without valid coordinates aren't indexed.
+     *
+     * @internal
+     * @param {string} table
+     * @param {string} index
+     * @param {DBRow} row
+     * @returns {(string | number)}
+     * @memberof _NanoSQLStorage
+     */
+    private _indexKey(table: string, index: string, row: DBRow): string | number | undefined {
+        const geoColumns = this.tableInfo[table]._geoIndexes[index];
+        if (geoColumns) {
+            const lat = row[geoColumns[0]];
+            const lon = row[geoColumns[1]];
+            if (typeof lat !== "number" || typeof lon !== "number" || !(Math.abs(lat) <= 90) || !(Math.abs(lon) <= 180)) {
+                return undefined;
+            }
+            return geoHash(lat, lon, geoPrecision);
+        }
+        const columns = this.tableInfo[table]._compoundIndexes[index];
+        if (!columns) {
+            return this._secondaryIndexKey(row[index]);
+        }
+        return JSON.stringify(columns.map(c => this._compoundIndexValue(row[c])));
+    }
+
+    /**
+     * Get the value a compound index key holds for a column, values aren't shortened so the index can be trusted for both matching and order.
+     *
+     * @internal
+     * @param {*} value
+     * @returns {(string | number | null)}
+     * @memberof _NanoSQLStorage
+     */
+    private _compoundIndexValue(value: any): string | number | null {
+        if (value === undefined || value === null) {
+            return null;
+        }
+        if (typeof value === "number") {
+            return value;
+        }
+        return isObject(value) || Array.isArray(value) ? JSON.stringify(value) : String(value);
+    }
+
+    /**
+     * Sort the stringified keys of a compound index.
+     *
+     * @internal
+     * @param {string[]} index
+     * @returns {string[]}
+     * @memberof _NanoSQLStorage
+     */
+    private _sortCompoundIndex(index: string[]): string[] {
+        return index.map(k => ({ k: k, v: JSON.parse(k) })).sort((a, b) => compareIndexKeys(a.v, b.v)).map(k => k.k);
+    }
+
     /**
      * Use variouse methods to detect the best persistent storage method for the environment NanoSQL is in.
      *
@@ -822,33 +1210,9 @@ export class _NanoSQLStorage {
      */
     public _secondaryIndexRead(table: string, condition: string, column: string, search: string, callback: (rows: DBRow[]) => void) {
 
-        const getSecondaryIndex = (table: string, pks: any[], cb: (rows: {id: any, rows: any[]}[]) => void) => {
-            if (this._doCache) {
-                cb(pks.map(pk => this._secondaryIndexes[table].rows[pk]).filter(r => r));
-            } else {
-                if (pks.length === 1) {
-                    this.adapters[0].adapter.read(table, pks[0], (row) => {
-                        cb([row as any]);
-                    });
-                } else {
-                    this._read(table, pks as any, (rows) => {
-                        cb(rows as any);
-                    });
-                }
-            }
-        };
-
-        const getSecondaryIndexKeys = (table: string, cb: (index: any[]) => void) => {
-            if (this._doCache) {
-                cb(this._secondaryIndexes[table].idx);
-            } else {
-                this.adapters[0].adapter.getIndex(table, false, cb);
-            }
-        };
-
         switch (condition) {
             case "=":
-                getSecondaryIndex("_" + table + "_idx_" + column, [this._secondaryIndexKey(search) as any], (rows: any[]) => {
+                this._getIndexRows("_" + table + "_idx_" + column, [this._secondaryIndexKey(search) as any], (rows: any[]) => {
                     if (rows[0] !== undefined && rows[0] !== null) {
                         this._read(table, (rows[0]["rows"] || []) as any, (rows) => {
                             callback(rows);
@@ -860,7 +1224,7 @@ export class _NanoSQLStorage {
                 break;
             default:
 
-                getSecondaryIndexKeys("_" + table + "_idx_" + column, (index: any[]) => {
+                this._getIndexKeys("_" + table + "_idx_" + column, (index: any[]) => {
                     const searchVal = this._secondaryIndexKey(search);
                     const getPKs = index.filter((val) => {
                         switch (condition) {
@@ -876,7 +1240,7 @@ export class _NanoSQLStorage {
                         callback([]);
                         return;
                     }
-                    getSecondaryIndex("_" + table + "_idx_" + column, getPKs as any, (rows) => {
+                    this._getIndexRows("_" + table + "_idx_" + column, getPKs as any, (rows) => {
                         const rowPKs = [].concat.apply([], rows.map(r => r.rows));
                         if (!rowPKs.length) {
                             callback([]);
@@ -896,43 +1260,577 @@ export class _NanoSQLStorage {
     }
 
     /**
-     * Get a range of rows from a given table.
-     * If usePKs is false the range is in limit/offset form where the from and to values are numbers indicating a range of rows to get.
-     * Otherwise the from and to values should be primary key values to get everything in between.
+     * Get rows from a table using a compound index.
+     * The first values of the index are matched against the equal array, the next one (if any) is checked against the range.
+     * Rows are returned in the order of the index.
      *
      * @param {string} table
-     * @param {DBKey} from
-     * @param {DBKey} to
-     * @param {(rows: DBRow[]) => void} complete
+     * @param {string} index compound index name
+     * @param {any[]} equal
+     * @param {({ lower?: [any, boolean], upper?: [any, boolean] } | undefined)} range [value, inclusive] for each bound
+     * @param {(rows: DBRow[]) => void} callback
      * @memberof _NanoSQLStorage
      */
-    public _rangeRead(table: string, from: any, to: any, usePKs: boolean, complete: (rows: DBRow[]) => void) {
+    public _compoundIndexRead(table: string, index: string, equal: any[], range: { lower?: [any, boolean], upper?: [any, boolean] } | undefined, callback: (rows: DBRow[]) => void) {
+        const idxTable = this._indexTable(table, index);
+        const columns = this.tableInfo[table]._compoundIndexes[index];
+        const values = equal.map(v => this._compoundIndexValue(v));
+
+        const readRows = (keys: string[], indexRows: { id: any, rows: any[] }[]) => {
+            // index rows might not come back in the order they were asked for
+            const indexRowMap = {};
+            indexRows.forEach((r) => {
+                indexRowMap[r.id] = r.rows;
+            });
+            const rowPKs: any[] = [].concat.apply([], keys.map(k => indexRowMap[k] || []));
+            if (!rowPKs.length) {
+                callback([]);
+                return;
+            }
+            const pk = this.tableInfo[table]._pk;
+            this._read(table, rowPKs as any, (rows) => {
+                const rowMap = {};
+                rows.forEach((r) => {
+                    rowMap[r[pk]] = r;
+                });
+                callback(rowPKs.map(k => rowMap[k]).filter(r => r));
+            });
+        };
 
-        let rows: any[] = [];
-        this.adapters[0].adapter.rangeRead(table, (row, idx, next) => {
-            rows.push(row);
+        // every column is matched, there's only one key to read
+        if (values.length === columns.length) {
+            const key = JSON.stringify(values);
+            this._getIndexRows(idxTable, [key], (indexRows) => {
+                readRows([key], indexRows);
+            });
+            return;
+        }
+
+        // keys from the first one past the lower bound (or past the nulls of the range column) to the last one before the upper bound
+        const lowerKey = JSON.stringify(range ? values.concat([range.lower ? this._compoundIndexValue(range.lower[0]) : null]) : values);
+        const lowerAfter = range ? !range.lower || !range.lower[1] : false;
+        const upperKey = JSON.stringify(range && range.upper ? values.concat([this._compoundIndexValue(range.upper[0])]) : values);
+        const upperAfter = range && range.upper ? range.upper[1] : true;
+
+        if (this._doCache) {
+            const idx: string[] = this._secondaryIndexes[idxTable].idx;
+            const keys = idx.slice(compoundIndexLocation(idx, lowerKey, lowerAfter), compoundIndexLocation(idx, upperKey, upperAfter));
+            if (!keys.length) {
+                callback([]);
+                return;
+            }
+            this._getIndexRows(idxTable, keys, (indexRows) => {
+                readRows(keys, indexRows);
+            });
+            return;
+        }
+
+        // keys are stored in string order, the ones starting with the equal values are next to each other
+        const prefix = JSON.stringify(values).slice(0, -1) + (values.length ? "," : "");
+        let indexRows: { id: any, rows: any[] }[] = [];
+        this.adapters[0].adapter.rangeRead(idxTable, (row, idx, next) => {
+            if (row && String(row.id).indexOf(prefix) === 0) {
+                indexRows.push(row as any);
+            }
             next();
         }, () => {
-            complete(rows);
-        }, from, to, usePKs);
+            const idx = this._sortCompoundIndex(indexRows.map(r => r.id));
+            readRows(idx.slice(compoundIndexLocation(idx, lowerKey, lowerAfter), compoundIndexLocation(idx, upperKey, upperAfter)), indexRows);
+        }, prefix, prefix + "\uffff", true);
     }
 
     /**
-     * Full table scan if a function is passed in OR read an array of primary keys.
+     * Get the number of indexed rows and their total tokens for a search() column.
      *
      * @param {string} table
-     * @param {(row: DBRow, idx: number, toKeep: (result: boolean) => void) => void} query
-     * @param {(rows: DBRow[]) => void} callback
-     * @returns
+     * @param {string} column
+     * @param {(stats: { docs: number, length: number }) => void} callback
      * @memberof _NanoSQLStorage
      */
-    public _read(table: string, query: (row: DBRow, idx: number, toKeep: (result: boolean) => void) => void | any[], callback: (rows: DBRow[]) => void) {
-
-        if (Array.isArray(query)) { // select by array of primary keys
-
-            const batchRead = this.adapters[0].adapter.batchRead;
-            if (batchRead) {
-                batchRead.apply(this.adapters[0].adapter, [table, query as any, callback]);
+    public _getSearchStats(table: string, column: string, callback: (stats: { docs: number, length: number }) => void) {
+        if (this._searchStats[table] && this._searchStats[table][column]) {
+            callback(this._searchStats[table][column]);
+            return;
+        }
+        let stats = { docs: 0, length: 0 };
+        this.adapters[0].adapter.rangeRead("_" + table + "_search_tokens_" + column, (row, idx, next) => {
+            stats.docs++;
+            stats.length += row.tokens.length;
+            next();
+        }, () => {
+            if (!this._searchStats[table]) {
+                this._searchStats[table] = {};
+            }
+            this._searchStats[table][column] = stats;
+            callback(stats);
+        });
+    }
+
+    /**
+     * Update the search stats of a column after a row is added to or removed from it's search index.
+     * Columns that haven't been searched yet are skipped, their stats are read when they're first needed.
+     *
+     * @param {string} table
+     * @param {string} column
+     * @param {number} docs change in the number of rows
+     * @param {number} length change in the number of tokens
+     * @memberof _NanoSQLStorage
+     */
+    public _updateSearchStats(table: string, column: string, docs: number, length: number) {
+        const stats = this._searchStats[table] && this._searchStats[table][column];
+        if (stats) {
+            stats.docs += docs;
+            stats.length += length;
+        }
+    }
+
+    /**
+     * Get when a row of a ttl() or expiresAt table expires, undefined if it never does.
+     * ttl() columns hold the time the row was written, expiresAt columns hold the expiry time itself.
+     *
+     * @param {string} table
+     * @param {DBRow} row
+     * @returns {(number|undefined)}
+     * @memberof _NanoSQLStorage
+     */
+    public _rowExpiry(table: string, row: DBRow): number | undefined {
+        const info = this.tableInfo[table];
+        // soft deleted rows are already hidden, they're removed with a purge query
+        const value = row && (!info._softDelete || row._deletedAt === undefined) ? row[info._ttlColumn] : undefined;
+        if (value === undefined || value === null || value === "") {
+            return undefined;
+        }
+        const time = typeof value === "number" ? value : new Date(value).getTime();
+        return isNaN(time) ? undefined : time + info._ttlSeconds * 1000;
+    }
+
+    /**
+     * Update when a row expires after it's written or deleted, a missing row never expires.
+     * Tables that haven't been read into the expiry list yet are skipped.
+     *
+     * @param {string} table
+     * @param {DBKey} pk
+     * @param {DBRow} [row]
+     * @memberof _NanoSQLStorage
+     */
+    public _updateExpiry(table: string, pk: DBKey, row?: DBRow) {
+        const expiry = this._expiry[table];
+        if (!expiry) {
+            return;
+        }
+        const at = row ? this._rowExpiry(table, row) : undefined;
+        if (at === undefined) {
+            delete expiry[String(pk)];
+            return;
+        }
+        expiry[String(pk)] = { pk: pk, at: at };
+        if (!this._expiryTimers[table] || at < this._expiryTimers[table].at) {
+            this._scheduleExpiry(table);
+        }
+    }
+
+    /**
+     * Delete the expired rows of a table.
+     * The rows are removed with a normal delete query so indexes, search tokens and ORM relations are cleaned up,
+     * the query has the "_expired_" comment so it's events are tagged as expiry.
+     *
+     * @param {string} table
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    public _purgeExpired(table: string, complete: () => void) {
+
+        // a purge is already running, wait for it
+        if (this._expiring[table]) {
+            this._expiring[table].push(complete);
+            return;
+        }
+        this._expiring[table] = [complete];
+
+        const done = () => {
+            const waiting = this._expiring[table];
+            delete this._expiring[table];
+            this._scheduleExpiry(table);
+            waiting.forEach(cb => cb());
+        };
+
+        this._readExpiry(table, (expiry) => {
+            const now = Date.now();
+            const keys = Object.keys(expiry).filter(k => expiry[k].at <= now);
+            if (!keys.length) {
+                done();
+                return;
+            }
+            const finish = () => {
+                // rows that were already gone aren't deleted by the query, drop them here so they aren't purged again
+                keys.forEach((k) => {
+                    if (expiry[k] && expiry[k].at <= now) {
+                        delete expiry[k];
+                    }
+                });
+                done();
+            };
+            this._nsql.query("delete").where([this.tableInfo[table]._pk, "IN", keys.map(k => expiry[k].pk)]).comment("_expired_").manualExec({ table: table }).then(finish).catch(finish);
+        });
+    }
+
+    /**
+     * Stop the timers purging expired rows.
+     *
+     * @memberof _NanoSQLStorage
+     */
+    public _stopExpiry() {
+        Object.keys(this._expiryTimers).forEach((table) => {
+            clearTimeout(this._expiryTimers[table].timer);
+        });
+        this._expiryTimers = {};
+    }
+
+    /**
+     * Get the expiry list of a table, reading it from the table the first time.
+     *
+     * @internal
+     * @param {string} table
+     * @param {(expiry: { [pk: string]: { pk: DBKey, at: number } }) => void} callback
+     * @memberof _NanoSQLStorage
+     */
+    private _readExpiry(table: string, callback: (expiry: { [pk: string]: { pk: DBKey, at: number } }) => void) {
+        if (this._expiry[table]) {
+            callback(this._expiry[table]);
+            return;
+        }
+        // rows written while the table is read are already in the list and newer than what's read
+        const expiry = this._expiry[table] = {};
+        const pk = this.tableInfo[table]._pk;
+        this.adapters[0].adapter.rangeRead(table, (row, idx, next) => {
+            const at = this._rowExpiry(table, row);
+            if (at !== undefined && !expiry[String(row[pk])]) {
+                expiry[String(row[pk])] = { pk: row[pk], at: at };
+            }
+            next();
+        }, () => {
+            callback(expiry);
+        });
+    }
+
+    /**
+     * Set a timer to purge the next rows of a table to expire.
+     *
+     * @internal
+     * @param {string} table
+     * @memberof _NanoSQLStorage
+     */
+    private _scheduleExpiry(table: string) {
+        if (this._expiryTimers[table]) {
+            clearTimeout(this._expiryTimers[table].timer);
+            delete this._expiryTimers[table];
+        }
+        const expiry = this._expiry[table] || {};
+        const next = Object.keys(expiry).reduce((prev, k) => Math.min(prev, expiry[k].at), Infinity);
+        if (next === Infinity) {
+            return;
+        }
+        // timers can't wait longer than about 24 days, they just check again
+        const timer: any = setTimeout(() => {
+            delete this._expiryTimers[table];
+            this._purgeExpired(table, () => { });
+        }, Math.max(0, Math.min(next - Date.now(), 2147483647)));
+        // don't keep node processes running just to purge rows
+        if (timer && timer.unref) {
+            timer.unref();
+        }
+        this._expiryTimers[table] = { timer: timer, at: next };
+    }
+
+    /**
+     * Get the rows in the geohash cells touching a bounding box using a geo index.
+     * Rows near the edge of the cells can be outside the box, they should be checked against the exact box or distance.
+     *
+     * @param {string} table
+     * @param {string} index geo index name, ie: "geo(lat,lon)"
+     * @param {number[]} box [south, west, north, east]
+     * @param {(rows: DBRow[]) => void} callback
+     * @memberof _NanoSQLStorage
+     */
+    public _geoRead(table: string, index: string, box: number[], callback: (rows: DBRow[]) => void) {
+        const idxTable = this._indexTable(table, index);
+        const cells = geoHashCells(box[0], box[1], box[2], box[3], geoPrecision);
+
+        this._getIndexKeys(idxTable, (keys: any[]) => {
+            let cellKeys: any[] = [];
+            cells.forEach((cell) => {
+                // keys starting with the cell's hash are next to each other
+                let i = binarySearch(keys, cell);
+                while (i > 0 && keys[i - 1] >= cell) i--;
+                while (i < keys.length && keys[i] < cell) i++;
+                while (i < keys.length && String(keys[i]).indexOf(cell) === 0) {
+                    cellKeys.push(keys[i]);
+                    i++;
+                }
+            });
+            if (!cellKeys.length) {
+                callback([]);
+                return;
+            }
+            this._getIndexRows(idxTable, cellKeys, (indexRows) => {
+                const pks = removeDuplicates([].concat.apply([], indexRows.map(r => r.rows)).sort());
+                if (!pks.length) {
+                    callback([]);
+                    return;
+                }
+                this._read(table, pks as any, callback);
+            });
+        });
+    }
+
+    /**
+     * Read a page of rows in order of the primary key or a secondary index, starting after a cursor.
+     * The read seeks to the cursor and stops once the page is full, so deep pages cost the same as the first one.
+     * Rows with the same secondary index value are ordered by their primary key.
+     *
+     * @param {string} table
+     * @param {string} column primary key or secondary index column to order by
+     * @param {boolean} desc
+     * @param {([any, any] | undefined)} after [index key, primary key] of the last row of the previous page
+     * @param {number} limit
+     * @param {(row: DBRow) => boolean} filter rows that don't pass are skipped
+     * @param {(rows: DBRow[], keys: any[]) => void} callback gets the rows and the index key of each one
+     * @memberof _NanoSQLStorage
+     */
+    public _cursorRead(table: string, column: string, desc: boolean, after: [any, any] | undefined, limit: number, filter: (row: DBRow) => boolean, callback: (rows: DBRow[], keys: any[]) => void) {
+        const pk = this.tableInfo[table]._pk;
+        const isPK = column === pk;
+        const idxTable = this._indexTable(table, column);
+        const compare = (a: any, b: any) => a === b ? 0 : a > b ? 1 : -1;
+
+        let rows: DBRow[] = [];
+        let rowKeys: any[] = [];
+
+        // adds the rows of an index key to the page, false once it's full
+        const addRows = (key: any, keyRows: DBRow[]): boolean => {
+            keyRows.forEach((row) => {
+                if (rows.length < limit && filter(row)) {
+                    rows.push(row);
+                    rowKeys.push(key);
+                }
+            });
+            return rows.length < limit;
+        };
+
+        // completes with the rows of an index key in order, leaving out the ones up to the cursor
+        const readKey = (key: any, pks: any[], cb: (keyRows: DBRow[]) => void) => {
+            let keyPKs = pks.slice().sort(compare);
+            if (desc) keyPKs.reverse();
+            if (after && key === after[0]) {
+                keyPKs = keyPKs.filter(p => compare(p, after[1]) === (desc ? -1 : 1));
+            }
+            if (!keyPKs.length) {
+                cb([]);
+                return;
+            }
+            this._read(table, keyPKs as any, (found) => {
+                let rowMap = {};
+                found.forEach((r) => {
+                    if (r) rowMap[r[pk]] = r;
+                });
+                cb(keyPKs.map(p => rowMap[p]).filter(r => r));
+            });
+        };
+
+        // cached secondary indexes are kept sorted in memory
+        if (!isPK && this._doCache) {
+            const keys: any[] = this._secondaryIndexes[idxTable].idx;
+
+            // first key that isn't before the cursor
+            let pos = 0;
+            if (after) {
+                let high = keys.length;
+                while (pos < high) {
+                    const mid = Math.floor((pos + high) / 2);
+                    if (compare(keys[mid], after[0]) < 0) {
+                        pos = mid + 1;
+                    } else {
+                        high = mid;
+                    }
+                }
+            }
+
+            let i = desc ? (after ? (keys[pos] === after[0] ? pos : pos - 1) : keys.length - 1) : pos;
+            let keysRead = 0;
+            const nextKey = () => {
+                if (i < 0 || i >= keys.length) {
+                    callback(rows, rowKeys);
+                    return;
+                }
+                const key = keys[i];
+                i += desc ? -1 : 1;
+                const indexRow = this._secondaryIndexes[idxTable].rows[key];
+                readKey(key, indexRow ? indexRow.rows : [], (keyRows) => {
+                    if (!addRows(key, keyRows)) {
+                        callback(rows, rowKeys);
+                        return;
+                    }
+                    keysRead++;
+                    keysRead % 100 === 0 ? setFast(nextKey) : nextKey(); // handle maximum call stack error
+                });
+            };
+            nextKey();
+            return;
+        }
+
+        // seek to the cursor in the table or index table, the cursor's key is read again since other rows can share it
+        let full = false;
+        this.adapters[0].adapter.rangeRead(isPK ? table : idxTable, (row, idx, nextRow) => {
+            // adapters might not stop reading when asked to
+            if (full || !row) {
+                nextRow(full);
+                return;
+            }
+            const key = isPK ? row[pk] : row.id;
+            if (after && compare(key, after[0]) === (desc ? 1 : -1)) {
+                nextRow();
+                return;
+            }
+            if (isPK) {
+                full = after !== undefined && key === after[0] ? false : !addRows(key, [row]);
+                nextRow(full);
+                return;
+            }
+            readKey(key, row.rows || [], (keyRows) => {
+                full = !addRows(key, keyRows);
+                nextRow(full);
+            });
+        }, () => {
+            callback(rows, rowKeys);
+        }, desc || !after ? undefined : after[0], desc && after ? after[0] : undefined, true, undefined, desc);
+    }
+
+    /**
+     * Get the unique values of a secondary index column from it's index table, sorted.
+     * Completes with undefined if the index can't give the exact values:
+     * - The column isn't a number or string column.
+     * - Some rows aren't indexed because their value is an empty string.
+     * - Keys might be truncated or stand in for null and undefined.
+     *
+     * @param {string} table
+     * @param {string} column
+     * @param {((values: any[] | undefined) => void)} callback
+     * @memberof _NanoSQLStorage
+     */
+    public _distinctIndexValues(table: string, column: string, callback: (values: any[] | undefined) => void) {
+        const model = this.models[table].filter(m => m.key === column)[0];
+        const numeric = model !== undefined && ["int", "float", "number"].indexOf(model.type) !== -1;
+        if (!model || (!numeric && model.type !== "string")) {
+            callback(undefined);
+            return;
+        }
+
+        const idxTable = this._indexTable(table, column);
+        this._getIndexKeys(idxTable, (index: any[]) => {
+            const exact = index.filter(key => numeric ? typeof key !== "number" : (["null", "undefined"].indexOf(key) !== -1 || String(key).length >= 32)).length === 0;
+            if (!exact) {
+                callback(undefined);
+                return;
+            }
+
+            const checkCount = (values: any[], indexed: number) => {
+                this.adapters[0].adapter.getIndex(table, true, (count: number) => {
+                    callback(count === indexed ? values.sort((a, b) => a > b ? 1 : -1) : undefined);
+                });
+            };
+
+            if (!index.length) {
+                checkCount([], 0);
+                return;
+            }
+
+            this._getIndexRows(idxTable, index, (indexRows) => {
+                // deleted values leave their index row behind with no rows in it
+                const used = indexRows.filter(r => r.rows.length);
+                checkCount(used.map(r => r.id), used.reduce((prev, cur) => prev + cur.rows.length, 0));
+            });
+        });
+    }
+
+    /**
+     * Get the rows of a secondary index table given their primary keys.
+     *
+     * @internal
+     * @param {string} idxTable
+     * @param {any[]} pks
+     * @param {(rows: { id: any, rows: any[] }[]) => void} cb
+     * @memberof _NanoSQLStorage
+     */
+    private _getIndexRows(idxTable: string, pks: any[], cb: (rows: { id: any, rows: any[] }[]) => void) {
+        if (this._doCache) {
+            cb(pks.map(pk => this._secondaryIndexes[idxTable].rows[pk]).filter(r => r));
+        } else {
+            if (pks.length === 1) {
+                this.adapters[0].adapter.read(idxTable, pks[0], (row) => {
+                    cb(row ? [row as any] : []);
+                });
+            } else {
+                this._read(idxTable, pks as any, (rows) => {
+                    cb(rows as any);
+                });
+            }
+        }
+    }
+
+    /**
+     * Get the primary keys of a secondary index table.
+     *
+     * @internal
+     * @param {string} idxTable
+     * @param {(index: any[]) => void} cb
+     * @memberof _NanoSQLStorage
+     */
+    private _getIndexKeys(idxTable: string, cb: (index: any[]) => void) {
+        if (this._doCache) {
+            cb(this._secondaryIndexes[idxTable].idx);
+        } else {
+            this.adapters[0].adapter.getIndex(idxTable, false, cb);
+        }
+    }
+
+    /**
+     * Get a range of rows from a given table.
+     * If usePKs is false the range is in limit/offset form where the from and to values are numbers indicating a range of rows to get.
+     * Otherwise the from and to values should be primary key values to get everything in between.
+     *
+     * @param {string} table
+     * @param {DBKey} from
+     * @param {DBKey} to
+     * @param {(rows: DBRow[]) => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    public _rangeRead(table: string, from: any, to: any, usePKs: boolean, complete: (rows: DBRow[]) => void) {
+
+        let rows: any[] = [];
+        this.adapters[0].adapter.rangeRead(table, (row, idx, next) => {
+            rows.push(row);
+            next();
+        }, () => {
+            complete(rows);
+        }, from, to, usePKs);
+    }
+
+    /**
+     * Full table scan if a function is passed in OR read an array of primary keys.
+     *
+     * @param {string} table
+     * @param {(row: DBRow, idx: number, toKeep: (result: boolean) => void) => void} query
+     * @param {(rows: DBRow[]) => void} callback
+     * @returns
+     * @memberof _NanoSQLStorage
+     */
+    public _read(table: string, query: (row: DBRow, idx: number, toKeep: (result: boolean) => void) => void | any[], callback: (rows: DBRow[]) => void) {
+
+        if (Array.isArray(query)) { // select by array of primary keys
+
+            const batchRead = this.adapters[0].adapter.batchRead;
+            if (batchRead) {
+                batchRead.apply(this.adapters[0].adapter, [table, query as any, callback]);
             } else {
                 // possibly (but not always) slower fallback
                 fastALL(query, (q, i, result) => {
@@ -996,8 +1894,12 @@ export class _NanoSQLStorage {
 
         if (this._doCache) {
             doColumns.forEach((idx) => {
-                const idxTable = "_" + table + "_idx_" + idx;
-                const column = this._secondaryIndexKey(rowData[idx]) as any;
+                const idxTable = this._indexTable(table, idx);
+                const column = this._indexKey(table, idx, rowData) as any;
+                if (column === undefined) {
+                    return;
+                }
+                this._journalIndex(idxTable);
                 if (!this._secondaryIndexUpdates[idxTable]) {
                     this._secondaryIndexUpdates[idxTable] = [];
                 }
@@ -1021,9 +1923,13 @@ export class _NanoSQLStorage {
         } else {
             fastALL(doColumns, (idx, k, done) => {
 
-                const column = this._secondaryIndexKey(rowData[idx]) as any;
+                const column = this._indexKey(table, idx, rowData) as any;
+                if (column === undefined) {
+                    done();
+                    return;
+                }
 
-                const idxTable = "_" + table + "_idx_" + idx;
+                const idxTable = this._indexTable(table, idx);
                 this.adapters[0].adapter.read(idxTable, column, (row) => {
                     if (!row) {
                         done();
@@ -1059,7 +1965,7 @@ export class _NanoSQLStorage {
         if (this._doCache) {
 
             doColumns.forEach((col, i) => {
-                const column = this._secondaryIndexKey(rowData[col]) as any;
+                const column = this._indexKey(table, col, rowData) as any;
 
                 if (typeof column === "undefined") {
                     return;
@@ -1070,7 +1976,8 @@ export class _NanoSQLStorage {
                 if (this._trieIndexes[table][col]) {
                     this._trieIndexes[table][col].addWord(String(rowData[col]));
                 }
-                const idxTable = "_" + table + "_idx_" + col;
+                const idxTable = this._indexTable(table, col);
+                this._journalIndex(idxTable);
                 if (!this._secondaryIndexUpdates[idxTable]) {
                     this._secondaryIndexUpdates[idxTable] = [];
                 }
@@ -1083,6 +1990,9 @@ export class _NanoSQLStorage {
                     if (this._secondaryIndexes[idxTable].sortIdx) {
                         const pos = binarySearch(this._secondaryIndexes[idxTable].idx, column);
                         this._secondaryIndexes[idxTable].idx.splice(pos, 0, column);
+                    } else if (this.tableInfo[table]._compoundIndexes[col]) {
+                        const pos = compoundIndexLocation(this._secondaryIndexes[idxTable].idx, column);
+                        this._secondaryIndexes[idxTable].idx.splice(pos, 0, column);
                     } else {
                         this._secondaryIndexes[idxTable].idx.push(column);
                     }
@@ -1095,7 +2005,7 @@ export class _NanoSQLStorage {
         } else {
             fastALL(doColumns, (col, i, done) => {
 
-                const column = this._secondaryIndexKey(rowData[col]) as any;
+                const column = this._indexKey(table, col, rowData) as any;
                 if (typeof column === "undefined") {
                     done();
                     return;
@@ -1109,7 +2019,7 @@ export class _NanoSQLStorage {
                     this._trieIndexes[table][col].addWord(String(rowData[col]));
                 }
 
-                const idxTable = "_" + table + "_idx_" + col;
+                const idxTable = this._indexTable(table, col);
                 this.adapters[0].adapter.read(idxTable, column, (row) => {
                     let indexRow: { id: DBKey, rows: any[] } = row ? (Object.isFrozen(row) ? _assign(row) : row) : { id: column, rows: [] };
                     indexRow.rows.push(pk);
@@ -1132,14 +2042,29 @@ export class _NanoSQLStorage {
      * @param {*} oldRow
      * @param {DBRow} newRow
      * @param {(row: DBRow) => void} complete
+     * @param {boolean} [replace] write newRow as it is instead of merging it into oldRow
      * @memberof _NanoSQLStorage
      */
-    public _write(table: string, pk: DBKey, oldRow: any, newRow: DBRow, complete: (row: DBRow) => void) {
+    public _write(table: string, pk: DBKey, oldRow: any, newRow: DBRow, complete: (row: DBRow) => void, replace?: boolean) {
+
+        const info = this.tableInfo[table];
+        if (info._ttlColumn) {
+            // ttl() columns are set to the write time unless the row has one
+            if (info._ttlSeconds && newRow[info._ttlColumn] === undefined) {
+                newRow = { ...newRow, [info._ttlColumn]: Date.now() };
+            }
+            const written = complete;
+            complete = (row) => {
+                this._updateExpiry(table, row[info._pk], row);
+                written(row);
+            };
+        }
 
         if (!oldRow) { // new row
             this.adapterWrite(table, pk, newRow, (row) => {
-                if (this.tableInfo[table]._secondaryIndexes.length) {
-                    this._setSecondaryIndexes(table, row[this.tableInfo[table]._pk], newRow, this.tableInfo[table]._secondaryIndexes, () => {
+                const indexes = this._indexes(table);
+                if (indexes.length) {
+                    this._setSecondaryIndexes(table, row[this.tableInfo[table]._pk], newRow, indexes, () => {
                         complete(row);
                     });
                 } else {
@@ -1149,17 +2074,21 @@ export class _NanoSQLStorage {
 
         } else { // existing row
 
+            // replaced rows don't keep the columns missing from the new row
             const setRow = {
-                ...oldRow,
+                ...(replace ? {} : oldRow),
                 ...newRow,
                 [this.tableInfo[table]._pk]: pk
             };
 
-            const doColumns = this.tableInfo[table]._secondaryIndexes.filter(col => Object.keys(setRow).filter((key) => {
+            const sameColumns = Object.keys(setRow).filter((key) => {
                 return setRow[key] === oldRow[key];
-            }).indexOf(col) === -1);
+            });
+
+            // compound and geo indexes need updating if any of their columns changed
+            const doColumns = this._indexes(table).filter(col => this._indexColumns(table, col).filter(c => sameColumns.indexOf(c) === -1).length);
 
-            if (this.tableInfo[table]._secondaryIndexes.length) {
+            if (this._indexes(table).length) {
                 fastALL([0, 1, 2], (idx, i, next) => {
                     switch (idx) {
                         case 0:
@@ -1203,13 +2132,14 @@ export class _NanoSQLStorage {
                 fastALL([0, 1], (job, ii, next) => {
                     switch (job) {
                         case 0:
-                            this._clearSecondaryIndexes(table, pk, row, this.tableInfo[table]._secondaryIndexes, next);
+                            this._clearSecondaryIndexes(table, pk, row, this._indexes(table), next);
                             break;
                         case 1:
                             this.adapterDelete(table, pk, next);
                             break;
                     }
                 }).then(() => {
+                    this._updateExpiry(table, pk);
                     complete(row);
                 });
             });
@@ -1230,11 +2160,12 @@ export class _NanoSQLStorage {
         tablesToDrop = tablesToDrop.concat(Object.keys(this.tableInfo[table]._searchColumns).map(t => "_" + table + "_search_fuzzy_" + t));
 
         // drop secondary indexes
-        const secondaryIdxs = this.tableInfo[table]._secondaryIndexes.map(t => "_" + table + "_idx_" + t);
+        const secondaryIdxs = this._indexes(table).map(t => this._indexTable(table, t));
         tablesToDrop = tablesToDrop.concat(secondaryIdxs);
 
         if (this._doCache) {
             secondaryIdxs.forEach((idxTable) => {
+                this._journalIndex(idxTable);
                 this._secondaryIndexes[idxTable].idx = [];
                 this._secondaryIndexes[idxTable].rows = {};
             });
@@ -1245,6 +2176,11 @@ export class _NanoSQLStorage {
         }).then(() => {
 
             this._trieIndexes[table] = {};
+            this._searchStats[table] = {};
+            if (this._expiry[table]) {
+                this._expiry[table] = {};
+                this._scheduleExpiry(table);
+            }
             this.tableInfo[table]._trieColumns.forEach((co) => {
                 this._trieIndexes[table][co] = new Trie([]);
             });
@@ -1272,7 +2208,7 @@ export class _NanoSQLStorage {
                     if (intersect(["pk", "pk()"], model.props)) {
                         pkType = model.key;
                     }
-                    if (intersect(["trie", "idx", "idx()", "trie()"], model.props)) {
+                    if (intersect(["trie", "idx", "idx()", "trie()", "unique", "unique()"], model.props)) {
                         hasIDX = true;
                         const isNumber = ["number", "float", "int"].indexOf(model.type) !== -1;
                         dataModels["_" + table + "_idx_" + model.key] = [
@@ -1300,6 +2236,33 @@ export class _NanoSQLStorage {
                     });
                 }
             });
+            compoundIndexColumns(this._nsql.tableProps[table]).forEach((columns) => {
+                columns.forEach((column) => {
+                    if (!dataModels[table].filter(m => m.key === column).length) {
+                        throw new Error(`nSQL: Compound index column "${column}" doesn't exist on table "${table}"!`);
+                    }
+                });
+                hasIDX = true;
+                dataModels["_" + table + "_cidx_" + columns.join("_")] = [
+                    { key: "id", type: "string", props: ["pk()"] },
+                    { key: "rows", type: "any[]" }
+                ];
+            });
+            geoIndexColumns(this._nsql.tableProps[table]).forEach((columns) => {
+                if (columns.length !== 2) {
+                    throw new Error(`nSQL: Geo indexes need a latitude and longitude column, ie: "geo(lat, lon)"!`);
+                }
+                columns.forEach((column) => {
+                    if (!dataModels[table].filter(m => m.key === column).length) {
+                        throw new Error(`nSQL: Geo index column "${column}" doesn't exist on table "${table}"!`);
+                    }
+                });
+                hasIDX = true;
+                dataModels["_" + table + "_geo_" + columns.join("_")] = [
+                    { key: "id", type: "string", props: ["pk()"] },
+                    { key: "rows", type: "any[]" }
+                ];
+            });
             if ((hasIDX || hasSearch) && !pkType) {
                 throw new Error("nSQL: Tables with secondary indexes or search() must have a primary key!");
             }
@@ -1326,12 +2289,19 @@ export class _NanoSQLStorage {
             _keys: [],
             _defaults: [],
             _secondaryIndexes: [],
+            _compoundIndexes: {},
+            _geoIndexes: {},
+            _uniqueColumns: [],
             _hasDefaults: false,
+            _hasValidation: !!this._nsql.getConfig().strict && tableName.indexOf("_") !== 0,
             _trieColumns: [],
             _name: tableName,
             _views: {},
             _viewTables: [],
-            _searchColumns: {}
+            _searchColumns: {},
+            _ttlColumn: "",
+            _ttlSeconds: 0,
+            _softDelete: intersect(["softDelete", "softDelete()"], this._nsql.tableProps[tableName] || [])
         };
 
         this._cache[tableName] = {};
@@ -1351,6 +2321,9 @@ export class _NanoSQLStorage {
                 this.tableInfo[tableName]._defaults[p.key] = p.default;
                 this.tableInfo[tableName]._hasDefaults = true;
             }
+            if (["required", "notNull", "min", "max", "minLength", "maxLength", "pattern", "enum", "validate"].filter(r => p[r] !== undefined).length) {
+                this.tableInfo[tableName]._hasValidation = true;
+            }
 
             if (p.props && p.props.length) {
 
@@ -1385,7 +2358,19 @@ export class _NanoSQLStorage {
                     }
 
                     if (prop.indexOf("search(") === 0) {
-                        this.tableInfo[tableName]._searchColumns[p.key] = prop.replace(/search\((.*)\)/gmi, "$1").split(",").map(c => c.trim());
+                        const searchArgs = prop.replace(/search\((.*)\)/gmi, "$1").split(",").map(c => c.trim());
+                        // search(analyzer) is short for search(1, analyzer)
+                        this.tableInfo[tableName]._searchColumns[p.key] = searchArgs[0] && isNaN(searchArgs[0] as any) ? ["1"].concat(searchArgs) : searchArgs;
+                    }
+
+                    if (prop.indexOf("ttl(") === 0) {
+                        this.tableInfo[tableName]._ttlColumn = p.key;
+                        this.tableInfo[tableName]._ttlSeconds = parseFloat(prop.replace(/ttl\((.*)\)/gmi, "$1")) || 0;
+                    }
+
+                    if (prop === "expiresAt" || prop === "expiresAt()") {
+                        this.tableInfo[tableName]._ttlColumn = p.key;
+                        this.tableInfo[tableName]._ttlSeconds = 0;
                     }
                 });
 
@@ -1395,10 +2380,15 @@ export class _NanoSQLStorage {
                     this.tableInfo[tableName]._pkType = p.type;
                 }
 
+                // Check for unique constraints, they're enforced with a secondary index
+                if (intersect(["unique", "unique()"], p.props)) {
+                    this.tableInfo[tableName]._uniqueColumns.push(p.key);
+                }
+
                 // Check for secondary indexes
-                if (intersect(["trie", "idx", "idx()", "trie()"], p.props) || is2ndIndex) {
+                if (intersect(["trie", "idx", "idx()", "trie()", "unique", "unique()"], p.props) || is2ndIndex) {
                     this.tableInfo[tableName]._secondaryIndexes.push(p.key);
-                    this._secondaryIndexes["_" + tableName + "_idx_" + p.key] = {idx: [], rows: [], sortIdx: ["number", "int", "float"].indexOf(p.type) !== -1};
+                    this._secondaryIndexes["_" + tableName + "_idx_" + p.key] = {idx: [], rows: [], sortIdx: true};
                 }
 
                 // Check for trie indexes
@@ -1409,6 +2399,20 @@ export class _NanoSQLStorage {
             }
         }
 
+        // Check for compound indexes
+        compoundIndexColumns(this._nsql.tableProps[tableName]).forEach((columns) => {
+            const index = columns.join(",");
+            this.tableInfo[tableName]._compoundIndexes[index] = columns;
+            this._secondaryIndexes[this._indexTable(tableName, index)] = {idx: [], rows: [], sortIdx: false};
+        });
+
+        // Check for geo indexes
+        geoIndexColumns(this._nsql.tableProps[tableName]).forEach((columns) => {
+            const index = "geo(" + columns.join(",") + ")";
+            this.tableInfo[tableName]._geoIndexes[index] = columns;
+            this._secondaryIndexes[this._indexTable(tableName, index)] = {idx: [], rows: [], sortIdx: true};
+        });
+
         return tableName;
     }
 
@@ -1420,7 +2424,20 @@ export class _NanoSQLStorage {
 
 
     public adapterWrite(table: string, pk: DBKey | null, data: DBRow, complete: (finalRow: DBRow) => void, error?: (err: Error) => void): void {
+        this._journalRow(table, pk, () => {
+            this._adapterWrite(table, pk, data, (result) => {
+                if ((pk === null || pk === undefined) && result) { // new row with a generated primary key, rollback removes it
+                    this._journalRow(table, result[this.tableInfo[table]._pk], () => {
+                        complete(result);
+                    }, true);
+                } else {
+                    complete(result);
+                }
+            }, error);
+        });
+    }
 
+    private _adapterWrite(table: string, pk: DBKey | null, data: DBRow, complete: (finalRow: DBRow) => void, error?: (err: Error) => void): void {
         let result: any;
         fastALL(this.adapters, (a: NanoSQLBackupAdapter, i, done) => {
             if (a.waitForWrites) {
@@ -1440,6 +2457,12 @@ export class _NanoSQLStorage {
     }
 
     public adapterDelete(table: string, pk: DBKey, complete: () => void, error?: (err: Error) => void): void {
+        this._journalRow(table, pk, () => {
+            this._adapterDelete(table, pk, complete, error);
+        });
+    }
+
+    private _adapterDelete(table: string, pk: DBKey, complete: () => void, error?: (err: Error) => void): void {
         fastALL(this.adapters, (a: NanoSQLBackupAdapter, i, done) => {
             if (a.waitForWrites) {
                 a.adapter.delete(table, pk, () => {
@@ -1457,6 +2480,12 @@ export class _NanoSQLStorage {
     }
 
     public adapterDrop(table: string, complete: () => void, error?: (err: Error) => void): void {
+        this._journalTable(table, () => {
+            this._adapterDrop(table, complete, error);
+        });
+    }
+
+    private _adapterDrop(table: string, complete: () => void, error?: (err: Error) => void): void {
         fastALL(this.adapters, (a: NanoSQLBackupAdapter, i, done) => {
             if (a.waitForWrites) {
                 a.adapter.drop(table, () => {
@@ -1472,4 +2501,253 @@ export class _NanoSQLStorage {
             if (error) error(err);
         });
     }
-}
\ No newline at end of file
+
+    /**
+     * Run a query once a transaction isn't in it's way.
+     * While a transaction is open only it's own queries (the ones with the transaction's id as their queryID) run,
+     * everything else waits for the transaction to end.
+     * A transaction waits for the queries already running to finish first, streamed queries included.
+     *
+     * @param {IdbQuery} query
+     * @param {(done: () => void) => void} run call done once the query has finished
+     * @memberof _NanoSQLStorage
+     */
+    public _runQuery(query: IdbQuery, run: (done: () => void) => void): void {
+        const tr = this._transaction;
+        if (tr && tr.state === "open" && query.transaction && query.queryID === tr.id) {
+            run(() => { });
+            return;
+        }
+        if (tr && tr.state !== "pending") {
+            this._heldQueries.push(() => this._runQuery(query, run));
+            return;
+        }
+        this._runningQueries++;
+        run(() => {
+            this._runningQueries--;
+            if (!this._runningQueries && this._transactionStart) {
+                const start = this._transactionStart;
+                this._transactionStart = undefined;
+                start();
+            }
+        });
+    }
+
+    /**
+     * Open a transaction, only one transaction is open at a time so this waits for any open transaction to finish first.
+     * The transaction opens once the queries already running have finished.
+     *
+     * Every write made by the transaction's queries is journaled so it can be undone with _transactionEnd(id, true).
+     *
+     * @param {string} id
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    public _transactionBegin(id: string, complete: () => void): void {
+        this.queue.add("_transaction_", (done) => {
+            const tr: NonNullable<_NanoSQLStorage["_transaction"]> = { id: id, state: "pending", rows: {}, indexes: {} };
+            this._transaction = tr;
+            this._transactionDone = done;
+            const start = () => {
+                tr.state = "open";
+                complete();
+            };
+            if (this._runningQueries) {
+                this._transactionStart = start;
+            } else {
+                start();
+            }
+        });
+    }
+
+    /**
+     * Close the open transaction.
+     * If rollback is true every row, secondary index and trie touched by the transaction is restored to it's original state.
+     * Queries that waited for the transaction run once it's closed.
+     *
+     * @param {string} id
+     * @param {boolean} rollback
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    public _transactionEnd(id: string, rollback: boolean, complete: () => void): void {
+        const tr = this._transaction;
+        if (!tr || tr.id !== id) {
+            complete();
+            return;
+        }
+        tr.state = "ending";
+
+        const finish = () => {
+            const held = this._heldQueries;
+            this._transaction = undefined;
+            this._heldQueries = [];
+            this._transactionDone();
+            held.forEach(run => run());
+            complete();
+        };
+
+        // the journal table is only written to if the transaction made changes
+        const clearJournal = (done: () => void) => {
+            if (Object.keys(tr.rows).length) {
+                this._adapterDrop(transactionJournal, done);
+            } else {
+                done();
+            }
+        };
+
+        if (!rollback) {
+            clearJournal(() => {
+                this._flushIndexes();
+                finish();
+            });
+            return;
+        }
+
+        // restore cached secondary indexes, index rows that changed get written again on the next flush
+        Object.keys(tr.indexes).forEach((idxTable) => {
+            const current = this._secondaryIndexes[idxTable];
+            const original = tr.indexes[idxTable];
+            current.idx.concat(original.idx).forEach((key) => {
+                if (JSON.stringify(current.rows[key]) === JSON.stringify(original.rows[key])) return;
+                if (!this._secondaryIndexUpdates[idxTable]) {
+                    this._secondaryIndexUpdates[idxTable] = [];
+                }
+                if (this._secondaryIndexUpdates[idxTable].indexOf(key) === -1) {
+                    this._secondaryIndexUpdates[idxTable].push(key);
+                }
+            });
+            current.idx = original.idx;
+            current.rows = original.rows;
+        });
+
+        // put back the original version of every row, removing rows that didn't exist before
+        fastALL(Object.keys(tr.rows), (table, i, tableDone) => {
+            fastALL(Object.keys(tr.rows[table]), (key, j, rowDone) => {
+                const entry = tr.rows[table][key];
+                if (entry.row) {
+                    this._adapterWrite(table, entry.pk, entry.row, () => rowDone());
+                } else {
+                    this._adapterDelete(table, entry.pk, rowDone);
+                }
+            }).then(tableDone);
+        }).then(() => {
+            Object.keys(this._cache).forEach((table) => {
+                this._cache[table] = {};
+            });
+            // tries are built from the index tables, they need the restored indexes first
+            this._flushIndexes(() => {
+                fastALL(Object.keys(tr.rows).filter(t => this._trieIndexes[t] && Object.keys(this._trieIndexes[t]).length), (table, i, done) => {
+                    this._buildTries(table, done);
+                }).then(() => {
+                    clearJournal(finish);
+                });
+            });
+        });
+    }
+
+    /**
+     * Keep the original version of a row in the transaction journal before it's modified.
+     * Only writes made by the open transaction's queries are journaled.
+     *
+     * @internal
+     * @param {string} table
+     * @param {(DBKey | null)} pk
+     * @param {() => void} complete
+     * @param {boolean} [isNew] the row was just created, skip reading it
+     * @memberof _NanoSQLStorage
+     */
+    private _journalRow(table: string, pk: DBKey | null, complete: () => void, isNew?: boolean): void {
+        const tr = this._transaction;
+        if (!tr || tr.state !== "open" || pk === null || pk === undefined) {
+            complete();
+            return;
+        }
+        if (!tr.rows[table]) {
+            tr.rows[table] = {};
+        }
+        const key = String(pk);
+        if (tr.rows[table][key]) {
+            complete();
+            return;
+        }
+        tr.rows[table][key] = { pk: pk, row: undefined };
+        if (isNew) {
+            this._persistJournal(table, pk, undefined, complete);
+            return;
+        }
+        this.adapters[0].adapter.read(table, pk, (row) => {
+            tr.rows[table][key].row = row ? _assign(row) : undefined;
+            this._persistJournal(table, pk, tr.rows[table][key].row, complete);
+        });
+    }
+
+    /**
+     * Keep the original version of every row in a table in the transaction journal before the table is dropped.
+     *
+     * @internal
+     * @param {string} table
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    private _journalTable(table: string, complete: () => void): void {
+        const tr = this._transaction;
+        if (!tr || tr.state !== "open") {
+            complete();
+            return;
+        }
+        if (!tr.rows[table]) {
+            tr.rows[table] = {};
+        }
+        const pk = this.tableInfo[table]._pk;
+        let rows: DBRow[] = [];
+        this.adapters[0].adapter.rangeRead(table, (row, idx, next) => {
+            if (row && !tr.rows[table][String(row[pk])]) {
+                tr.rows[table][String(row[pk])] = { pk: row[pk], row: _assign(row) };
+                rows.push(row);
+            }
+            next();
+        }, () => {
+            fastALL(rows, (row, i, done) => {
+                this._persistJournal(table, row[pk], row, done);
+            }).then(() => {
+                complete();
+            });
+        });
+    }
+
+    /**
+     * Save a journal entry to the journal table so the transaction can be rolled back after a crash.
+     *
+     * @internal
+     * @param {string} table
+     * @param {DBKey} pk
+     * @param {(DBRow | undefined)} row the original row, undefined if the row didn't exist
+     * @param {() => void} complete
+     * @memberof _NanoSQLStorage
+     */
+    private _persistJournal(table: string, pk: DBKey, row: DBRow | undefined, complete: () => void): void {
+        const id = JSON.stringify([table, pk]);
+        this._adapterWrite(transactionJournal, id as any, { id: id, table: table, pk: pk, row: row ? _assign(row) : null }, () => complete());
+    }
+
+    /**
+     * Keep a copy of a cached secondary index in the transaction journal before it's modified.
+     *
+     * @internal
+     * @param {string} idxTable
+     * @memberof _NanoSQLStorage
+     */
+    private _journalIndex(idxTable: string): void {
+        if (this._transaction && this._transaction.state === "open" && this._doCache && !this._transaction.indexes[idxTable]) {
+            const index = this._secondaryIndexes[idxTable];
+            this._transaction.indexes[idxTable] = {
+                idx: index.idx.slice(),
+                rows: Object.keys(index.rows).reduce((prev, key) => {
+                    prev[key] = { id: index.rows[key].id, rows: index.rows[key].rows.slice() };
+                    return prev;
+                }, {})
+            };
+        }
+    }
+}
@@ -1,10 +1,12 @@
 import { setFast } from "lie-ts";
 import { _NanoSQLQuery, IdbQuery, IdbQueryExec } from "./query/std-query";
 import { _NanoSQLTransactionQuery } from "./query/transaction";
+import { parseSQL } from "./query/sql-parser";
 import { ReallySmallEvents } from "really-small-events";
-import { StdObject, _assign, fastALL, random16Bits, cast, cleanArgs, objQuery, Promise, fastCHAIN, intersect, crowDistance, removeDuplicates, uuid } from "./utilities";
+import { StdObject, _assign, fastALL, random16Bits, cast, cleanArgs, objQuery, fnValue, fnLiteral, Promise, fastCHAIN, intersect, crowDistance, removeDuplicates, uuid } from "./utilities";
 import { NanoSQLDefaultBackend } from "./database/index";
 import { _NanoSQLHistoryPlugin } from "./history-plugin";
+import { analyzers } from "./analyzers";
 import { NanoSQLStorageAdapter } from "./database/storage";
 import * as levenshtein from "levenshtein-edit-distance";
 import { Observer } from "./observable";
@@ -33,6 +35,7 @@ export interface NanoSQLConfig {
     writeCache?: number; // writeCache (used by LevelDB)
     readCache?: number; // read cache (used by LevelDB)
     size?: number; // size of WebSQL database
+    strict?: boolean; // reject upserts with values of the wrong type instead of casting them
     tokenizer?: (table: string, column: string, args: string[], value: string) => {
         o: string; // original string
         w: string; // tokenized output
@@ -55,11 +58,39 @@ export interface ActionOrView {
 }
 
 
+/**
+ * Functions used in the select list.
+ *
+ * Aggregate (A) functions complete with one value for all the rows, simple (S) functions complete with an array of values, one for each row.
+ * Window (W) functions are called once per partition with the rows in window order and complete with one value for each row.
+ * Window functions get the peer group of each row after isJoin, rows that tie in the window's ORDER BY share a peer group.
+ * Aggregate functions can also be used with OVER, they get the rows from the start of the partition up to the last peer of each row.
+ * Arguments are passed as they were written, use fnValue() to get the value of an argument for a row.
+ *
+ * @export
+ * @interface NanoSQLFunction
+ */
 export interface NanoSQLFunction {
-    type: "A" | "S"; // aggregate or simple function
+    type: "A" | "S" | "W"; // aggregate, simple or window function
     call: (rows: any[], complete: (result: any | any[]) => void, ...args: any[]) => void; // function call
 }
 
+/**
+ * Analyzers turn the text of search() columns into tokens, the analyzer is picked by name in the column's props: search(boost, analyzer).
+ * Tokens with an empty w (like stop words) aren't indexed but keep their location so phrases still line up.
+ * nanoSQL ships with german, french, spanish and cjk analyzers, the english modes are handled by the default tokenizer.
+ *
+ * @export
+ * @interface NanoSQLAnalyzer
+ */
+export interface NanoSQLAnalyzer {
+    tokenize: (value: string, args: string[]) => {
+        o: string; // original string
+        w: string; // tokenized output
+        i: number; // location of string
+    }[];
+}
+
 /**
  * You need an array of these to declare a data model.
  *
@@ -71,6 +102,15 @@ export interface DataModel {
     type: "string" | "int" | "float" | "array" | "map" | "bool" | "uuid" | "blob" | "timeId" | "timeIdms" | "safestr" | "number" | "object" | "obj" | string;
     default?: any;
     props?: any[];
+    required?: boolean; // value must be provided and can't be null
+    notNull?: boolean; // value can't be null
+    min?: number; // smallest allowed number
+    max?: number; // largest allowed number
+    minLength?: number; // shortest allowed string or array
+    maxLength?: number; // longest allowed string or array
+    pattern?: RegExp | string; // strings must match this regex
+    enum?: any[]; // value must be one of these
+    validate?: (value: any, row: any) => boolean | string; // custom check, return false or an error message to reject the value
 }
 
 /**
@@ -96,8 +136,9 @@ export interface DatabaseEvent {
  * The arguments used for the join command.
  *
  * Type: join type to use
- * Query: A select query to use for the right side of the join
- * Where: Conditions to use to merge the data
+ * Table: The table to join, use "table AS alias" to key it's columns with an alias (needed for self joins).
+ * Where: Conditions to use to merge the data, can be compound conditions using any where operator.
+ * Values that start with the alias of a joined table are used as column references.
  *
  * @export
  * @interface JoinArgs
@@ -105,7 +146,21 @@ export interface DatabaseEvent {
 export interface JoinArgs {
     type: "left" | "inner" | "right" | "cross" | "outer";
     table: string;
-    where?: Array<string>;
+    where?: any[];
+}
+
+/**
+ * A select query combined with the rows of the query before it.
+ *
+ * Type: union (unique rows of both), union all (every row of both), intersect (unique rows found in both) or except (unique rows not found in the query).
+ * Query: The select query to combine, it's columns are matched to the first query's columns by position.
+ *
+ * @export
+ * @interface SetOperationArgs
+ */
+export interface SetOperationArgs {
+    type: "union" | "union all" | "intersect" | "except";
+    query: any;
 }
 
 /**
@@ -138,6 +193,32 @@ export interface DBRow {
     [key: string]: any;
 }
 
+/**
+ * A single schema migration step, passed into .migrations()
+ *
+ * @export
+ * @interface NanoSQLMigration
+ */
+export interface NanoSQLMigration {
+    version: number;
+    up: (db: NanoSQLMigrationDB) => Promise<any>;
+    down?: (db: NanoSQLMigrationDB) => Promise<any>;
+}
+
+/**
+ * Helpers given to each migration step.
+ * The column helpers rewrite every row in the table and rebuild any indexes using the changed columns.
+ *
+ * @export
+ * @interface NanoSQLMigrationDB
+ */
+export interface NanoSQLMigrationDB {
+    query: (table: string, action: "select" | "upsert" | "delete" | "drop" | "show tables" | "describe", args?: any) => _NanoSQLQuery;
+    addColumn: (table: string, column: string, value?: any) => Promise<any>;
+    renameColumn: (table: string, from: string, to: string) => Promise<any>;
+    dropColumn: (table: string, column: string) => Promise<any>;
+}
+
 
 
 export interface IActionViewMod {
@@ -203,6 +284,10 @@ export class NanoSQLInstance {
         [fnName: string]: (row: any, isJoin: boolean, ...args: any[]) => any;
     };
 
+    public static analyzers: {
+        [name: string]: NanoSQLAnalyzer;
+    };
+
     /**
      * Misc placeholder that can be used by the dev.
      *
@@ -275,6 +360,15 @@ export class NanoSQLInstance {
      */
     public dataModels: { [table: string]: DataModel[] };
 
+    /**
+     * A map containing the table level props passed into .model()
+     *
+     * @internal
+     * @type {StdObject<any[]>}
+     * @memberOf NanoSQLInstance
+     */
+    public tableProps: { [table: string]: any[] };
+
     /**
      * Stores wether each table has events attached to it or not.
      *
@@ -330,6 +424,24 @@ export class NanoSQLInstance {
 
     private _onConnectedCallBacks: any[] = [];
 
+    /**
+     * Schema migrations and the optional target version, set with .migrations()
+     *
+     * @internal
+     * @memberof NanoSQLInstance
+     */
+    private _migrations: NanoSQLMigration[] = [];
+    private _migrationTarget: number | undefined;
+
+    /**
+     * Wether migrations are running, lets migration queries through before the database is connected.
+     *
+     * @internal
+     * @type {boolean}
+     * @memberof NanoSQLInstance
+     */
+    public _migrating: boolean = false;
+
     private _callbacks: {
         [table: string]: ReallySmallEvents;
     };
@@ -358,6 +470,7 @@ export class NanoSQLInstance {
         t._actions = {};
         t._views = {};
         t.dataModels = {};
+        t.tableProps = {};
         t._events = ["*", "change", "delete", "upsert", "drop", "select", "error", "peer-change"];
 
         t._hasEvents = {};
@@ -656,14 +769,19 @@ export class NanoSQLInstance {
                     });
                 };
 
+                // schema migrations run after the indexes are ready but before didConnect
+                const migrateConnect = () => {
+                    t._runMigrations(completeConnect, rej);
+                };
+
                 const updateVersion = (rebuildIDX: boolean) => {
                     t.query("upsert", { key: "version", value: t.version }).manualExec({ table: "_util" }).then(() => {
                         if (rebuildIDX) {
                             t.extend("beforeConn", "rebuild_idx").then(() => {
-                                completeConnect();
+                                migrateConnect();
                             });
                         } else {
-                            completeConnect();
+                            migrateConnect();
                         }
                     });
                 };
@@ -680,7 +798,7 @@ export class NanoSQLInstance {
                         } else if (rows[0].value < VERSION) {
                             updateVersion(false);
                         } else {
-                            completeConnect();
+                            migrateConnect();
                         }
                     }
                 });
@@ -830,9 +948,41 @@ export class NanoSQLInstance {
      *  {key:"id",type:"int",props:["ai","pk"]} //auto incriment and primary key
      *  {key:"name",type:"string"}
      * ])
+     * ```
+     *
+     * Table level props can be passed in as the second argument, like compound indexes:
+     *
+     * ```ts
+     * .model([
+     *  {key:"id",type:"int",props:["ai","pk"]},
+     *  {key:"tenant",type:"string"},
+     *  {key:"created",type:"int"}
+     * ], ["idx(tenant, created)"])
+     * ```
+     *
+     * Geo indexes speed up "crow()" distance and "within()" bounding box where conditions on a latitude and longitude column:
+     *
+     * ```ts
+     * .model([
+     *  {key:"id",type:"int",props:["ai","pk"]},
+     *  {key:"lat",type:"float"},
+     *  {key:"lon",type:"float"}
+     * ], ["geo(lat, lon)"])
+     * ```
+     *
+     * Rows can expire, expired rows are hidden from queries and deleted in the background with "expired" in the delete event's notes.
+     * A "ttl(seconds)" column holds the time the row was written (set on every write unless the row has one),
+     * an "expiresAt" column holds the time the row expires:
+     *
+     * ```ts
+     * .model([
+     *  {key:"url",type:"string",props:["pk"]},
+     *  {key:"cachedAt",type:"int",props:["ttl(3600)"]} // or {key:"expires",type:"int",props:["expiresAt"]}
+     * ])
      * ```
 	 *
 	 * @param {Array<DataModel>} dataModel
+	 * @param {any[]} [props]
 	 * @returns {NanoSQLInstance}
 	 *
 	 * @memberOf NanoSQLInstance
@@ -897,6 +1047,7 @@ export class NanoSQLInstance {
         }
 
         t.dataModels[l] = dataModel;
+        t.tableProps[l] = props || [];
         t._views[l] = [];
         t._actions[l] = [];
         return t;
@@ -1122,6 +1273,11 @@ export class NanoSQLInstance {
      * .query("select",['username']) // only get the username column
      * .query("select",["username","balance"]) //Get two columns, username and balance.
      * .query("select",["count(*)"]) //Get the length of records in the database
+     * .query("select",["username",{query:nSQL("posts").query("select",["count(*)"]),as:"posts"}]) // Subquery column, first column of the first row
+     * .query("select",["username","RANK() OVER (PARTITION BY team ORDER BY balance DESC) AS rank"]) // Window function, rank users by balance in each team
+     * .query("select",["username","SUM(balance) OVER (ORDER BY id) AS runningTotal"]) // Aggregate over a window, running total of balance
+     * .query("select",["CONCAT(UPPER(TRIM(first)), ' ', last) AS name"]) // Nested function calls, quoted arguments are strings instead of columns
+     * .query("select",["COUNT(DISTINCT email) AS emails"]) // Aggregate the unique non null values of a column
      * ```
      *
      * ### Upsert
@@ -1135,8 +1291,13 @@ export class NanoSQLInstance {
      * .query("upsert",{id:1, username:"Scott"}) //If row ID 1 exists, set the username to scott, otherwise create a new row with this data.
      * .query("upsert",{username:"Scott"}) //Add a new row to the db with this username in the row.
      * .query("upsert",{balance:-35}).where(["balance","<",0]) // If you use a WHERE statement this data will be applied to the rows found with the where statement.
+     * .query("upsert",{id:1, $inc:{balance:10}, $push:{tags:"vip"}}) // Update operators are applied to the stored row, no read-modify-write needed.
+     * .query("upsert",{$set:{"address.city":"Paris"}, $unset:["nickname"]}).where(["id","=",1]) // Set a value deep inside a map column and remove a column.
      * ```
      *
+     * The update operators are $set, $unset, $inc, $mul, $min, $max, $push, $pull and $addToSet, $push and $addToSet take {$each: [...]} to add more than one value.
+     * Upserts with update operators on the same table run one at a time so concurrent increments aren't lost.
+     *
      * ### Delete
      *
      * Delete is used to remove data from the database.
@@ -1151,6 +1312,23 @@ export class NanoSQLInstance {
      * .query("delete") // Same as drop statement
      * ```
      *
+     * ### Soft Deletes
+     *
+     * Tables with the "softDelete" table prop keep deleted rows, deletes set the row's "_deletedAt" column to the time of the delete instead.
+     * Deleted rows are left out of selects, joins and ORM queries unless the query has .withDeleted(), a delete without a where soft deletes every row.
+     * Deleted rows don't hold their primary key or unique() values: an upsert on a deleted row's primary key writes a new row in it's place,
+     * and restoring a row fails if one of it's unique() values has been taken since it was deleted.
+     * "restore" brings back the deleted rows found with the where statement (or all of them),
+     * "purge" removes deleted rows for good, the optional argument is how many seconds ago they must have been deleted.
+     *
+     * Examples:
+     * ```ts
+     * .model([...], ["softDelete"])
+     * .query("restore").where(["id","=",1]) // undo the delete of row 1
+     * .query("purge", 86400) // remove the rows deleted more than a day ago
+     * .query("purge").where(["balance","<",0]) // remove deleted rows with a balance less than zero
+     * ```
+     *
      * ### Drop
      *
      * Drop is used to completely clear the contents of a database.  There are no arguments.
@@ -1160,13 +1338,13 @@ export class NanoSQLInstance {
      * .query("drop")
      * ```
      *
-     * @param {("select"|"upsert"|"delete"|"drop")} action
+     * @param {("select"|"upsert"|"delete"|"drop"|"restore"|"purge")} action
      * @param {any} [args]
      * @returns {NanoSQLInstance}
      *
      * @memberOf NanoSQLInstance
      */
-    public query(action: "select" | "upsert" | "delete" | "drop" | "show tables" | "describe" | "toColumn" | "toRow", args?: any): _NanoSQLQuery {
+    public query(action: "select" | "upsert" | "delete" | "drop" | "restore" | "purge" | "show tables" | "describe" | "toColumn" | "toRow", args?: any): _NanoSQLQuery {
 
         /*let t = this;
         t._queryPtr++;
@@ -1182,6 +1360,38 @@ export class NanoSQLInstance {
         return new _NanoSQLQuery(this, this.sTable, action, args, av);
     }
 
+    /**
+     * Start a query from a SQL statement instead of chaining query methods.
+     * The statement is compiled into the same query object the chained methods build, so the returned query can be modified further before calling exec().
+     *
+     * Supported statements are SELECT, INSERT/UPSERT, UPDATE, DELETE, DROP, SHOW TABLES and DESCRIBE.
+     * Question marks are replaced with the provided arguments in order.
+     *
+     * Examples:
+     * ```ts
+     * nSQL().sql("SELECT name, COUNT(*) AS c FROM users WHERE age > ? GROUP BY name ORDER BY c DESC LIMIT 10", [30]).exec();
+     * nSQL().sql("INSERT INTO users (name, age) VALUES (?, ?)", ["Scott", 28]).exec();
+     * nSQL().sql("UPDATE users SET age = 29 WHERE name = 'Scott'").exec();
+     * ```
+     *
+     * Syntax errors are thrown with the line and column of the problem.
+     *
+     * @param {string} sql
+     * @param {any[]} [args]
+     * @returns {_NanoSQLQuery}
+     * @memberof NanoSQLInstance
+     */
+    public sql(sql: string, args?: any[]): _NanoSQLQuery {
+        const queryObj = parseSQL(sql, args);
+        const query = this.query(queryObj.action as any, queryObj.actionArgs);
+        query._query = {
+            ...query._query,
+            ...queryObj,
+            table: queryObj.table || this.sTable
+        } as IdbQuery;
+        return query;
+    }
+
     public onConnected(callback: () => void) {
         if (this.isConnected) {
             callback();
@@ -1330,10 +1540,12 @@ export class NanoSQLInstance {
     /**
      * Executes a transaction against the database, batching all the queries together.
      *
+     * Transactions are all or nothing: if any query fails every change made by the transaction is rolled back and the returned promise rejects with the error.
+     * Other queries wait while the transaction runs, and a transaction cut short by a crash is rolled back the next time the database connects.
+     *
      * @param {((
      *         db: (table?: string) => {
-     *             query: (action: "select"|"upsert"|"delete"|"drop"|"show tables"|"describe", args?: any) => _NanoSQLTransactionQuery;
-     *             updateORM: (action: "add"|"delete"|"drop"|"set", column?: string, relationIDs?: any[]) => _NanoSQLTransactionORMQuery|undefined;
+     *             query: (action: "select"|"upsert"|"delete"|"drop"|"restore"|"purge"|"show tables"|"describe", args?: any) => _NanoSQLTransactionQuery;
      *         }, complete: () => void) => void)} initTransaction
      * @returns {Promise<any>}
      *
@@ -1341,7 +1553,7 @@ export class NanoSQLInstance {
      */
     public doTransaction(initTransaction: (
         db: (table?: string) => {
-            query: (action: "select" | "upsert" | "delete" | "drop" | "show tables" | "describe", args?: any) => _NanoSQLTransactionQuery;
+            query: (action: "select" | "upsert" | "delete" | "drop" | "restore" | "purge" | "show tables" | "describe", args?: any) => _NanoSQLTransactionQuery;
         }, complete: () => void) => void
     ): Promise<any> {
         let t = this;
@@ -1356,37 +1568,58 @@ export class NanoSQLInstance {
             }
 
             const run = () => {
-                fastCHAIN(t.plugins, (p, i, nextP) => {
-                    if (p.transactionBegin) {
-                        p.transactionBegin(transactionID, nextP);
-                    } else {
-                        nextP();
-                    }
-                }).then(() => {
 
-                    if (Array.isArray(t.sTable)) return;
+                if (Array.isArray(t.sTable)) return;
 
-                    initTransaction(
-                        (table?: string) => {
-                            let ta: string = table || t.sTable as any;
-                            return {
-                                query: (action: "select" | "upsert" | "delete" | "drop" | "show tables" | "describe", args?: any) => {
-                                    return new _NanoSQLTransactionQuery(action, args, ta, queries, transactionID);
-                                }
-                            };
-                        },
-                        () => {
+                // the transaction is opened once it's queries are ready, other queries wait while it's open
+                initTransaction(
+                    (table?: string) => {
+                        let ta: string = table || t.sTable as any;
+                        return {
+                            query: (action: "select" | "upsert" | "delete" | "drop" | "restore" | "purge" | "show tables" | "describe", args?: any) => {
+                                return new _NanoSQLTransactionQuery(action, args, ta, queries, transactionID);
+                            }
+                        };
+                    },
+                    () => {
+                        fastCHAIN(t.plugins, (p, i, nextP) => {
+                            if (p.transactionBegin) {
+                                p.transactionBegin(transactionID, nextP);
+                            } else {
+                                nextP();
+                            }
+                        }).then(() => {
 
                             let tables: string[] = [];
+                            let failed = false;
+
+                            // undo everything the transaction did, then reject with the error from the failed query
+                            const rollback = (err: any) => {
+                                if (failed) return;
+                                failed = true;
+                                fastCHAIN(this.plugins, (p, i, nextP) => {
+                                    if (p.transactionRollback) {
+                                        p.transactionRollback(transactionID, nextP);
+                                    } else {
+                                        nextP();
+                                    }
+                                }).then(() => {
+                                    reject(err);
+                                });
+                            };
 
                             fastCHAIN(queries, (quer, i, nextQuery) => {
                                 tables.push(quer.table as any);
-                                t.query(quer.action as any, quer.actionArgs).manualExec({
-                                    ...quer,
-                                    table: quer.table,
-                                    transaction: true,
-                                    queryID: transactionID,
-                                }).then(nextQuery);
+                                try {
+                                    t.query(quer.action as any, quer.actionArgs).manualExec({
+                                        ...quer,
+                                        table: quer.table,
+                                        transaction: true,
+                                        queryID: transactionID,
+                                    }).then(nextQuery).catch(rollback);
+                                } catch (e) {
+                                    rollback(e);
+                                }
                             }).then((results) => {
 
                                 fastCHAIN(this.plugins, (p, i, nextP) => {
@@ -1417,9 +1650,9 @@ export class NanoSQLInstance {
                                     resolve(results);
                                 });
                             });
-                        }
-                    );
-                });
+                        });
+                    }
+                );
             };
 
             if (this.isConnected) {
@@ -1444,6 +1677,129 @@ export class NanoSQLInstance {
         return this;
     }
 
+    /**
+     * Declare schema migrations, must be called before the connect() method.
+     *
+     * The current schema version is stored in the _util table, on connect every step above it is migrated up in version order.
+     * Pass a lower toVersion to migrate down instead, every step above the target is reverted with its down function.
+     *
+     * Usage:
+     * ```ts
+     * nSQL("users")
+     * .model([...])
+     * .migrations([
+     *     {
+     *         version: 1,
+     *         up: (db) => db.renameColumn("users", "name", "fullName"),
+     *         down: (db) => db.renameColumn("users", "fullName", "name")
+     *     },
+     *     {
+     *         version: 2,
+     *         up: (db) => db.addColumn("users", "active", true),
+     *         down: (db) => db.dropColumn("users", "active")
+     *     }
+     * ])
+     * .connect()
+     * ```
+     *
+     * @param {NanoSQLMigration[]} steps
+     * @param {number} [toVersion] defaults to the highest step version
+     * @returns {NanoSQLInstance}
+     * @memberof NanoSQLInstance
+     */
+    public migrations(steps: NanoSQLMigration[], toVersion?: number): NanoSQLInstance {
+        this._migrations = steps.slice().sort((a, b) => a.version > b.version ? 1 : -1);
+        this._migrationTarget = toVersion;
+        return this;
+    }
+
+    /**
+     * Brings the schema version stored in the _util table up (or down) to the migration target.
+     *
+     * @internal
+     * @param {() => void} complete
+     * @param {(err: any) => void} error
+     * @memberof NanoSQLInstance
+     */
+    private _runMigrations(complete: () => void, error: (err: any) => void) {
+        const t = this;
+        if (!t._migrations.length) {
+            complete();
+            return;
+        }
+
+        const migrateRows = (table: string, columns: string[], rewrite: (row: any) => any): Promise<any> => {
+            return t.extend("beforeConn", "migrate_rows", table, columns, rewrite);
+        };
+
+        const db: NanoSQLMigrationDB = {
+            query: (table, action, args) => t.table(table).query(action, args),
+            addColumn: (table, column, value) => migrateRows(table, [column], (row) => {
+                if (row[column] === undefined) {
+                    row[column] = typeof value === "function" ? value(row) : value;
+                }
+                return row;
+            }),
+            renameColumn: (table, from, to) => migrateRows(table, [from, to], (row) => {
+                row[to] = row[from];
+                delete row[from];
+                return row;
+            }),
+            dropColumn: (table, column) => migrateRows(table, [column], (row) => {
+                delete row[column];
+                return row;
+            })
+        };
+
+        t.query("select").where(["key", "=", "schemaVersion"]).manualExec({ table: "_util" }).then((rows) => {
+            const current: number = rows.length ? rows[0].value : 0;
+            const target = t._migrationTarget !== undefined ? t._migrationTarget : t._migrations[t._migrations.length - 1].version;
+            const goingUp = target >= current;
+
+            const steps = goingUp ?
+                t._migrations.filter(m => m.version > current && m.version <= target) :
+                t._migrations.filter(m => m.version <= current && m.version > target).reverse();
+
+            const noDown = steps.filter(m => !goingUp && !m.down);
+            if (noDown.length) {
+                error(`nSQL: Migration ${noDown[0].version} has no down function!`);
+                return;
+            }
+
+            t._migrating = true;
+
+            const fail = (err: any) => {
+                t._migrating = false;
+                error(err);
+            };
+
+            const nextStep = (i: number) => {
+                if (i === steps.length) {
+                    t._migrating = false;
+                    complete();
+                    return;
+                }
+                const step = steps[i];
+                // going down, once a step is reverted the schema sits at the next step down (or the target)
+                const version = goingUp ? step.version : (steps[i + 1] ? steps[i + 1].version : target);
+                const run = goingUp ? step.up : step.down as (db: NanoSQLMigrationDB) => Promise<any>;
+                let stepDone: Promise<any>;
+                try {
+                    stepDone = run(db);
+                } catch (e) {
+                    fail(e);
+                    return;
+                }
+                stepDone.then(() => {
+                    return t.query("upsert", { key: "schemaVersion", value: version }).manualExec({ table: "_util" });
+                }).then(() => {
+                    nextStep(i + 1);
+                }).catch(fail);
+            };
+            nextStep(0);
+        }).catch(error);
+    }
+
     /**
      * Init obvserable query.
      *
@@ -1781,6 +2137,14 @@ export interface NanoSQLPlugin {
      */
     transactionEnd?: (id: string, next: () => void) => void;
 
+    /**
+     * Called instead of transactionEnd when a query in the transaction fails.
+     * Any changes made by the transaction should be undone.
+     *
+     * @memberof NanoSQLPlugin
+     */
+    transactionRollback?: (id: string, next: () => void) => void;
+
     /**
      * Dump the raw contents of all database tables.
      * Optionally provide a list of tables to export, if nothing is provided then all tables should be dumped.
@@ -1841,6 +2205,13 @@ NanoSQLInstance.whereFunctions = {
         const lonVal = objQuery(lonCol, row, isJoin);
         return crowDistance(latVal, lonVal, lat, lon, NanoSQLInstance.earthRadius);
     },
+    within: (row: any, isJoin: boolean, south: number, west: number, north: number, east: number, latColumn?: string, lonColumn?: string) => {
+        const latVal = objQuery(latColumn || "lat", row, isJoin);
+        const lonVal = objQuery(lonColumn || "lon", row, isJoin);
+        if (typeof latVal !== "number" || typeof lonVal !== "number" || latVal < south || latVal > north) return false;
+        // boxes crossing the 180th meridian have a west edge greater than their east edge
+        return west > east ? lonVal >= west || lonVal <= east : lonVal >= west && lonVal <= east;
+    },
     sum: (row: any, isJoin: boolean, ...columns: string[]) => {
         return columns.reduce((prev, cur) => {
             const val = objQuery(cur, row, isJoin) || 0;
@@ -1865,12 +2236,166 @@ NanoSQLInstance.whereFunctions = {
     }
 };
 
+/**
+ * The numeric values of a column for the statistical aggregate functions, NULL and non numeric values are skipped.
+ *
+ * @internal
+ */
+const numericValues = (rows: any[], isJoin: boolean, column: string): number[] => {
+    return rows.map(r => fnValue(column, r, isJoin)).filter((v) => {
+        return v !== undefined && v !== null && v !== "" && !isNaN(v);
+    }).map(v => parseFloat(v));
+};
+
+/**
+ * Sample variance of the values, undefined with less than two values.
+ *
+ * @internal
+ */
+const variance = (values: number[]): number | undefined => {
+    if (values.length < 2) return undefined;
+    const mean = values.reduce((prev, cur) => prev + cur, 0) / values.length;
+    return values.reduce((prev, cur) => prev + Math.pow(cur - mean, 2), 0) / (values.length - 1);
+};
+
+/**
+ * Value at a fraction (0 to 1) of the sorted values, interpolated between the two closest values.
+ *
+ * @internal
+ */
+const percentile = (values: number[], fraction: number): number | undefined => {
+    if (!values.length || isNaN(fraction) || fraction < 0 || fraction > 1) return undefined;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * fraction;
+    const lower = Math.floor(pos);
+    return sorted[lower] + (sorted[Math.ceil(pos)] - sorted[lower]) * (pos - lower);
+};
+
+/**
+ * Get a column from another row of a window for LAG and LEAD.
+ *
+ * @internal
+ */
+const windowOffset = (rows: any[], row: any, idx: number, isJoin: boolean, column: string, defaultValue?: string): any => {
+    if (idx >= 0 && idx < rows.length) {
+        return fnValue(column, rows[idx], isJoin);
+    }
+    return defaultValue === undefined ? undefined : fnValue(defaultValue, row, isJoin);
+};
+
+/**
+ * Milliseconds in each date unit, months and years are handled with the calendar.
+ *
+ * @internal
+ */
+const dateUnits: { [unit: string]: number } = {
+    MILLISECOND: 1,
+    SECOND: 1000,
+    MINUTE: 60000,
+    HOUR: 3600000,
+    DAY: 86400000,
+    WEEK: 604800000
+};
+
+/**
+ * Date functions take timestamps in milliseconds or anything the Date constructor understands.
+ *
+ * @internal
+ */
+const toTime = (value: any): number => {
+    if (value === undefined || value === null || value === "") return NaN;
+    return typeof value === "number" ? value : new Date(value).getTime();
+};
+
+/**
+ * Normalize a date unit like "days" or "Day" to "DAY".
+ *
+ * @internal
+ */
+const dateUnit = (unit: string): string => {
+    return String(unit || "DAY").toUpperCase().replace(/S$/, "");
+};
+
+/**
+ * Add calendar months to a timestamp, days past the end of the new month are moved back to it's last day.
+ *
+ * @internal
+ */
+const addMonths = (time: number, months: number): number => {
+    const date = new Date(time);
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const monthDays = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, monthDays));
+    return date.getTime();
+};
+
+/**
+ * Check a CASE condition like "age >= 18" or "email = NULL" against a row.
+ * Conditions without a comparison are checked for a truthy value.
+ *
+ * @internal
+ */
+const caseCondition = (condition: string, row: any, isJoin: boolean): boolean => {
+    const parts = String(condition).match(/^((?:'(?:[^']|'')*'|"(?:[^"]|"")*"|[^'"<>=!])+?)\s*(<=|>=|!=|<>|=|<|>)\s*([\s\S]+)$/);
+    if (!parts) {
+        return !!fnValue(condition, row, isJoin);
+    }
+    const left = fnValue(parts[1].trim(), row, isJoin);
+    const right = fnValue(parts[3].trim(), row, isJoin);
+    const isNull = (v: any) => v === undefined || v === null;
+    switch (parts[2]) {
+        case "=": return isNull(left) || isNull(right) ? isNull(left) && isNull(right) : left === right;
+        case "!=":
+        case "<>": return isNull(left) || isNull(right) ? isNull(left) !== isNull(right) : left !== right;
+        case "<": return left < right;
+        case "<=": return left <= right;
+        case ">": return left > right;
+        case ">=": return left >= right;
+    }
+    return false;
+};
+
+/**
+ * Format a timestamp like SQLite's strftime, times are in UTC.
+ *
+ * @internal
+ */
+const strftime = (format: string, time: number): string | undefined => {
+    if (isNaN(time)) return undefined;
+    const date = new Date(time);
+    const pad = (value: number, length: number = 2) => ("000" + value).slice(-length);
+    const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+    return format.replace(/%([a-zA-Z%])/g, (match, token) => {
+        switch (token) {
+            case "Y": return String(date.getUTCFullYear());
+            case "m": return pad(date.getUTCMonth() + 1);
+            case "d": return pad(date.getUTCDate());
+            case "H": return pad(date.getUTCHours());
+            case "M": return pad(date.getUTCMinutes());
+            case "S": return pad(date.getUTCSeconds());
+            case "f": return pad(date.getUTCSeconds()) + "." + pad(date.getUTCMilliseconds(), 3);
+            case "j": return pad(Math.floor((time - startOfYear) / dateUnits.DAY) + 1, 3);
+            case "w": return String(date.getUTCDay());
+            case "s": return String(Math.floor(time / 1000));
+            case "%": return "%";
+        }
+        return match;
+    });
+};
+
+NanoSQLInstance.analyzers = analyzers;
+
 NanoSQLInstance.functions = {
     COUNT: {
         type: "A",
         call: (rows, complete, isJoin, column) => {
             if (column && column !== "*") {
-                complete(rows.filter(r => objQuery(column, r, isJoin)).length);
+                complete(rows.filter((r) => {
+                    const value = fnValue(column, r, isJoin);
+                    return value !== undefined && value !== null;
+                }).length);
             } else {
                 complete(rows.length);
             }
@@ -1880,11 +2405,11 @@ NanoSQLInstance.functions = {
         type: "A",
         call: (rows, complete, isJoin, column) => {
             if (rows.length) {
-                let max = objQuery(column, rows[0]) || 0;
+                let max = fnValue(column, rows[0], isJoin) || 0;
                 rows.forEach(r => {
-                    const v = objQuery(column, r, isJoin);
-                    if (objQuery(column, r) > max) {
-                        max = objQuery(column, r, isJoin);
+                    const v = fnValue(column, r, isJoin);
+                    if (v > max) {
+                        max = v;
                     }
                 });
                 complete(max);
@@ -1897,9 +2422,9 @@ NanoSQLInstance.functions = {
         type: "A",
         call: (rows, complete, isJoin, column) => {
             if (rows.length) {
-                let min = objQuery(column, rows[0], isJoin) || 0;
+                let min = fnValue(column, rows[0], isJoin) || 0;
                 rows.forEach(r => {
-                    const v = objQuery(column, r, isJoin);
+                    const v = fnValue(column, r, isJoin);
                     if (v < min) {
                         min = v;
                     }
@@ -1913,20 +2438,79 @@ NanoSQLInstance.functions = {
     AVG: {
         type: "A",
         call: (rows, complete, isJoin, column) => {
-            complete(rows.reduce((prev, cur) => prev + (objQuery(column, cur, isJoin) || 0), 0) / rows.length);
+            complete(rows.reduce((prev, cur) => prev + (fnValue(column, cur, isJoin) || 0), 0) / rows.length);
         }
     },
     SUM: {
         type: "A",
         call: (rows, complete, isJoin, column) => {
-            complete(rows.reduce((prev, cur) => prev + (objQuery(column, cur, isJoin) || 0), 0));
+            complete(rows.reduce((prev, cur) => prev + (fnValue(column, cur, isJoin) || 0), 0));
+        }
+    },
+    MEDIAN: {
+        type: "A",
+        call: (rows, complete, isJoin, column) => {
+            complete(percentile(numericValues(rows, isJoin, column), 0.5));
+        }
+    },
+    MODE: {
+        type: "A",
+        // most common value, ties go to the value found first
+        call: (rows, complete, isJoin, column) => {
+            let counts: { [key: string]: number } = {};
+            let mode: any;
+            let most = 0;
+            rows.forEach((r) => {
+                const value = fnValue(column, r, isJoin);
+                if (value === undefined || value === null) return;
+                const key = JSON.stringify(value);
+                counts[key] = (counts[key] || 0) + 1;
+                if (counts[key] > most) {
+                    most = counts[key];
+                    mode = value;
+                }
+            });
+            complete(mode);
+        }
+    },
+    VARIANCE: {
+        type: "A",
+        call: (rows, complete, isJoin, column) => {
+            complete(variance(numericValues(rows, isJoin, column)));
+        }
+    },
+    STDDEV: {
+        type: "A",
+        call: (rows, complete, isJoin, column) => {
+            const result = variance(numericValues(rows, isJoin, column));
+            complete(result === undefined ? undefined : Math.sqrt(result));
+        }
+    },
+    PERCENTILE: {
+        type: "A",
+        // PERCENTILE(column, fraction), fraction is between 0 and 1
+        call: (rows, complete, isJoin, column, fraction) => {
+            complete(percentile(numericValues(rows, isJoin, column), parseFloat(fnValue(fraction, rows[0], isJoin))));
+        }
+    },
+    GROUP_CONCAT: {
+        type: "A",
+        // GROUP_CONCAT(column, separator), NULL values are skipped
+        call: (rows, complete, isJoin, column, separator) => {
+            complete(rows.map(r => fnValue(column, r, isJoin)).filter(v => v !== undefined && v !== null).join(separator === undefined ? "," : fnLiteral(separator)));
+        }
+    },
+    ARRAY_AGG: {
+        type: "A",
+        call: (rows, complete, isJoin, column) => {
+            complete(rows.map(r => fnValue(column, r, isJoin)));
         }
     },
     LOWER: {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return String(objQuery(column, r, isJoin)).toLowerCase();
+                return String(fnValue(column, r, isJoin)).toLowerCase();
             }));
         }
     },
@@ -1934,7 +2518,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return String(objQuery(column, r, isJoin)).toUpperCase();
+                return String(fnValue(column, r, isJoin)).toUpperCase();
             }));
         }
     },
@@ -1942,7 +2526,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column, type) => {
             complete(rows.map((r) => {
-                return cast(type, objQuery(column, r, isJoin));
+                return cast(fnLiteral(type), fnValue(column, r, isJoin));
             }));
         }
     },
@@ -1950,7 +2534,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return Math.abs(objQuery(column, r, isJoin));
+                return Math.abs(fnValue(column, r, isJoin));
             }));
         }
     },
@@ -1958,7 +2542,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return Math.ceil(objQuery(column, r, isJoin));
+                return Math.ceil(fnValue(column, r, isJoin));
             }));
         }
     },
@@ -1966,7 +2550,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column, power) => {
             complete(rows.map((r) => {
-                return Math.pow(objQuery(column, r, isJoin), parseInt(power));
+                return Math.pow(fnValue(column, r, isJoin), parseInt(fnValue(power, r, isJoin)));
             }));
         }
     },
@@ -1974,7 +2558,7 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return Math.round(objQuery(column, r, isJoin));
+                return Math.round(fnValue(column, r, isJoin));
             }));
         }
     },
@@ -1982,9 +2566,198 @@ NanoSQLInstance.functions = {
         type: "S",
         call: (rows, complete, isJoin, column) => {
             complete(rows.map((r) => {
-                return Math.sqrt(objQuery(column, r, isJoin));
+                return Math.sqrt(fnValue(column, r, isJoin));
             }));
         }
+    },
+    CONCAT: {
+        type: "S",
+        call: (rows, complete, isJoin, ...values: string[]) => {
+            complete(rows.map((r) => {
+                return values.map(v => fnValue(v, r, isJoin)).filter(v => v !== undefined && v !== null).join("");
+            }));
+        }
+    },
+    SUBSTR: {
+        type: "S",
+        call: (rows, complete, isJoin, column, start, length) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                if (value === undefined || value === null) return value;
+                // start counts from 1, negative starts count back from the end
+                const from = parseInt(fnValue(start, r, isJoin) || 1);
+                const str = String(value);
+                const begin = from > 0 ? from - 1 : Math.max(str.length + from, 0);
+                return length === undefined ? str.slice(begin) : str.substr(begin, parseInt(fnValue(length, r, isJoin)));
+            }));
+        }
+    },
+    TRIM: {
+        type: "S",
+        call: (rows, complete, isJoin, column) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                return value === undefined || value === null ? value : String(value).trim();
+            }));
+        }
+    },
+    LTRIM: {
+        type: "S",
+        call: (rows, complete, isJoin, column) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                return value === undefined || value === null ? value : String(value).replace(/^\s+/, "");
+            }));
+        }
+    },
+    RTRIM: {
+        type: "S",
+        call: (rows, complete, isJoin, column) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                return value === undefined || value === null ? value : String(value).replace(/\s+$/, "");
+            }));
+        }
+    },
+    REPLACE: {
+        type: "S",
+        call: (rows, complete, isJoin, column, find, replace) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                if (value === undefined || value === null) return value;
+                return String(value).split(String(fnValue(find, r, isJoin))).join(String(fnValue(replace, r, isJoin) || ""));
+            }));
+        }
+    },
+    LENGTH: {
+        type: "S",
+        call: (rows, complete, isJoin, column) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                if (value === undefined || value === null) return value;
+                return Array.isArray(value) ? value.length : String(value).length;
+            }));
+        }
+    },
+    COALESCE: {
+        type: "S",
+        call: (rows, complete, isJoin, ...values: string[]) => {
+            complete(rows.map((r) => {
+                return values.reduce((prev, cur) => {
+                    return prev === undefined || prev === null ? fnValue(cur, r, isJoin) : prev;
+                }, undefined);
+            }));
+        }
+    },
+    IFNULL: {
+        type: "S",
+        call: (rows, complete, isJoin, column, otherwise) => {
+            complete(rows.map((r) => {
+                const value = fnValue(column, r, isJoin);
+                return value === undefined || value === null ? fnValue(otherwise, r, isJoin) : value;
+            }));
+        }
+    },
+    CASE: {
+        type: "S",
+        // CASE(condition, value, condition, value, ..., elseValue)
+        call: (rows, complete, isJoin, ...args: string[]) => {
+            complete(rows.map((r) => {
+                let i = 0;
+                while (i < args.length - 1) {
+                    if (caseCondition(args[i], r, isJoin)) {
+                        return fnValue(args[i + 1], r, isJoin);
+                    }
+                    i += 2;
+                }
+                return i < args.length ? fnValue(args[i], r, isJoin) : undefined;
+            }));
+        }
+    },
+    NOW: {
+        type: "S",
+        call: (rows, complete, isJoin) => {
+            const now = Date.now();
+            complete(rows.map(r => now));
+        }
+    },
+    DATE_ADD: {
+        type: "S",
+        call: (rows, complete, isJoin, column, amount, unit) => {
+            complete(rows.map((r) => {
+                const time = toTime(fnValue(column, r, isJoin));
+                const add = parseFloat(fnValue(amount, r, isJoin));
+                const addUnit = dateUnit(fnLiteral(unit));
+                if (isNaN(time) || isNaN(add)) return undefined;
+                if (addUnit === "MONTH" || addUnit === "YEAR") {
+                    return addMonths(time, add * (addUnit === "YEAR" ? 12 : 1));
+                }
+                return dateUnits[addUnit] ? time + add * dateUnits[addUnit] : undefined;
+            }));
+        }
+    },
+    DATE_DIFF: {
+        type: "S",
+        // DATE_DIFF(to, from, unit), whole units between the two dates
+        call: (rows, complete, isJoin, to, from, unit) => {
+            complete(rows.map((r) => {
+                const toTs = toTime(fnValue(to, r, isJoin));
+                const fromTs = toTime(fnValue(from, r, isJoin));
+                const diffUnit = dateUnit(fnLiteral(unit));
+                if (isNaN(toTs) || isNaN(fromTs)) return undefined;
+                if (diffUnit === "MONTH" || diffUnit === "YEAR") {
+                    const toDate = new Date(toTs);
+                    const fromDate = new Date(fromTs);
+                    let months = (toDate.getUTCFullYear() - fromDate.getUTCFullYear()) * 12 + toDate.getUTCMonth() - fromDate.getUTCMonth();
+                    // don't count the last month if it isn't complete
+                    if (months > 0 && addMonths(fromTs, months) > toTs) months--;
+                    if (months < 0 && addMonths(fromTs, months) < toTs) months++;
+                    return diffUnit === "YEAR" ? (months < 0 ? Math.ceil(months / 12) : Math.floor(months / 12)) : months;
+                }
+                if (!dateUnits[diffUnit]) return undefined;
+                const diff = (toTs - fromTs) / dateUnits[diffUnit];
+                return diff < 0 ? Math.ceil(diff) : Math.floor(diff);
+            }));
+        }
+    },
+    STRFTIME: {
+        type: "S",
+        // STRFTIME(format, column)
+        call: (rows, complete, isJoin, format, column) => {
+            complete(rows.map((r) => {
+                return strftime(String(fnValue(format, r, isJoin)), toTime(fnValue(column, r, isJoin)));
+            }));
+        }
+    },
+    ROW_NUMBER: {
+        type: "W",
+        call: (rows, complete, isJoin, peers) => {
+            complete(rows.map((r, i) => i + 1));
+        }
+    },
+    RANK: {
+        type: "W",
+        call: (rows, complete, isJoin, peers: number[]) => {
+            complete(peers.map(p => peers.indexOf(p) + 1));
+        }
+    },
+    DENSE_RANK: {
+        type: "W",
+        call: (rows, complete, isJoin, peers: number[]) => {
+            complete(peers.map(p => p + 1));
+        }
+    },
+    LAG: {
+        type: "W",
+        call: (rows, complete, isJoin, peers, column, offset, defaultValue) => {
+            complete(rows.map((r, i) => windowOffset(rows, r, i - parseInt(offset || "1"), isJoin, column, defaultValue)));
+        }
+    },
+    LEAD: {
+        type: "W",
+        call: (rows, complete, isJoin, peers, column, offset, defaultValue) => {
+            complete(rows.map((r, i) => windowOffset(rows, r, i + parseInt(offset || "1"), isJoin, column, defaultValue)));
+        }
     }
 };
 
@@ -0,0 +1,996 @@
+import { IdbQueryExec } from "./std-query";
+import { JoinArgs, SetOperationArgs } from "../index";
+
+/**
+ * A single token produced by the SQL lexer.
+ *
+ * @export
+ * @interface SQLToken
+ */
+export interface SQLToken {
+    type: "word" | "string" | "number" | "param" | "op" | "punc" | "eof";
+    value: any;
+    pos: number;
+    quoted?: boolean;
+}
+
+// words that can't be used as bare aliases or column names
+const reserved = ["SELECT", "FROM", "WHERE", "GROUP", "BY", "HAVING", "ORDER", "LIMIT", "OFFSET", "JOIN", "INNER", "LEFT", "RIGHT", "OUTER", "FULL", "CROSS", "ON", "AS", "AND", "OR", "NOT", "IN", "IS", "NULL", "LIKE", "BETWEEN", "VALUES", "SET", "INTO", "INSERT", "UPSERT", "UPDATE", "DELETE", "DROP", "TABLE", "ASC", "DESC", "REGEXP", "REGEX", "HAVE", "INTERSECT", "TRUE", "FALSE", "OVER", "CASE", "WHEN", "THEN", "ELSE", "END", "DISTINCT", "UNION", "EXCEPT"];
+
+// multi character operators first so they win over their single character prefixes
+const operators = ["<=", ">=", "<>", "!=", "=", "<", ">", "*", "-", "+", "/"];
+
+/**
+ * Get the line and column (both starting at 1) of a character offset in the SQL text.
+ *
+ * @param {string} sql
+ * @param {number} pos
+ * @returns {{line: number, column: number}}
+ */
+const sqlLocation = (sql: string, pos: number): { line: number, column: number } => {
+    const lines = sql.slice(0, pos).split("\n");
+    return {
+        line: lines.length,
+        column: lines[lines.length - 1].length + 1
+    };
+};
+
+/**
+ * Build a parse error pointing at a specific character offset in the SQL text.
+ * The offset, line and column are also attached to the error object.
+ *
+ * @param {string} sql
+ * @param {number} pos
+ * @param {string} message
+ * @returns {Error}
+ */
+const sqlError = (sql: string, pos: number, message: string): Error => {
+    const loc = sqlLocation(sql, pos);
+    const err: any = new Error(`nSQL: SQL syntax error at line ${loc.line}, column ${loc.column}: ${message}`);
+    err.position = pos;
+    err.line = loc.line;
+    err.column = loc.column;
+    return err;
+};
+
+/**
+ * Split a SQL string into tokens.
+ *
+ * @export
+ * @param {string} sql
+ * @returns {SQLToken[]}
+ */
+export const tokenizeSQL = (sql: string): SQLToken[] => {
+    let tokens: SQLToken[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+        const char = sql[i];
+
+        // whitespace
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // -- line comments
+        if (char === "-" && sql[i + 1] === "-") {
+            while (i < sql.length && sql[i] !== "\n") i++;
+            continue;
+        }
+
+        // /* block comments */
+        if (char === "/" && sql[i + 1] === "*") {
+            const end = sql.indexOf("*/", i + 2);
+            if (end === -1) {
+                throw sqlError(sql, i, "Unterminated comment");
+            }
+            i = end + 2;
+            continue;
+        }
+
+        // 'string' or "string", quotes are escaped by doubling them or with a backslash
+        if (char === "'" || char === "\"") {
+            const start = i;
+            let value = "";
+            i++;
+            while (true) {
+                if (i >= sql.length) {
+                    throw sqlError(sql, start, "Unterminated string");
+                }
+                if (sql[i] === "\\" && i + 1 < sql.length) {
+                    value += sql[i + 1];
+                    i += 2;
+                    continue;
+                }
+                if (sql[i] === char) {
+                    if (sql[i + 1] === char) {
+                        value += char;
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += sql[i];
+                i++;
+            }
+            tokens.push({ type: "string", value: value, pos: start });
+            continue;
+        }
+
+        // `quoted` or [quoted] identifiers
+        if (char === "`" || char === "[") {
+            const close = char === "`" ? "`" : "]";
+            const end = sql.indexOf(close, i + 1);
+            if (end === -1) {
+                throw sqlError(sql, i, "Unterminated identifier");
+            }
+            tokens.push({ type: "word", value: sql.slice(i + 1, end), pos: i, quoted: true });
+            i = end + 1;
+            continue;
+        }
+
+        // numbers
+        const num = sql.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (num) {
+            tokens.push({ type: "number", value: parseFloat(num[0]), pos: i });
+            i += num[0].length;
+            continue;
+        }
+
+        // identifiers and keywords, dot notation is kept in a single word (users.name, meta.value)
+        const word = sql.slice(i).match(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/);
+        if (word) {
+            tokens.push({ type: "word", value: word[0], pos: i });
+            i += word[0].length;
+            continue;
+        }
+
+        if (char === "?") {
+            tokens.push({ type: "param", value: "?", pos: i });
+            i++;
+            continue;
+        }
+
+        if (["(", ")", ",", ";"].indexOf(char) !== -1) {
+            tokens.push({ type: "punc", value: char, pos: i });
+            i++;
+            continue;
+        }
+
+        const op = operators.filter(o => sql.substr(i, o.length) === o)[0];
+        if (op) {
+            tokens.push({ type: "op", value: op, pos: i });
+            i += op.length;
+            continue;
+        }
+
+        throw sqlError(sql, i, `Unexpected character "${char}"`);
+    }
+
+    tokens.push({ type: "eof", value: "", pos: sql.length });
+    return tokens;
+};
+
+/**
+ * Compiles SQL text into the query objects used by _NanoSQLQuery.
+ *
+ * Supports SELECT, INSERT/UPSERT, UPDATE, DELETE, DROP, SHOW TABLES and DESCRIBE statements.
+ * Question marks are bound to the provided arguments in order.
+ *
+ * @export
+ * @class _NanoSQLParser
+ */
+// tslint:disable-next-line
+export class _NanoSQLParser {
+
+    private _tokens: SQLToken[];
+
+    private _ptr: number;
+
+    private _paramPtr: number;
+
+    constructor(
+        public sql: string,
+        public args: any[]
+    ) {
+        this._tokens = tokenizeSQL(sql);
+        this._ptr = 0;
+        this._paramPtr = 0;
+    }
+
+    /**
+     * Parse the SQL statement into a query object.
+     *
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    public parse(): IdbQueryExec {
+        const start = this._peek();
+        let query: IdbQueryExec;
+
+        switch (this._keyword()) {
+            case "SELECT":
+                query = this._select();
+                break;
+            case "INSERT":
+            case "UPSERT":
+                query = this._insert();
+                break;
+            case "UPDATE":
+                query = this._update();
+                break;
+            case "DELETE":
+                query = this._delete();
+                break;
+            case "DROP":
+                this._next();
+                this._acceptKeyword("TABLE");
+                query = { action: "drop", table: this._identifier("table name") };
+                break;
+            case "SHOW":
+                this._next();
+                this._expectKeyword("TABLES");
+                query = { action: "show tables" };
+                break;
+            case "DESCRIBE":
+                this._next();
+                query = { action: "describe", table: this._identifier("table name") };
+                break;
+            default:
+                throw this._error("Expected SELECT, INSERT, UPSERT, UPDATE, DELETE, DROP, SHOW or DESCRIBE", start);
+        }
+
+        this._acceptPunc(";");
+        if (this._peek().type !== "eof") {
+            throw this._error("Unexpected " + this._describe(this._peek()), this._peek());
+        }
+        if (this._paramPtr < this.args.length) {
+            throw this._error(`${this.args.length} values provided for ${this._paramPtr} parameter${this._paramPtr === 1 ? "" : "s"}`, this._peek());
+        }
+        return query;
+    }
+
+    /**
+     * SELECT ... [UNION [ALL] | INTERSECT | EXCEPT SELECT ...] [ORDER BY ...] [LIMIT ...] [OFFSET ...]
+     * The ORDER BY, LIMIT and OFFSET apply to the combined rows of every select.
+     *
+     * @private
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    private _select(): IdbQueryExec {
+        let query = this._selectCore();
+
+        let setOperations: SetOperationArgs[] = [];
+        let setType = this._setOperation();
+        while (setType) {
+            setOperations.push({ type: setType, query: this._selectCore() });
+            setType = this._setOperation();
+        }
+        if (setOperations.length) {
+            query.setOperations = setOperations;
+        }
+
+        if (this._acceptKeyword("ORDER")) {
+            this._expectKeyword("BY");
+            query.orderBy = this._sortList();
+        }
+
+        if (this._acceptKeyword("LIMIT")) {
+            const first = this._integer();
+            if (this._acceptPunc(",")) { // LIMIT offset, limit
+                query.offset = first;
+                query.limit = this._integer();
+            } else {
+                query.limit = first;
+            }
+        }
+
+        if (this._acceptKeyword("OFFSET")) {
+            query.offset = this._integer();
+        }
+
+        return query;
+    }
+
+    /**
+     * UNION, UNION ALL, INTERSECT or EXCEPT between two selects.
+     *
+     * @private
+     * @returns {(SetOperationArgs["type"] | undefined)}
+     * @memberof _NanoSQLParser
+     */
+    private _setOperation(): SetOperationArgs["type"] | undefined {
+        if (this._acceptKeyword("UNION")) {
+            return this._acceptKeyword("ALL") ? "union all" : "union";
+        }
+        if (this._acceptKeyword("INTERSECT")) {
+            return "intersect";
+        }
+        if (this._acceptKeyword("EXCEPT")) {
+            return "except";
+        }
+        return undefined;
+    }
+
+    /**
+     * SELECT [DISTINCT] columns FROM table [JOIN ...] [WHERE ...] [GROUP BY ...] [HAVING ...]
+     *
+     * @private
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    private _selectCore(): IdbQueryExec {
+        this._expectKeyword("SELECT");
+        const distinct = this._acceptKeyword("DISTINCT");
+
+        let columns: string[] = [];
+        if (this._acceptOp("*")) {
+            columns = [];
+        } else {
+            do {
+                columns.push(this._selectColumn());
+            } while (this._acceptPunc(","));
+        }
+
+        this._expectKeyword("FROM");
+        let query: IdbQueryExec = {
+            action: "select",
+            table: this._identifier("table name"),
+            actionArgs: columns.length ? columns : undefined
+        };
+        if (distinct) {
+            query.distinct = true;
+        }
+
+        let joins: JoinArgs[] = [];
+        let join = this._join();
+        while (join) {
+            joins.push(join);
+            join = this._join();
+        }
+        if (joins.length) {
+            query.join = joins.length === 1 ? joins[0] : joins;
+        }
+
+        if (this._acceptKeyword("WHERE")) {
+            query.where = this._whereExpression() as any;
+        }
+
+        if (this._acceptKeyword("GROUP")) {
+            this._expectKeyword("BY");
+            query.groupBy = this._sortList();
+        }
+
+        if (this._acceptKeyword("HAVING")) {
+            query.having = this._whereExpression();
+        }
+
+        return query;
+    }
+
+    /**
+     * INSERT/UPSERT INTO table (columns) VALUES (values), (values)
+     * INSERT/UPSERT INTO table SET column = value, column = value
+     *
+     * @private
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    private _insert(): IdbQueryExec {
+        this._next();
+        this._expectKeyword("INTO");
+        const table = this._identifier("table name");
+
+        if (this._acceptKeyword("SET")) {
+            return { action: "upsert", table: table, actionArgs: this._setList() };
+        }
+
+        const columnsStart = this._peek();
+        let columns: string[] = [];
+        if (!this._acceptPunc("(")) {
+            throw this._error("Expected a column list or SET", columnsStart);
+        }
+        do {
+            columns.push(this._identifier("column name"));
+        } while (this._acceptPunc(","));
+        this._expectPunc(")");
+
+        this._expectKeyword("VALUES");
+        let rows: any[] = [];
+        do {
+            const rowStart = this._peek();
+            this._expectPunc("(");
+            let values: any[] = [];
+            do {
+                values.push(this._value(false));
+            } while (this._acceptPunc(","));
+            this._expectPunc(")");
+            if (values.length !== columns.length) {
+                throw this._error(`Expected ${columns.length} values but found ${values.length}`, rowStart);
+            }
+            rows.push(columns.reduce((row, col, i) => {
+                row[col] = values[i];
+                return row;
+            }, {}));
+        } while (this._acceptPunc(","));
+
+        return { action: "upsert", table: table, actionArgs: rows.length === 1 ? rows[0] : rows };
+    }
+
+    /**
+     * UPDATE table SET column = value, ... [WHERE ...]
+     *
+     * @private
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    private _update(): IdbQueryExec {
+        this._next();
+        const table = this._identifier("table name");
+        this._expectKeyword("SET");
+        const set = this._setList();
+        return {
+            action: "upsert",
+            table: table,
+            actionArgs: set,
+            // upserts without a where statement insert new rows, so an UPDATE without WHERE has to match every row.
+            where: this._acceptKeyword("WHERE") ? this._whereExpression() as any : (() => true)
+        };
+    }
+
+    /**
+     * DELETE FROM table [WHERE ...]
+     *
+     * @private
+     * @returns {IdbQueryExec}
+     * @memberof _NanoSQLParser
+     */
+    private _delete(): IdbQueryExec {
+        this._next();
+        this._expectKeyword("FROM");
+        let query: IdbQueryExec = { action: "delete", table: this._identifier("table name") };
+        if (this._acceptKeyword("WHERE")) {
+            query.where = this._whereExpression() as any;
+        }
+        return query;
+    }
+
+    /**
+     * A single column in the select list, including functions and AS aliases.
+     *
+     * @private
+     * @returns {string}
+     * @memberof _NanoSQLParser
+     */
+    private _selectColumn(): string {
+        let column = this._columnExpression(true);
+        if (this._acceptKeyword("OVER")) {
+            column += this._over();
+        }
+        if (this._acceptKeyword("AS")) {
+            return column + " AS " + this._identifier("alias");
+        }
+        // bare alias: SELECT COUNT(*) total FROM ...
+        const next = this._peek();
+        if (next.type === "word" && (next.quoted || reserved.indexOf(next.value.toUpperCase()) === -1)) {
+            return column + " AS " + this._identifier("alias");
+        }
+        return column;
+    }
+
+    /**
+     * The window of a window function: OVER ([PARTITION BY columns] [ORDER BY columns])
+     *
+     * @private
+     * @returns {string}
+     * @memberof _NanoSQLParser
+     */
+    private _over(): string {
+        this._expectPunc("(");
+        let clause: string[] = [];
+        if (this._acceptKeyword("PARTITION")) {
+            this._expectKeyword("BY");
+            let columns: string[] = [];
+            do {
+                columns.push(this._columnExpression());
+            } while (this._acceptPunc(","));
+            clause.push("PARTITION BY " + columns.join(", "));
+        }
+        if (this._acceptKeyword("ORDER")) {
+            this._expectKeyword("BY");
+            const orderBy = this._sortList();
+            clause.push("ORDER BY " + Object.keys(orderBy).map(k => k + " " + orderBy[k].toUpperCase()).join(", "));
+        }
+        this._expectPunc(")");
+        return " OVER (" + clause.join(" ") + ")";
+    }
+
+    /**
+     * A column name or a function call like COUNT(*), COUNT(DISTINCT email) or levenshtein(word, name).
+     * Select columns keep their string arguments quoted so functions can tell them apart from columns, ie CONCAT(name, ' ', email).
+     *
+     * @private
+     * @param {boolean} [quoteStrings]
+     * @returns {string}
+     * @memberof _NanoSQLParser
+     */
+    private _columnExpression(quoteStrings?: boolean): string {
+        if (quoteStrings && this._acceptKeyword("CASE")) {
+            return this._case();
+        }
+
+        const name = this._identifier("column name");
+        if (!this._acceptPunc("(")) {
+            return name;
+        }
+
+        let fnArgs: string[] = [];
+        if (!this._acceptPunc(")")) {
+            const distinct = this._acceptKeyword("DISTINCT") ? "DISTINCT " : "";
+            do {
+                fnArgs.push(this._functionArg(quoteStrings));
+            } while (this._acceptPunc(","));
+            this._expectPunc(")");
+            fnArgs[0] = distinct + fnArgs[0];
+        }
+        return name + "(" + fnArgs.join(", ") + ")";
+    }
+
+    /**
+     * A single function argument: *, a column, a nested function call or a value.
+     *
+     * @private
+     * @param {boolean} [quoteStrings]
+     * @returns {string}
+     * @memberof _NanoSQLParser
+     */
+    private _functionArg(quoteStrings?: boolean): string {
+        const token = this._peek();
+        if (this._acceptOp("*")) {
+            return "*";
+        }
+        if (token.type === "word" && !token.quoted && (reserved.indexOf(token.value.toUpperCase()) === -1 || (quoteStrings && token.value.toUpperCase() === "CASE"))) {
+            return this._columnExpression(quoteStrings);
+        }
+        const value = this._value(false);
+        if (quoteStrings && typeof value === "string") {
+            return "'" + value.replace(/'/g, "''") + "'";
+        }
+        if (quoteStrings && value === null) {
+            return "NULL";
+        }
+        return String(value);
+    }
+
+    /**
+     * CASE WHEN condition THEN value [WHEN ...] [ELSE value] END, compiles to CASE(condition, value, ..., elseValue)
+     *
+     * @private
+     * @returns {string}
+     * @memberof _NanoSQLParser
+     */
+    private _case(): string {
+        let caseArgs: string[] = [];
+        this._expectKeyword("WHEN");
+        do {
+            const left = this._functionArg(true);
+            const token = this._peek();
+            if (token.type === "op" && ["=", "!=", "<>", "<", "<=", ">", ">="].indexOf(token.value) !== -1) {
+                this._next();
+                caseArgs.push(left + " " + token.value + " " + this._functionArg(true));
+            } else if (this._acceptKeyword("IS")) {
+                const not = this._acceptKeyword("NOT");
+                this._expectKeyword("NULL");
+                caseArgs.push(left + (not ? " != " : " = ") + "NULL");
+            } else {
+                throw this._error("Expected a comparison operator but found " + this._describe(token), token);
+            }
+            this._expectKeyword("THEN");
+            caseArgs.push(this._functionArg(true));
+        } while (this._acceptKeyword("WHEN"));
+
+        if (this._acceptKeyword("ELSE")) {
+            caseArgs.push(this._functionArg(true));
+        }
+        this._expectKeyword("END");
+        return "CASE(" + caseArgs.join(", ") + ")";
+    }
+
+    /**
+     * [INNER | LEFT [OUTER] | RIGHT [OUTER] | FULL [OUTER] | OUTER | CROSS] JOIN table [[AS] alias] [ON conditions]
+     *
+     * @private
+     * @returns {(JoinArgs|undefined)}
+     * @memberof _NanoSQLParser
+     */
+    private _join(): JoinArgs | undefined {
+        let type: "left" | "inner" | "right" | "cross" | "outer";
+
+        switch (this._keyword()) {
+            case "JOIN":
+                type = "inner";
+                break;
+            case "INNER":
+                this._next();
+                type = "inner";
+                break;
+            case "LEFT":
+            case "RIGHT":
+                type = this._next().value.toLowerCase();
+                this._acceptKeyword("OUTER");
+                break;
+            case "FULL":
+                this._next();
+                this._acceptKeyword("OUTER");
+                type = "outer";
+                break;
+            case "OUTER":
+                this._next();
+                type = "outer";
+                break;
+            case "CROSS":
+                this._next();
+                type = "cross";
+                break;
+            default:
+                return undefined;
+        }
+
+        this._expectKeyword("JOIN");
+        const join: JoinArgs = { type: type, table: this._identifier("table name") };
+
+        // JOIN users AS u or JOIN users u
+        const alias = this._peek();
+        if (this._acceptKeyword("AS") || (alias.type === "word" && (alias.quoted || reserved.indexOf(alias.value.toUpperCase()) === -1))) {
+            join.table += " AS " + this._identifier("alias");
+        }
+
+        if (type === "cross") {
+            return join;
+        }
+
+        this._expectKeyword("ON");
+        join.where = this._whereExpression(true);
+        return join;
+    }
+
+    /**
+     * Parse a full where expression, AND binds tighter than OR just like SQL.
+     * Mixed AND/OR expressions are nested so nanoSQL evaluates them with the same precedence.
+     *
+     * @private
+     * @param {boolean} [isJoin]
+     * @returns {any[]}
+     * @memberof _NanoSQLParser
+     */
+    private _whereExpression(isJoin?: boolean): any[] {
+        let orTerms: any[][] = [];
+        let andTerms: any[] = [this._wherePrimary(isJoin)];
+
+        while (true) {
+            if (this._acceptKeyword("AND")) {
+                andTerms.push(this._wherePrimary(isJoin));
+            } else if (this._acceptKeyword("OR")) {
+                orTerms.push(andTerms);
+                andTerms = [this._wherePrimary(isJoin)];
+            } else {
+                break;
+            }
+        }
+        orTerms.push(andTerms);
+
+        const combine = (items: any[], conj: string): any[] => {
+            // pull nested groups that use the same conjunction up a level
+            const flat = items.reduce((prev, item) => {
+                if (typeof item[0] !== "string" && item.filter((v, i) => i % 2 === 1).filter(c => c !== conj).length === 0) {
+                    return prev.concat(item.filter((v, i) => i % 2 === 0));
+                }
+                return prev.concat([item]);
+            }, []);
+            if (flat.length === 1) return flat[0];
+            return flat.reduce((prev, cur, i) => i ? prev.concat([conj, cur]) : [cur], []);
+        };
+
+        return combine(orTerms.map(terms => combine(terms, "AND")), "OR");
+    }
+
+    /**
+     * A single comparison or a parenthesized where expression.
+     *
+     * @private
+     * @param {boolean} [isJoin]
+     * @returns {any[]}
+     * @memberof _NanoSQLParser
+     */
+    private _wherePrimary(isJoin?: boolean): any[] {
+        if (this._acceptPunc("(")) {
+            const group = this._whereExpression(isJoin);
+            this._expectPunc(")");
+            return group;
+        }
+        return this._condition(isJoin);
+    }
+
+    /**
+     * A single comparison: column operator value
+     *
+     * @private
+     * @param {boolean} [isJoin]
+     * @returns {any[]}
+     * @memberof _NanoSQLParser
+     */
+    private _condition(isJoin?: boolean): any[] {
+        const column = this._columnExpression();
+        const token = this._peek();
+
+        if (token.type === "op" && ["=", "!=", "<>", "<", "<=", ">", ">="].indexOf(token.value) !== -1) {
+            this._next();
+            const value = this._value(isJoin);
+            return [column, token.value === "<>" ? "!=" : token.value, value === null ? "NULL" : value];
+        }
+
+        if (this._acceptKeyword("IS")) {
+            const not = this._acceptKeyword("NOT");
+            this._expectKeyword("NULL");
+            return [column, not ? "!=" : "=", "NULL"];
+        }
+
+        const not = this._acceptKeyword("NOT");
+        const opToken = this._peek();
+        switch (this._keyword()) {
+            case "IN":
+                this._next();
+                const list = this._value(false, true);
+                if (!Array.isArray(list)) {
+                    throw this._error("Expected a list of values", opToken);
+                }
+                return [column, not ? "NOT IN" : "IN", list];
+            case "BETWEEN":
+                if (not) {
+                    throw this._error("NOT BETWEEN is not supported", opToken);
+                }
+                this._next();
+                const from = this._value(false);
+                this._expectKeyword("AND");
+                return [column, "BETWEEN", [from, this._value(false)]];
+            case "LIKE":
+            case "HAVE":
+            case "INTERSECT":
+                this._next();
+                return [column, (not ? "NOT " : "") + opToken.value.toUpperCase(), this._value(false)];
+            case "REGEXP":
+            case "REGEX":
+                if (not) {
+                    throw this._error("NOT REGEXP is not supported", opToken);
+                }
+                this._next();
+                return [column, "REGEXP", this._value(false)];
+            default:
+                throw this._error("Expected a comparison operator but found " + this._describe(opToken), opToken);
+        }
+    }
+
+    /**
+     * Comma separated columns with optional ASC/DESC, used by GROUP BY and ORDER BY.
+     *
+     * @private
+     * @returns {{[column: string]: "asc" | "desc"}}
+     * @memberof _NanoSQLParser
+     */
+    private _sortList(): { [column: string]: "asc" | "desc" } {
+        let columns: { [column: string]: "asc" | "desc" } = {};
+        do {
+            const column = this._columnExpression();
+            if (this._acceptKeyword("DESC")) {
+                columns[column] = "desc";
+            } else {
+                this._acceptKeyword("ASC");
+                columns[column] = "asc";
+            }
+        } while (this._acceptPunc(","));
+        return columns;
+    }
+
+    /**
+     * column = value, column = value
+     *
+     * @private
+     * @returns {{[column: string]: any}}
+     * @memberof _NanoSQLParser
+     */
+    private _setList(): { [column: string]: any } {
+        let set: { [column: string]: any } = {};
+        do {
+            const column = this._identifier("column name");
+            this._expectOp("=");
+            set[column] = this._value(false);
+        } while (this._acceptPunc(","));
+        return set;
+    }
+
+    /**
+     * A literal value, bound parameter or parenthesized list of values.
+     * Column references are only allowed when parsing join conditions.
+     * IN lists spread array parameters into the list, so "IN (?)" works with an array.
+     *
+     * @private
+     * @param {boolean} [allowColumn]
+     * @param {boolean} [spreadParams]
+     * @returns {*}
+     * @memberof _NanoSQLParser
+     */
+    private _value(allowColumn?: boolean, spreadParams?: boolean): any {
+        const token = this._peek();
+        switch (token.type) {
+            case "string":
+            case "number":
+                this._next();
+                return token.value;
+            case "param":
+                this._next();
+                if (this._paramPtr >= this.args.length) {
+                    throw this._error(`No value provided for parameter ${this._paramPtr + 1}`, token);
+                }
+                this._paramPtr++;
+                return this.args[this._paramPtr - 1];
+            case "op":
+                if (token.value === "-" && this._peek(1).type === "number") {
+                    this._next();
+                    return this._next().value * -1;
+                }
+                break;
+            case "punc":
+                if (token.value === "(") {
+                    this._next();
+                    let list: any[] = [];
+                    if (!this._acceptPunc(")")) {
+                        do {
+                            const isParam = this._peek().type === "param";
+                            const value = this._value(allowColumn);
+                            if (spreadParams && isParam && Array.isArray(value)) {
+                                list = list.concat(value);
+                            } else {
+                                list.push(value);
+                            }
+                        } while (this._acceptPunc(","));
+                        this._expectPunc(")");
+                    }
+                    return list;
+                }
+                break;
+            case "word":
+                if (!token.quoted) {
+                    switch (token.value.toUpperCase()) {
+                        case "TRUE":
+                            this._next();
+                            return true;
+                        case "FALSE":
+                            this._next();
+                            return false;
+                        case "NULL":
+                            this._next();
+                            return null;
+                    }
+                }
+                if (allowColumn) {
+                    return this._identifier("column name");
+                }
+                break;
+        }
+        throw this._error("Expected a value but found " + this._describe(token), token);
+    }
+
+    /**
+     * A whole number, used by LIMIT and OFFSET.
+     *
+     * @private
+     * @returns {number}
+     * @memberof _NanoSQLParser
+     */
+    private _integer(): number {
+        const token = this._peek();
+        const value = this._value(false);
+        if (typeof value !== "number" || value < 0 || Math.round(value) !== value) {
+            throw this._error("Expected a positive whole number", token);
+        }
+        return value;
+    }
+
+    private _identifier(what: string): string {
+        const token = this._peek();
+        if (token.type !== "word" || (!token.quoted && reserved.indexOf(token.value.toUpperCase()) !== -1)) {
+            throw this._error(`Expected ${what} but found ${this._describe(token)}`, token);
+        }
+        this._next();
+        return token.value;
+    }
+
+    private _keyword(): string {
+        const token = this._peek();
+        return token.type === "word" && !token.quoted ? token.value.toUpperCase() : "";
+    }
+
+    private _acceptKeyword(keyword: string): boolean {
+        if (this._keyword() === keyword) {
+            this._next();
+            return true;
+        }
+        return false;
+    }
+
+    private _expectKeyword(keyword: string): void {
+        if (!this._acceptKeyword(keyword)) {
+            throw this._error(`Expected ${keyword} but found ${this._describe(this._peek())}`, this._peek());
+        }
+    }
+
+    private _acceptPunc(punc: string): boolean {
+        const token = this._peek();
+        if (token.type === "punc" && token.value === punc) {
+            this._next();
+            return true;
+        }
+        return false;
+    }
+
+    private _expectPunc(punc: string): void {
+        if (!this._acceptPunc(punc)) {
+            throw this._error(`Expected "${punc}" but found ${this._describe(this._peek())}`, this._peek());
+        }
+    }
+
+    private _acceptOp(op: string): boolean {
+        const token = this._peek();
+        if (token.type === "op" && token.value === op) {
+            this._next();
+            return true;
+        }
+        return false;
+    }
+
+    private _expectOp(op: string): void {
+        if (!this._acceptOp(op)) {
+            throw this._error(`Expected "${op}" but found ${this._describe(this._peek())}`, this._peek());
+        }
+    }
+
+    private _peek(ahead?: number): SQLToken {
+        return this._tokens[Math.min(this._ptr + (ahead || 0), this._tokens.length - 1)];
+    }
+
+    private _next(): SQLToken {
+        const token = this._peek();
+        if (token.type !== "eof") {
+            this._ptr++;
+        }
+        return token;
+    }
+
+    private _describe(token: SQLToken): string {
+        switch (token.type) {
+            case "eof": return "end of input";
+            case "string": return `'${token.value}'`;
+            case "param": return "?";
+            default: return `"${token.value}"`;
+        }
+    }
+
+    private _error(message: string, token: SQLToken): Error {
+        return sqlError(this.sql, token.pos, message);
+    }
+}
+
+/**
+ * Compile a SQL statement into a query object, binding any "?" placeholders to the provided arguments.
+ *
+ * @export
+ * @param {string} sql
+ * @param {any[]} [args]
+ * @returns {IdbQueryExec}
+ */
+export const parseSQL = (sql: string, args?: any[]): IdbQueryExec => {
+    return new _NanoSQLParser(sql, args || []).parse();
+};
@@ -1,5 +1,5 @@
-import { NanoSQLInstance, ORMArgs, JoinArgs, DBRow, DatabaseEvent } from "../index";
-import { _assign, StdObject, uuid, cast, Promise, timeid, fastCHAIN, fastALL, hash } from "../utilities";
+import { NanoSQLInstance, ORMArgs, JoinArgs, SetOperationArgs, DBRow, DatabaseEvent } from "../index";
+import { _assign, StdObject, uuid, cast, isType, Promise, timeid, fastCHAIN, fastALL, hash } from "../utilities";
 
 export interface IdbQuery extends IdbQueryBase {
     table: string | any[];
@@ -20,13 +20,65 @@ export interface IdbQueryBase {
     orderBy?: { [column: string]: "asc" | "desc" };
     groupBy?: { [column: string]: "asc" | "desc" };
     having?: any[];
+    distinct?: boolean;
     join?: JoinArgs | JoinArgs[];
+    setOperations?: SetOperationArgs[];
     limit?: number;
     offset?: number;
     on?: any[];
     debounce?: number;
     trie?: { column: string, search: string };
     extend?: any[];
+    error?: string;
+    explain?: boolean;
+    plan?: QueryPlan;
+    stream?: (row: DBRow, next: (stop?: boolean) => void) => void;
+    after?: string;
+    page?: boolean;
+    cursor?: string;
+    highlight?: { pre: string, post: string, length: number };
+    upsertMode?: "merge" | "replace" | "insert" | "ignore" | "update";
+    withDeleted?: boolean;
+}
+
+/**
+ * A single step of an explained query.
+ *
+ * @export
+ * @interface QueryPlanStage
+ */
+export interface QueryPlanStage {
+    stage: "where" | "join" | "groupBy" | "having" | "orm" | "functions" | "distinct" | "union" | "intersect" | "except" | "orderBy" | "offset" | "limit";
+    estimated: number; // rows the planner expected the stage to scan
+    scanned: number; // rows the stage actually scanned
+    rows: number; // rows left after the stage
+    time: number; // milliseconds
+}
+
+/**
+ * The result of .explain(), describes how a select query found its rows.
+ *
+ * @export
+ * @interface QueryPlan
+ */
+export interface QueryPlan {
+    access: "pk" | "range" | "trie" | "compound index" | "index" | "search" | "crow" | "geo" | "index merge" | "distinct index" | "full scan" | "join";
+    indexes: string[]; // indexes used to find the rows
+    filtered: boolean; // rows from the index are checked against the leftover where conditions
+    stages: QueryPlanStage[];
+    time: number; // milliseconds for the whole query
+}
+
+/**
+ * Pulls the rows of a select query one at a time, returned by .iterate().
+ * Where Symbol.asyncIterator exists the iterator also works with "for await", the typings leave that out so they compile with the ES5 libs.
+ *
+ * @export
+ * @interface QueryIterator
+ */
+export interface QueryIterator {
+    next: () => Promise<{ done: boolean, value: DBRow | undefined }>;
+    return: () => Promise<{ done: boolean, value: DBRow | undefined }>;
 }
 
 export interface IdbQueryExec extends IdbQueryBase {
@@ -40,13 +92,31 @@ export interface IdbQueryExec extends IdbQueryBase {
 
 const blankRow = { affectedRowPKS: [], affectedRows: [] };
 
+declare var Symbol: any;
+
+/**
+ * Swap subqueries in where conditions for their query objects, the storage layer runs them.
+ *
+ * @param {*} args
+ * @returns {*}
+ */
+const emitSubqueries = (args: any): any => {
+    if (args instanceof _NanoSQLQuery) return args.emit();
+    if (Array.isArray(args)) return args.map(emitSubqueries);
+    return args;
+};
+
 
-const runQuery = (self: _NanoSQLQuery, complete: (result: any) => void) => {
+const runQuery = (self: _NanoSQLQuery, complete: (result: any) => void, error?: (err: string) => void) => {
 
     if (self._db.plugins.length === 1 && !self._db.hasAnyEvents) {
         // fast query path, only used if there's a single plugin and no event listeners
         (self._db.plugins[0] as any).doExec(self._query, (newQ) => {
             self._query = newQ;
+            if (self._query.error && error) {
+                error(self._query.error);
+                return;
+            }
             if (self._db.hasPK[self._query.table as string]) {
                 complete(self._query.result);
             } else {
@@ -66,7 +136,9 @@ const runQuery = (self: _NanoSQLQuery, complete: (result: any) => void) => {
             }
         }).then(() => {
 
-            if (self._db.hasPK[self._query.table as string]) {
+            if (self._query.error && error) {
+                error(self._query.error);
+            } else if (self._db.hasPK[self._query.table as string]) {
                 complete(self._query.result);
             } else {
                 complete(self._query.result.map(r => ({ ...r, _id_: undefined })));
@@ -75,11 +147,14 @@ const runQuery = (self: _NanoSQLQuery, complete: (result: any) => void) => {
             if (self._db.hasAnyEvents || self._db.pluginHasDidExec) {
 
                 const eventTypes: ("change" | "delete" | "upsert" | "drop" | "select" | "error" | "transaction")[] = (() => {
+                    if (self._query.error) return ["error"];
                     switch (self._query.action) {
                         case "select": return [self._query.action];
                         case "delete":
                         case "upsert":
                         case "drop": return [self._query.action, "change"];
+                        case "restore": return ["upsert", "change"];
+                        case "purge": return ["delete", "change"];
                         default: return [] as any[];
                     }
                 })();
@@ -92,7 +167,7 @@ const runQuery = (self: _NanoSQLQuery, complete: (result: any) => void) => {
                     query: self._query,
                     time: Date.now(),
                     result: self._query.result,
-                    notes: [],
+                    notes: self._query.error ? [self._query.error] : self._query.comments.indexOf("_expired_") !== -1 ? ["expired"] : [],
                     types: eventTypes,
                     actionOrView: self._AV,
                     transactionID: self._query.transaction ? self._query.queryID : undefined,
@@ -164,6 +239,14 @@ export class _NanoSQLQuery {
      * .where([['id','>',50],'or',['postIDs','IN',[12,20,30]],'and',['name','LIKE','Billy']])
      * ```
      *
+     * Select queries can be used in place of values, they run once before the rows are selected:
+     *
+     * ```ts
+     * .where(['id','IN',nSQL("orders").query("select",["userID"]).where(['total','>',100])]) // first column of every row
+     * .where(['balance','=',nSQL("users").query("select",["MAX(balance)"])]) // first column of the first row
+     * .where(['EXISTS',nSQL("orders").query("select").where(['status','=','late'])]) // EXISTS or NOT EXISTS
+     * ```
+     *
      * @param {(Array<any|Array<any>>)} args
      * @returns {_NanoSQLQuery}
      *
@@ -244,6 +327,78 @@ export class _NanoSQLQuery {
         return this;
     }
 
+    /**
+     * Only return unique rows, rows with the same values in every selected column are only returned once.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("users").query("select",["favoriteColor"]).distinct().exec();
+     * ```
+     *
+     * If the only selected column is a secondary index the values are read from the index instead of the rows.
+     *
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public distinct(): _NanoSQLQuery {
+        this._query.distinct = true;
+        return this;
+    }
+
+    /**
+     * Show where search() matched, rows found with search() get a "_highlights" column.
+     * It has the matched words with their character offsets and a snippet around the best match for each searched column.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("posts").query("select").where(["search(title, body)", ">0", "nano sql"]).highlight({pre: "<em>", post: "</em>"}).exec().then((rows) => {
+     *     // rows[0]._highlights.body = {
+     *     //     matches: [{word: "nanoSQL", start: 12, end: 19}, ...],
+     *     //     snippet: "...the <em>nanoSQL</em> docs..."
+     *     // }
+     * });
+     * ```
+     *
+     * The snippet is about length characters long (100 by default), matches are wrapped with pre and post ("<b>" and "</b>" by default).
+     * The text isn't escaped, use the offsets to build the highlights yourself if it might contain markup.
+     *
+     * @param {{ pre?: string, post?: string, length?: number }} [args]
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public highlight(args?: { pre?: string, post?: string, length?: number }): _NanoSQLQuery {
+        this._query.highlight = {
+            pre: "<b>",
+            post: "</b>",
+            length: 100,
+            ...(args || {})
+        };
+        return this;
+    }
+
+    /**
+     * Include soft deleted rows, tables with the "softDelete" table prop leave them out by default.
+     * Deleted rows have the time they were deleted in their "_deletedAt" column.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("users").query("select").where(["_deletedAt", ">", 0]).withDeleted().exec() // only the deleted rows
+     * ```
+     *
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public withDeleted(): _NanoSQLQuery {
+        this._query.withDeleted = true;
+        return this;
+    }
+
     /**
      * Group By command, typically used with an aggregate function.
      *
@@ -301,7 +456,17 @@ export class _NanoSQLQuery {
      * 2. Possible join types are `inner`, `left`, `right`, and `outer`.
      * 3. The "table" argument lets you determine the data on the right side of the join.
      * 4. The "where" argument lets you set what conditions the tables are joined on.
+     * 5. Pass an array of joins to chain them, each join can use the columns of the tables joined before it.
+     * 6. Use "table AS alias" to join a table more than once:
      *
+     * ```ts
+     *  nSQL("users")
+     *  .query("select", ["users.name", "boss.name AS boss"])
+     *  .join([
+     *      { type: "left", table: "users AS boss", where: ["users.bossID", "=", "boss.id"] },
+     *      { type: "inner", table: "posts", where: [["posts.author", "=", "users.id"], "AND", ["posts.date", ">", "boss.startDate"]] }
+     *  ]).exec();
+     *```
      *
      *
      * @param {JoinArgs} args
@@ -330,6 +495,83 @@ export class _NanoSQLQuery {
         return this;
     }
 
+    /**
+     * Combine the rows of this select query with the unique rows of another select query, duplicate rows are removed.
+     * The other query's columns are matched to this query's columns by position and must have the same data model types.
+     * The ORDER BY, OFFSET and LIMIT of this query are applied to the combined rows.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("users").query("select",["id","name"])
+     * .union(nSQL("archivedUsers").query("select",["id","name"]))
+     * .orderBy({name:"asc"}).limit(20).exec();
+     * ```
+     *
+     * Set operations run in the order they're added, each one combines the rows so far with the next query.
+     *
+     * @param {_NanoSQLQuery} query
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public union(query: _NanoSQLQuery): _NanoSQLQuery {
+        return this._setOperation("union", query);
+    }
+
+    /**
+     * Like .union() but keeps every row from both queries, including duplicates.
+     *
+     * @param {_NanoSQLQuery} query
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public unionAll(query: _NanoSQLQuery): _NanoSQLQuery {
+        return this._setOperation("union all", query);
+    }
+
+    /**
+     * Only keep the unique rows that are also found in another select query, see .union() for how the queries are combined.
+     *
+     * @param {_NanoSQLQuery} query
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public intersect(query: _NanoSQLQuery): _NanoSQLQuery {
+        return this._setOperation("intersect", query);
+    }
+
+    /**
+     * Only keep the unique rows that aren't found in another select query, see .union() for how the queries are combined.
+     *
+     * @param {_NanoSQLQuery} query
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public except(query: _NanoSQLQuery): _NanoSQLQuery {
+        return this._setOperation("except", query);
+    }
+
+    /**
+     * Add a set operation to this query.
+     *
+     * @internal
+     * @param {SetOperationArgs["type"]} type
+     * @param {_NanoSQLQuery} query
+     * @returns {_NanoSQLQuery}
+     * @memberof _NanoSQLQuery
+     */
+    private _setOperation(type: SetOperationArgs["type"], query: _NanoSQLQuery): _NanoSQLQuery {
+        if (!(query instanceof _NanoSQLQuery)) {
+            this._error = "nSQL: " + type.toUpperCase() + " needs a query!";
+        }
+        this._query.setOperations = (this._query.setOperations || []).concat([{ type: type, query: query }]);
+        return this;
+    }
+
     /**
      * Limits the result to a specific amount.  Example:
      *
@@ -402,6 +644,65 @@ export class _NanoSQLQuery {
         return this;
     }
 
+    /**
+     * Start the results after the last row of a previous page, use with .page() to get the cursor.
+     * The query must have the same order by (the primary key or a secondary index) and a limit.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("users").query("select").orderBy({age: "asc"}).limit(20).page().then((page) => {
+     *     // page.rows has the first 20 rows
+     *     return nSQL("users").query("select").orderBy({age: "asc"}).limit(20).after(page.cursor).page();
+     * }).then((page) => {
+     *     // next 20 rows
+     * });
+     * ```
+     *
+     * Unlike .offset(), the skipped rows aren't read so every page takes about the same time.
+     *
+     * @param {string} cursor
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public after(cursor: string): _NanoSQLQuery {
+        this._query.after = cursor;
+        return this;
+    }
+
+    /**
+     * Choose what an upsert does with rows that already exist (or don't).
+     *
+     * - "merge" (default): new rows are inserted, existing rows get the new values merged in.
+     * - "replace": like merge but existing rows are replaced, columns missing from the new row are removed.
+     * - "insert": only insert, the query fails without writing anything if a primary key already exists or is repeated in the upsert.
+     * - "ignore": only insert, rows with a primary key that already exists are skipped.
+     * - "update": only update, rows that don't exist are skipped.
+     *
+     * Example:
+     *
+     * ```ts
+     * nSQL("users").query("upsert", {id: 1, name: "Bill"}).upsertMode("insert").exec().then((result) => {
+     *     // result[0].changes = [{before: undefined, after: {id: 1, name: "Bill"}}]
+     * }).catch((err) => {
+     *     // nSQL: Insert failed, users.id "1" already exists!
+     * });
+     * ```
+     *
+     * The result has the written rows in "affectedRows" and each row before and after the upsert in "changes".
+     * Upserts with a where can only merge, replace or update.
+     *
+     * @param {("merge" | "replace" | "insert" | "ignore" | "update")} mode
+     * @returns {_NanoSQLQuery}
+     *
+     * @memberOf _NanoSQLQuery
+     */
+    public upsertMode(mode: "merge" | "replace" | "insert" | "ignore" | "update"): _NanoSQLQuery {
+        this._query.upsertMode = mode;
+        return this;
+    }
+
     /**
      * Export the built query object.
      *
@@ -441,6 +742,220 @@ export class _NanoSQLQuery {
         });
     }
 
+    /**
+     * Runs the select query and returns how it was executed instead of the rows, use in place of "exec()".
+     *
+     * Example:
+     * nSQL("users").query("select").where(["age", ">", 20]).explain().then(function(plan) {
+     *     console.log(plan);
+     *     // {
+     *     //     access: "index",
+     *     //     indexes: ["age"],
+     *     //     filtered: false,
+     *     //     stages: [{stage: "where", estimated: 34, scanned: 20, rows: 20, time: 0.31}],
+     *     //     time: 0.52
+     *     // }
+     * });
+     *
+     * @returns {Promise<QueryPlan>}
+     * @memberof _NanoSQLQuery
+     */
+    public explain(): Promise<QueryPlan> {
+        return new Promise((res, rej) => {
+            if ((this._query.action || "").toLowerCase().trim() !== "select") {
+                rej("nSQL: Only select queries can be explained!");
+                return;
+            }
+            if (Array.isArray(this._query.table)) {
+                rej("nSQL: Can't explain instance table queries!");
+                return;
+            }
+            this._query.explain = true;
+            this.exec().then(() => {
+                res(this._query.plan);
+            }).catch(rej);
+        });
+    }
+
+    /**
+     * Runs the select query and returns a page of rows with a cursor for the next page, use in place of "exec()".
+     * The cursor is undefined once there are no more rows, pass it to .after() to get the next page.
+     *
+     * Example:
+     * nSQL("users").query("select").orderBy({id: "desc"}).limit(50).page().then(function(page) {
+     *     console.log(page.rows, page.cursor);
+     * });
+     *
+     * @returns {Promise<{ rows: DBRow[], cursor: string | undefined }>}
+     * @memberof _NanoSQLQuery
+     */
+    public page(): Promise<{ rows: DBRow[], cursor: string | undefined }> {
+        return new Promise((res, rej) => {
+            if ((this._query.action || "").toLowerCase().trim() !== "select") {
+                rej("nSQL: Only select queries can be paged!");
+                return;
+            }
+            this._query.page = true;
+            this.exec().then((rows) => {
+                res({ rows: rows, cursor: this._query.cursor });
+            }).catch(rej);
+        });
+    }
+
+    /**
+     * Runs the select query and passes each row to onRow as it's read instead of returning every row at once, use in place of "exec()".
+     * Rows are read from the adapter one at a time for queries with only where, offset, limit and select lists without aggregates.
+     * Other queries (ORDER BY, GROUP BY, aggregates, joins...) need every row first, so they're selected normally then streamed.
+     *
+     * Example:
+     * nSQL("users").query("select", ["id", "name"]).where(["age", ">", 20]).limit(1000).stream(function(row, idx) {
+     *     console.log(row);
+     * }, function(err) {
+     *     console.log("Done!");
+     * });
+     *
+     * @param {(row: DBRow, idx: number) => void} onRow
+     * @param {(err?: any) => void} [onDone]
+     * @memberof _NanoSQLQuery
+     */
+    public stream(onRow: (row: DBRow, idx: number) => void, onDone?: (err?: any) => void): void {
+        let i = 0;
+        this._streamQuery((row, next) => {
+            onRow(row, i);
+            i++;
+            next();
+        }).then(() => {
+            if (onDone) onDone();
+        }).catch((err) => {
+            if (onDone) onDone(err);
+        });
+    }
+
+    /**
+     * Runs the select query and returns an async iterator of it's rows, use in place of "exec()".
+     * Rows are only read as they're asked for, see .stream() for the queries that can read rows one at a time.
+     * Transactions wait for the iterator to finish, read it to the end or call return() once you're done with it.
+     *
+     * Example:
+     * for await (const row of nSQL("users").query("select").where(["age", ">", 20]).iterate() as any as AsyncIterable<any>) {
+     *     console.log(row);
+     * }
+     *
+     * @returns {QueryIterator}
+     * @memberof _NanoSQLQuery
+     */
+    public iterate(): QueryIterator {
+        let waiting: { res: (result: { done: boolean, value: DBRow | undefined }) => void, rej: (err: any) => void }[] = [];
+        let nextRow: ((stop?: boolean) => void) | undefined;
+        let started = false;
+        let finished = false;
+        let stopping = false;
+        let settled: Promise<any> | undefined;
+        let error: any;
+
+        const pull = () => {
+            const next = nextRow;
+            nextRow = undefined;
+            if (next) next();
+        };
+
+        const iterator: QueryIterator = {
+            next: () => {
+                return new Promise((res, rej) => {
+                    if (error !== undefined) {
+                        rej(error);
+                        return;
+                    }
+                    if (finished) {
+                        res({ done: true, value: undefined });
+                        return;
+                    }
+                    waiting.push({ res: res, rej: rej });
+                    if (started) {
+                        pull();
+                        return;
+                    }
+                    started = true;
+                    settled = this._streamQuery((row, next) => {
+                        // return() was called while this row was read
+                        if (stopping) {
+                            next(true);
+                            return;
+                        }
+                        nextRow = next;
+                        const reader = waiting.shift();
+                        if (reader) reader.res({ done: false, value: row });
+                        // next() was called again before this row came in
+                        if (waiting.length) pull();
+                    }).then(() => {
+                        finished = true;
+                        waiting.forEach(w => w.res({ done: true, value: undefined }));
+                        waiting = [];
+                    }).catch((err) => {
+                        error = err;
+                        waiting.forEach(w => w.rej(err));
+                        waiting = [];
+                    });
+                });
+            },
+            // stop reading rows, used when a "for await" loop ends early, resolves once the query is done
+            return: () => {
+                if (!settled || finished || error !== undefined) {
+                    finished = true;
+                    return Promise.resolve({ done: true, value: undefined });
+                }
+                stopping = true;
+                const next = nextRow;
+                nextRow = undefined;
+                if (next) next(true);
+                return settled.then(() => {
+                    return { done: true, value: undefined };
+                });
+            }
+        };
+
+        if (typeof Symbol !== "undefined" && Symbol.asyncIterator) {
+            iterator[Symbol.asyncIterator] = () => iterator;
+        }
+        return iterator;
+    }
+
+    /**
+     * Run this query with a stream callback that gets each row and a function to read the next one.
+     *
+     * @internal
+     * @param {(row: DBRow, next: (stop?: boolean) => void) => void} onRow next(true) stops the query
+     * @returns {Promise<any>}
+     * @memberof _NanoSQLQuery
+     */
+    private _streamQuery(onRow: (row: DBRow, next: (stop?: boolean) => void) => void): Promise<any> {
+        return new Promise((res, rej) => {
+            if ((this._query.action || "").toLowerCase().trim() !== "select") {
+                rej("nSQL: Only select queries can be streamed!");
+                return;
+            }
+            // instance tables are already in memory
+            if (Array.isArray(this._query.table)) {
+                let stopped = false;
+                this.exec().then((rows: DBRow[]) => {
+                    return fastCHAIN(rows, (row, i, next) => {
+                        if (stopped) {
+                            next();
+                            return;
+                        }
+                        onRow(row, (stop) => {
+                            stopped = stop === true;
+                            next();
+                        });
+                    });
+                }).then(res).catch(rej);
+                return;
+            }
+            this._query.stream = onRow;
+            this.exec().then(res).catch(rej);
+        });
+    }
+
     /**
      * Pass in a query object to manually execute a query against the system.
      *
@@ -604,12 +1119,15 @@ export class _NanoSQLQuery {
             return this.denormalizationQuery(a);
         }
 
-        if (["select", "upsert", "delete", "drop", "show tables", "describe"].indexOf(a) > -1) {
+        if (["select", "upsert", "delete", "drop", "restore", "purge", "show tables", "describe"].indexOf(a) > -1) {
 
             let newArgs = this._query.actionArgs || (a === "select" ? [] : {});
             let setArgs: any = [];
             if (a === "upsert") {
 
+                // strict mode leaves values of the wrong type alone so the upsert can reject them
+                const strict = this._db.getConfig().strict && (this._query.table as string).indexOf("_") !== 0;
+
                 if (Array.isArray(newArgs)) {
                     setArgs = newArgs;
                 } else {
@@ -628,8 +1146,9 @@ export class _NanoSQLQuery {
 
                     let k = 0;
                     while (k < models.length) {
-                        if (setArgs[i][models[k].key] !== undefined) {
-                            inputArgs[models[k].key] = cast(models[k].type, setArgs[i][models[k].key]);
+                        const value = setArgs[i][models[k].key];
+                        if (value !== undefined) {
+                            inputArgs[models[k].key] = strict && value !== null && !isType(models[k].type, value) ? value : cast(models[k].type, value);
                         }
                         k++;
                     }
@@ -643,6 +1162,11 @@ export class _NanoSQLQuery {
                         });
                     }
 
+                    // update operators like $inc are applied to the existing row by the storage layer
+                    Object.keys(setArgs[i]).filter(c => c.charAt(0) === "$").forEach((op) => {
+                        inputArgs[op] = setArgs[i][op];
+                    });
+
                     setArgs[i] = inputArgs;
                 });
 
@@ -653,6 +1177,17 @@ export class _NanoSQLQuery {
 
             this._query.action = a;
             this._query.actionArgs = this._query.actionArgs ? setArgs : undefined;
+
+            if (Array.isArray(this._query.where)) {
+                this._query.where = emitSubqueries(this._query.where);
+            }
+            // scalar subquery columns: {query: nSQL("posts").query("select", ["COUNT(*)"]), as: "posts"}
+            if (a === "select" && Array.isArray(this._query.actionArgs)) {
+                this._query.actionArgs = this._query.actionArgs.map(c => c && c.query ? { ...c, query: emitSubqueries(c.query) } : c);
+            }
+            if (this._query.setOperations) {
+                this._query.setOperations = this._query.setOperations.map(s => ({ ...s, query: emitSubqueries(s.query) }));
+            }
         } else {
             throw Error("nSQL: No valid database action!");
         }
@@ -672,14 +1207,14 @@ export class _NanoSQLQuery {
                 if (this._db.queryMod) {
                     this._db.queryMod(this._query, (newQ) => {
                         this._query = newQ;
-                        runQuery(this, res);
+                        runQuery(this, res, rej);
                     });
                 } else {
-                    runQuery(this, res);
+                    runQuery(this, res, rej);
                 }
             };
 
-            if (this._db.isConnected || (this._query.table as string).indexOf("_") === 0) {
+            if (this._db.isConnected || this._db._migrating || (this._query.table as string).indexOf("_") === 0) {
                 runExec();
             } else {
                 this._db.onConnected(runExec);
@@ -145,6 +145,15 @@ export const isMSBrowser: boolean = ua.length === 0 ? false : ua.indexOf("MSIE "
 // Detect Android Device
 export const isAndroid = /Android/.test(ua);
 
+/**
+ * Current time in milliseconds, uses the high resolution timer when it's available.
+ *
+ * @returns {number}
+ */
+export const timeNow = (): number => {
+    return typeof performance !== "undefined" && performance.now ? performance.now() : Date.now();
+};
+
 /**
  * Generate a random 16 bit number using strongest entropy/crypto available.
  *
@@ -167,8 +176,35 @@ export const random16Bits = (): number => {
 };
 
 
+/**
+ * Clean up and normalize text before it's tokenized, returns the words in order.
+ * Numbers and fractions are normalized (1/4 => 0.2500, 1,000,235 => 1000235.0000).
+ * Anything that isn't a plain letter, number or whitespace is removed unless keepLetters is set,
+ * then accented, greek, cyrillic, CJK and hangul letters are kept as well.
+ *
+ * @param {string} value
+ * @param {number} [fractionFixed]
+ * @param {boolean} [keepLetters]
+ * @returns {string[]}
+ */
+export const splitWords = (value: string, fractionFixed?: number, keepLetters?: boolean): string[] => {
+    return (value || "")
+        // everything to lowercase
+        .toLowerCase()
+        // normalize fractions and numbers (1/4 => 0.2500, 1,000,235 => 100235.0000)
+        .replace(/(\d+)\/(\d+)|(?:\d+(?:,\d+)*|\d+)(?:\.\d+)?/gmi, (all, top, bottom) => top || bottom ? (parseInt(top) / parseInt(bottom)).toFixed(fractionFixed || 4) : (parseFloat(all.replace(/\,/gmi, ""))).toFixed(fractionFixed || 4))
+        // replace dashes, underscores, anything like parantheses, slashes, newlines and tabs with a single whitespace
+        .replace(/\-|\_|\[|\]|\(|\)|\{|\}|\r?\n|\r|\t/gmi, " ")
+        // remove anything but letters, numbers and decimals inside numbers with nothing.
+        .replace(keepLetters ? /[^\w\s\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]|(\d\.)/gmi : /[^\w\s]|(\d\.)/gmi, "$1")
+        // remove white spaces larger than 1 with 1 white space.
+        .replace(/\s+/g, " ")
+        .split(" ");
+};
+
 /**
  * nanoSQL's default tokenizer, handles a few different cases for the english language.
+ * Other languages are handled by the analyzers in NanoSQLInstance.analyzers.
  *
  * @param {string} table
  * @param {string} column
@@ -193,18 +229,7 @@ export const tokenizer = (table: string, column: string, args: string[], value:
     };
 
     // Step 1, Clean up and normalize the text
-    const words: string[] = (value || "")
-        // everything to lowercase
-        .toLowerCase()
-        // normalize fractions and numbers (1/4 => 0.2500, 1,000,235 => 100235.0000)
-        .replace(/(\d+)\/(\d+)|(?:\d+(?:,\d+)*|\d+)(?:\.\d+)?/gmi, (all, top, bottom) => top || bottom ? (parseInt(top) / parseInt(bottom)).toFixed(fractionFixed || 4) : (parseFloat(all.replace(/\,/gmi, ""))).toFixed(fractionFixed || 4))
-        // replace dashes, underscores, anything like parantheses, slashes, newlines and tabs with a single whitespace
-        .replace(/\-|\_|\[|\]|\(|\)|\{|\}|\r?\n|\r|\t/gmi, " ")
-        // remove anything but letters, numbers and decimals inside numbers with nothing.
-        .replace(/[^\w\s]|(\d\.)/gmi, "$1")
-        // remove white spaces larger than 1 with 1 white space.
-        .replace(/\s+/g, " ")
-        .split(" ");
+    const words = splitWords(value, fractionFixed);
 
     // Step 2, stem away!
     switch (args[1]) {
@@ -228,6 +253,147 @@ export const tokenizer = (table: string, column: string, args: string[], value:
     return words.map((w, i) => ({ o: w, w, i }));
 };
 
+/**
+ * Split a search() value into it's plain words and operators:
+ * +word (rows must have it), -word (rows can't have it), "some words" (rows must have the words next to each other),
+ * -"some words" (rows can't have the phrase) and word* (matches any word starting with it).
+ * The text is what gets searched for: the plain, required and phrase words.
+ *
+ * @param {string} value
+ * @returns {{ text: string, required: string[], excluded: string[], prefixes: string[] }}
+ */
+export const parseSearchQuery = (value: string): { text: string, required: string[], excluded: string[], prefixes: string[] } => {
+    let text: string[] = [];
+    let required: string[] = [];
+    let excluded: string[] = [];
+    let prefixes: string[] = [];
+    const parts = String(value || "").match(/[+-]?"[^"]*"?|\S+/g) || [];
+    parts.forEach((part) => {
+        const operator = part.charAt(0) === "+" || part.charAt(0) === "-" ? part.charAt(0) : "";
+        let term = operator ? part.slice(1) : part;
+        const isPhrase = term.charAt(0) === "\"";
+        if (isPhrase) {
+            term = term.replace(/^"|"$/g, "");
+        }
+        if (!term.trim()) return;
+        if (operator === "-") {
+            excluded.push(term);
+        } else if (!isPhrase && term.length > 1 && term.charAt(term.length - 1) === "*") {
+            prefixes.push(term.slice(0, term.length - 1).toLowerCase());
+        } else {
+            if (operator === "+" || isPhrase) {
+                required.push(term);
+            }
+            text.push(term);
+        }
+    });
+    return { text: text.join(" "), required: required, excluded: excluded, prefixes: prefixes };
+};
+
+/**
+ * Find where each token came from in the original text, returns [start, end) character offsets for each token
+ * or undefined if the token can't be found (like normalized numbers).
+ * Tokens are matched in order against the letters and numbers of the text so punctuation the tokenizer removed doesn't matter.
+ *
+ * @param {string} value
+ * @param {{ o: string }[]} tokens
+ * @returns {([number, number] | undefined)[]}
+ */
+export const tokenOffsets = (value: string, tokens: { o: string }[]): ([number, number] | undefined)[] => {
+    const letter = /[\w\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/;
+    const text = String(value || "");
+    let clean = "";
+    let offsets: number[] = [];
+    for (let k = 0; k < text.length; k++) {
+        const lower = text.charAt(k).toLowerCase();
+        for (let l = 0; l < lower.length; l++) {
+            if (letter.test(lower.charAt(l))) {
+                clean += lower.charAt(l);
+                offsets.push(k);
+            }
+        }
+    }
+    let cursor = 0;
+    let lastMatch = -1;
+    return tokens.map((token) => {
+        const word = String(token.o || "").toLowerCase().split("").filter(c => letter.test(c)).join("");
+        if (!word) return undefined;
+        let at = clean.indexOf(word, cursor);
+        if (at === -1) {
+            // overlapping tokens, like CJK bigrams
+            at = clean.indexOf(word, lastMatch + 1);
+        }
+        if (at === -1) return undefined;
+        lastMatch = at;
+        cursor = at + word.length;
+        return [offsets[at], offsets[at + word.length - 1] + 1] as [number, number];
+    });
+};
+
+/**
+ * Cut the text around the part with the most matches and wrap the matches with pre and post.
+ * The snippet is cut at whitespace when possible and gets "..." where text was left out.
+ *
+ * @param {string} value
+ * @param {{ start: number, end: number }[]} matches sorted by start
+ * @param {{ pre: string, post: string, length: number }} args
+ * @returns {string}
+ */
+export const searchSnippet = (value: string, matches: { start: number, end: number }[], args: { pre: string, post: string, length: number }): string => {
+    const text = String(value || "");
+    if (!matches.length) {
+        return text.length > args.length ? text.slice(0, args.length).replace(/\s+\S*$/, "") + "..." : text;
+    }
+
+    // the window starting at the match that holds the most other matches
+    let best = { first: 0, last: 0 };
+    matches.forEach((match, k) => {
+        let last = k;
+        while (last + 1 < matches.length && matches[last + 1].end - match.start <= args.length) {
+            last++;
+        }
+        if (last - k > best.last - best.first) {
+            best = { first: k, last: last };
+        }
+    });
+
+    const matchStart = matches[best.first].start;
+    const matchEnd = matches.slice(best.first, best.last + 1).reduce((prev, m) => Math.max(prev, m.end), 0);
+    let from = Math.max(0, matchStart - Math.floor(Math.max(0, args.length - (matchEnd - matchStart)) / 2));
+    let to = Math.min(text.length, Math.max(from + args.length, matchEnd));
+    from = Math.max(0, Math.min(from, to - args.length));
+
+    // don't cut words in half
+    if (from > 0 && /\S/.test(text.charAt(from - 1))) {
+        const space = text.slice(from, matchStart).search(/\s/);
+        if (space !== -1) from += space + 1;
+    }
+    if (to < text.length && /\S/.test(text.charAt(to))) {
+        const space = text.slice(matchEnd, to).search(/\s\S*$/);
+        if (space !== -1) to = matchEnd + space;
+    }
+
+    // overlapping matches are merged so the tags don't nest
+    let ranges: { start: number, end: number }[] = [];
+    matches.filter(m => m.start >= from && m.end <= to).forEach((m) => {
+        const prev = ranges[ranges.length - 1];
+        if (prev && m.start <= prev.end) {
+            prev.end = Math.max(prev.end, m.end);
+        } else {
+            ranges.push({ start: m.start, end: m.end });
+        }
+    });
+
+    let snippet = "";
+    let pos = from;
+    ranges.forEach((r) => {
+        snippet += text.slice(pos, r.start) + args.pre + text.slice(r.start, r.end) + args.post;
+        pos = r.end;
+    });
+    snippet += text.slice(pos, to);
+    return (from > 0 ? "..." : "") + snippet.trim() + (to < text.length ? "..." : "");
+};
+
 /**
  * Generate a TimeID for use in the database.
  *
@@ -405,6 +571,42 @@ export const cast = (type: string, val?: any): any => {
     return undefined;
 };
 
+/**
+ * Check if a javascript variable already is a given type, without casting it.
+ * Types that aren't known (like ORM table types) accept any value.
+ *
+ * @param {string} type
+ * @param {*} val
+ * @returns {boolean}
+ */
+export const isType = (type: string, val: any): boolean => {
+
+    if (type.indexOf("[]") !== -1) {
+        const arrayOf = type.slice(0, type.lastIndexOf("[]"));
+        return Array.isArray(val) && val.filter(v => !isType(arrayOf, v)).length === 0;
+    }
+
+    const t = typeof val;
+    switch (String(type || "").toLowerCase()) {
+        case "safestr":
+        case "uuid":
+        case "timeid":
+        case "timeidms":
+        case "string": return t === "string";
+        case "int": return t === "number" && val % 1 === 0;
+        case "number":
+        case "float": return t === "number" && !isNaN(val);
+        case "array": return Array.isArray(val);
+        case "object":
+        case "obj":
+        case "map": return isObject(val);
+        case "boolean":
+        case "bool": return t === "boolean";
+    }
+
+    return true;
+};
+
 
 /**
  * Given a sorted array and a value, find where that value fits into the array.
@@ -494,6 +696,110 @@ export const crowDistance = (lat1: number, lon1: number, lat2: number, lon2: num
     return radius * c;
 };
 
+const geoHashChars = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Encode GPS coordinates into a geohash, nearby points share the start of their hash.
+ *
+ * @param {number} lat
+ * @param {number} lon
+ * @param {number} precision length of the hash
+ * @returns {string}
+ */
+export const geoHash = (lat: number, lon: number, precision: number): string => {
+    let latRange = [-90, 90];
+    let lonRange = [-180, 180];
+    let hash = "";
+    let char = 0;
+    let bit = 0;
+    let even = true;
+    while (hash.length < precision) {
+        const range = even ? lonRange : latRange;
+        const mid = (range[0] + range[1]) / 2;
+        const value = even ? lon : lat;
+        char = char * 2;
+        if (value >= mid) {
+            char++;
+            range[0] = mid;
+        } else {
+            range[1] = mid;
+        }
+        even = !even;
+        bit++;
+        if (bit === 5) {
+            hash += geoHashChars.charAt(char);
+            bit = 0;
+            char = 0;
+        }
+    }
+    return hash;
+};
+
+/**
+ * Get the geohash prefixes of every cell that touches a bounding box.
+ * The longest prefix (up to maxPrecision) that needs no more than 3 cells in each direction is used.
+ * Boxes crossing the 180th meridian have a west edge greater than their east edge.
+ *
+ * @param {number} south
+ * @param {number} west
+ * @param {number} north
+ * @param {number} east
+ * @param {number} maxPrecision
+ * @returns {string[]}
+ */
+export const geoHashCells = (south: number, west: number, north: number, east: number, maxPrecision: number): string[] => {
+    if (west > east) {
+        return removeDuplicates(geoHashCells(south, west, north, 180, maxPrecision).concat(geoHashCells(south, -180, north, east, maxPrecision)).sort());
+    }
+    let precision = maxPrecision;
+    // each hash character adds 5 bits, split between longitude and latitude starting with longitude
+    const cellSize = (p: number) => [180 / Math.pow(2, Math.floor(p * 5 / 2)), 360 / Math.pow(2, Math.ceil(p * 5 / 2))];
+    while (precision > 1 && (cellSize(precision)[0] * 2 < north - south || cellSize(precision)[1] * 2 < east - west)) {
+        precision--;
+    }
+    const size = cellSize(precision);
+    const steps = (min: number, max: number, step: number): number[] => {
+        let values: number[] = [];
+        for (let v = min; v < max; v += step) {
+            values.push(v);
+        }
+        values.push(max);
+        return values;
+    };
+    let cells: string[] = [];
+    steps(south, north, size[0]).forEach((lat) => {
+        steps(west, east, size[1]).forEach((lon) => {
+            cells.push(geoHash(lat, lon, precision));
+        });
+    });
+    return removeDuplicates(cells.sort());
+};
+
+/**
+ * Get the bounding box [south, west, north, east] of every point within a distance of the given GPS coordinates.
+ *
+ * @param {number} lat
+ * @param {number} lon
+ * @param {number} distance
+ * @param {number} radius
+ * @returns {number[]}
+ */
+export const geoBounds = (lat: number, lon: number, distance: number, radius: number): number[] => {
+    const latDelta = (distance / radius) * (180 / Math.PI);
+    const south = Math.max(-90, lat - latDelta);
+    const north = Math.min(90, lat + latDelta);
+    // near the poles every longitude is in range
+    if (north === 90 || south === -90) {
+        return [south, -180, north, 180];
+    }
+    const lonDelta = latDelta / Math.cos(lat * Math.PI / 180);
+    if (lonDelta >= 180) {
+        return [south, -180, north, 180];
+    }
+    const wrap = (l: number) => l > 180 ? l - 360 : l < -180 ? l + 360 : l;
+    return [south, wrap(lon - lonDelta), north, wrap(lon + lonDelta)];
+};
+
 const objectPathCache: {
     [pathQuery: string]: string[];
 } = {};
@@ -545,4 +851,123 @@ export const objQuery = (pathQuery: string, object: any, ignoreFirstPath?: boole
     objectPathCache[cacheKey] = path;
 
     return safeGet(objectPathCache[cacheKey], 0, object);
-};
\ No newline at end of file
+};
+/**
+ * A function call from the select list.
+ * Arguments are kept as they were written unless they're function calls themselves.
+ *
+ * @export
+ * @interface FunctionCall
+ */
+export interface FunctionCall {
+    name: string; // upper case function name
+    args: (string | FunctionCall)[];
+    text: string; // the call as written, nested results are added to the rows with this key
+    distinct?: boolean; // the first argument started with DISTINCT, ie COUNT(DISTINCT email)
+}
+
+/**
+ * Parse a function call like "CONCAT(UPPER(first), ' ', last)" into it's name and arguments.
+ * Quoted strings can hold commas and parentheses, quotes inside them are escaped by doubling them.
+ * Returns undefined if the text isn't a single function call.
+ * A leading DISTINCT is taken off the first argument and sets the distinct flag.
+ *
+ * parseFunction("ROUND(AVG(age))") => {name: "ROUND", args: [{name: "AVG", args: ["age"], text: "AVG(age)"}], text: "ROUND(AVG(age))"}
+ *
+ * @param {string} text
+ * @returns {(FunctionCall | undefined)}
+ */
+export const parseFunction = (text: string): FunctionCall | undefined => {
+    const call = text.trim().match(/^([\w$.]+)\s*\(([\s\S]*)\)$/);
+    if (!call) return undefined;
+
+    const body = call[2];
+    let args: string[] = [];
+    let arg = "";
+    let depth = 0;
+    let quote = "";
+    let i = 0;
+    while (i < body.length) {
+        const char = body[i];
+        if (quote) {
+            if (char === quote && body[i + 1] === quote) { // escaped quote
+                arg += char;
+                i++;
+            } else if (char === quote) {
+                quote = "";
+            }
+        } else if (char === "'" || char === "\"") {
+            quote = char;
+        } else if (char === "(") {
+            depth++;
+        } else if (char === ")") {
+            depth--;
+            // the closing parenthesis belongs to something before the end, ie "UPPER(a) || LOWER(b)"
+            if (depth < 0) return undefined;
+        } else if (char === "," && depth === 0) {
+            args.push(arg.trim());
+            arg = "";
+            i++;
+            continue;
+        }
+        arg += char;
+        i++;
+    }
+    if (quote || depth !== 0) return undefined;
+    if (arg.trim().length || args.length) {
+        args.push(arg.trim());
+    }
+
+    const distinct = args.length > 0 && /^DISTINCT\s+/i.test(args[0]);
+    if (distinct) {
+        args[0] = args[0].replace(/^DISTINCT\s+/i, "");
+    }
+
+    let fnCall: FunctionCall = {
+        name: call[1].toUpperCase(),
+        args: args.map(a => (a[0] === "'" || a[0] === "\"" ? undefined : parseFunction(a)) || a),
+        text: text.trim()
+    };
+    if (distinct) {
+        fnCall.distinct = true;
+    }
+    return fnCall;
+};
+
+/**
+ * Get the string inside a quoted function argument, unquoted arguments are returned as they are.
+ *
+ * @param {string} arg
+ * @returns {string}
+ */
+export const fnLiteral = (arg: string): string => {
+    const str = String(arg);
+    if (str.length > 1 && (str[0] === "'" || str[0] === "\"") && str[str.length - 1] === str[0]) {
+        return str.slice(1, -1).split(str[0] + str[0]).join(str[0]);
+    }
+    return str;
+};
+
+/**
+ * Get the value of a function argument for a row.
+ * Quoted strings, numbers and NULL are literal values, everything else is a column.
+ *
+ * fnValue("name", {name: "Bill"}, false) => "Bill"
+ * fnValue("'name'", {name: "Bill"}, false) => "name"
+ * fnValue("2", {name: "Bill"}, false) => 2
+ *
+ * @param {string} arg
+ * @param {*} row
+ * @param {boolean} isJoin
+ * @returns {*}
+ */
+export const fnValue = (arg: string, row: any, isJoin: boolean): any => {
+    if (arg === undefined || arg === null) return undefined;
+    const str = String(arg);
+    if (fnLiteral(str) !== str) return fnLiteral(str);
+    if (str.toUpperCase() === "NULL") return null;
+    if (str.trim().length && !isNaN(str as any)) return parseFloat(str);
+    // nested function results are added to the row as they were written
+    if (row && Object.prototype.hasOwnProperty.call(row, str)) return row[str];
+    return objQuery(str, row, isJoin);
+};
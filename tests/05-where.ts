@@ -231,6 +231,33 @@ describe("Where", () => {
         });
     });
 
+    it("Select using nested WHERE statements on indexed columns.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            let results: any[] = [];
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                return nSQL.table("users").query("select", ["id"]).where([[["id", "=", 1], "OR", ["id", "=", 3]], "AND", ["age", ">", 20]]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where([["age", "=", 24], "AND", [["name", "=", "Bill"], "OR", ["name", "=", "Jeb"]]]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where([[["id", "=", 1], "OR", ["id", "=", 3]], "OR", ["age", "=", 24]]).orderBy({ id: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ id: 3 }],
+                        [{ id: 2 }],
+                        [{ id: 1 }, { id: 2 }, { id: 3 }]
+                    ], "Nested where select failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
     it("Select using range.", (done: MochaDone) => {
         usersDB(ExampleDataModel, (nSQL) => {
             nSQL.loadJS("users", ExampleUsers).then(() => {
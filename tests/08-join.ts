@@ -164,19 +164,6 @@ describe("Join", () => {
                         "comments.author": 1,
                         "comments.text": "never"
                     },
-                    {
-                        "users.id": 2,
-                        "users.age": 24,
-                        "users.name": "Jeb",
-                        "users.email": "jeb@gmail.com",
-                        "users.meta": {
-                            "value": 1
-                        },
-                        "users.posts": [1, 2, 3],
-                        "posts.id": 4,
-                        "posts.title": "you",
-                        "posts.author": 2
-                    },
                     {
                         "users.id": 3,
                         "users.age": 21,
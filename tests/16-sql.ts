@@ -0,0 +1,136 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { usersDB, ExampleUsers, ExampleDataModel } from "./data";
+
+describe("SQL", () => {
+    it("Compile SELECT into a query object.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            try {
+                const query = nSQL.sql("SELECT name, COUNT(*) AS c FROM users WHERE age > ? GROUP BY name ORDER BY c DESC LIMIT 10 OFFSET 2", [30]).emit();
+                expect({
+                    table: query.table,
+                    action: query.action,
+                    actionArgs: query.actionArgs,
+                    where: query.where,
+                    groupBy: query.groupBy,
+                    orderBy: query.orderBy,
+                    limit: query.limit,
+                    offset: query.offset
+                }).to.deep.equal({
+                    table: "users",
+                    action: "select",
+                    actionArgs: ["name", "COUNT(*) AS c"],
+                    where: ["age", ">", 30],
+                    groupBy: { name: "asc" },
+                    orderBy: { c: "desc" },
+                    limit: 10,
+                    offset: 2
+                }, "SQL select compile failed!");
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+
+    it("AND binds tighter than OR.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            try {
+                const query = nSQL.sql("SELECT * FROM users WHERE name = 'Bill' OR age >= 21 AND (id IN (2, 3) AND email IS NOT NULL)").emit();
+                expect(query.actionArgs).to.equal(undefined);
+                expect(query.where).to.deep.equal([
+                    ["name", "=", "Bill"],
+                    "OR",
+                    [["age", ">=", 21], "AND", ["id", "IN", [2, 3]], "AND", ["email", "!=", "NULL"]]
+                ], "SQL where compile failed!");
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+
+    it("Run SELECT statements.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                return nSQL.sql("SELECT id, UPPER(name) AS name FROM users WHERE age BETWEEN 20 AND 21 OR name LIKE 'J%' ORDER BY id DESC").exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { id: 3, name: "BOB" },
+                        { id: 2, name: "JEB" },
+                        { id: 1, name: "BILL" }
+                    ], "SQL select failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Run INSERT, UPDATE and DELETE statements.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            nSQL.sql("INSERT INTO users (name, age, email) VALUES (?, ?, 'bill@gmail.com'), ('Jeb', 24, ?)", ["Bill", 20, "jeb@gmail.com"]).exec().then(() => {
+                return nSQL.sql("UPDATE users SET age = 30 WHERE name = 'Jeb'").exec();
+            }).then(() => {
+                return nSQL.sql("DELETE FROM users WHERE name = ?", ["Bill"]).exec();
+            }).then(() => {
+                return nSQL.sql("SELECT name, age, email FROM users").exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { name: "Jeb", age: 30, email: "jeb@gmail.com" }
+                    ], "SQL writes failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Compile JOIN statements.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            try {
+                const query = nSQL.sql("SELECT users.name, posts.title FROM users LEFT OUTER JOIN posts ON users.id = posts.author CROSS JOIN comments").emit();
+                expect(query.join).to.deep.equal([
+                    { type: "left", table: "posts", where: ["users.id", "=", "posts.author"] },
+                    { type: "cross", table: "comments" }
+                ], "SQL join compile failed!");
+                const aliased = nSQL.sql("SELECT u.name FROM users JOIN users AS u ON users.id = u.id AND u.age > 20 RIGHT JOIN posts p ON p.author = u.id").emit();
+                expect(aliased.join).to.deep.equal([
+                    { type: "inner", table: "users AS u", where: [["users.id", "=", "u.id"], "AND", ["u.age", ">", 20]] },
+                    { type: "right", table: "posts AS p", where: ["p.author", "=", "u.id"] }
+                ], "SQL join alias compile failed!");
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+
+    it("Report syntax error positions.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            try {
+                let error: any;
+                try {
+                    nSQL.sql("SELECT name\nFROM users\nWHERE age >> 2");
+                } catch (e) {
+                    error = e;
+                }
+                expect(error.message).to.equal(`nSQL: SQL syntax error at line 3, column 12: Expected a value but found ">"`);
+                expect([error.line, error.column, error.position]).to.deep.equal([3, 12, 34]);
+                assert.throws(() => nSQL.sql("SELECT * FROM users WHERE id = ?"), /column 32: No value provided for parameter 1/);
+                assert.throws(() => nSQL.sql("INSERT INTO users (id, name) VALUES (1)"), /column 37: Expected 2 values but found 1/);
+                assert.throws(() => nSQL.sql("SELECT * FROM users WHERE id = ?", [1, 2]), /column 33: 2 values provided for 1 parameter/);
+                expect(nSQL.sql("SELECT * FROM users WHERE id IN (?) OR id NOT IN (?, ?)", [[1, 2], [3], 4]).emit().where).to.deep.equal([["id", "IN", [1, 2]], "OR", ["id", "NOT IN", [3, 4]]]);
+                expect(nSQL.sql("SELECT * FROM users WHERE id IN ?", [[1, 2]]).emit().where).to.deep.equal(["id", "IN", [1, 2]]);
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+});
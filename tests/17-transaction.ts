@@ -0,0 +1,139 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { fastALL, Promise } from "../src/utilities";
+import { usersDB, ExampleUsers, ExampleDataModel } from "./data";
+
+describe("Transactions", () => {
+    it("Commit all queries together.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                return nSQL.doTransaction((db, complete) => {
+                    db("users").query("upsert", { id: 4, name: "Scott", age: 30, email: "scott@gmail.com" }).exec();
+                    db("users").query("delete").where(["id", "=", 2]).exec();
+                    complete();
+                });
+            }).then(() => {
+                return nSQL.query("select", ["id"]).exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 1 }, { id: 3 }, { id: 4 }], "Transaction commit failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Roll back every change when a query fails.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            let error: any;
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                return nSQL.doTransaction((db, complete) => {
+                    db("users").query("upsert", { id: 4, name: "Scott", age: 30, email: "scott@gmail.com" }).exec();
+                    db("users").query("upsert", { name: "Billy", age: 40 }).where(["id", "=", 1]).exec();
+                    db("users").query("delete").where(["id", "=", 2]).exec();
+                    db("users").query("not an action" as any).exec();
+                    complete();
+                });
+            }).catch((err) => {
+                error = err;
+                return nSQL.query("select").exec();
+            }).then((rows) => {
+                try {
+                    expect(String(error)).to.contain("No valid database action", "Transaction didn't reject!");
+                    expect(rows).to.deep.equal(ExampleUsers, "Transaction rollback failed!");
+                } catch (e) {
+                    done(e);
+                    return;
+                }
+                return fastALL([
+                    ["name", "=", "Jeb"],
+                    ["age", "=", 40],
+                    ["age", "=", 20]
+                ], (where, i, next) => {
+                    nSQL.query("select", ["id"]).where(where).exec().then(next);
+                }).then((results) => {
+                    try {
+                        expect(results).to.deep.equal([[{ id: 2 }], [], [{ id: 1 }]], "Secondary indexes not rolled back!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+
+    it("Hold other queries until the transaction ends.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            let outside: Promise<any>[] = [];
+            let error: any;
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                return nSQL.doTransaction((db, complete) => {
+                    db("users").query("upsert", { id: 4, name: "Scott", age: 30, email: "scott@gmail.com" }).exec();
+                    // queries outside of the transaction are sent while it's open
+                    db("users").query("select").where((row) => {
+                        if (!outside.length) {
+                            outside.push(nSQL.query("upsert", { id: 5, name: "Jill", age: 26, email: "jill@gmail.com" }).exec());
+                            outside.push(nSQL.query("select", ["id"]).exec());
+                        }
+                        return true;
+                    }).exec();
+                    db("users").query("not an action" as any).exec();
+                    complete();
+                });
+            }).catch((err) => {
+                error = err;
+                return Promise.all(outside);
+            }).then((results) => {
+                return nSQL.query("select", ["id"]).exec().then((rows) => {
+                    try {
+                        expect(String(error)).to.contain("No valid database action", "Transaction didn't reject!");
+                        expect(results[1].map(r => r.id)).to.not.contain(4, "Uncommitted row was visible!");
+                        expect(rows).to.deep.equal([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 5 }], "Outside upsert was rolled back!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+
+    it("Wait for open iterators before starting.", (done: MochaDone) => {
+        usersDB(ExampleDataModel, (nSQL) => {
+            let read: any[] = [];
+            let committed = false;
+            nSQL.loadJS("users", ExampleUsers).then(() => {
+                const rows = nSQL.query("select", ["id", "name"]).iterate();
+                return rows.next().then((row) => {
+                    read.push(row.value);
+                    nSQL.doTransaction((db, complete) => {
+                        db("users").query("upsert", { id: 3, name: "Robert" }).exec();
+                        complete();
+                    }).then(() => {
+                        committed = true;
+                    });
+                    const readAll = (): Promise<any> => new Promise((res) => setTimeout(res, 10)).then(() => rows.next()).then((row) => {
+                        if (row.done) return;
+                        read.push(row.value);
+                        return readAll();
+                    });
+                    return readAll();
+                });
+            }).then(() => {
+                return new Promise((res) => setTimeout(res, 50));
+            }).then(() => {
+                try {
+                    expect(read).to.deep.equal([{ id: 1, name: "Bill" }, { id: 2, name: "Jeb" }, { id: 3, name: "Bob" }], "Iterator saw the transaction!");
+                    expect(committed).to.equal(true, "Transaction didn't run after the iterator!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
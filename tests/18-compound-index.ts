@@ -0,0 +1,111 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const eventsDB = (ready: (nSQL: NanoSQLInstance) => void, cache?: boolean) => {
+    const n = new NanoSQLInstance();
+    n.config({ cache: cache !== false }).table("events")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "tenant", type: "string" },
+        { key: "created", type: "int" },
+        { key: "name", type: "string" }
+    ], ["idx(tenant, created)"])
+    .connect().then(() => {
+        return n.loadJS("events", [
+            { id: 1, tenant: "b", created: 30, name: "one" },
+            { id: 2, tenant: "a", created: 20, name: "two" },
+            { id: 3, tenant: "a", created: 10, name: "three" },
+            { id: 4, tenant: "b", created: 10, name: "four" },
+            { id: 5, tenant: "a", created: 40, name: "five" },
+            { id: 6, tenant: "a", created: 30, name: "six" }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Compound Indexes", () => {
+    it("Equality prefix plus range select.", (done: MochaDone) => {
+        eventsDB((nSQL) => {
+            nSQL.query("select", ["id"]).where([["tenant", "=", "a"], "AND", ["created", ">", 10], "AND", ["created", "<=", 30]]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 2 }, { id: 6 }], "Compound index select failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Order by the index columns.", (done: MochaDone) => {
+        eventsDB((nSQL) => {
+            nSQL.query("select", ["id"]).where(["tenant", "=", "a"]).orderBy({ created: "desc" }).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 5 }, { id: 6 }, { id: 2 }, { id: 3 }], "Compound index order by failed!");
+                    return nSQL.query("select", ["id"]).orderBy({ tenant: "asc", created: "asc" }).exec();
+                } catch (e) {
+                    done(e);
+                }
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 3 }, { id: 2 }, { id: 6 }, { id: 5 }, { id: 4 }, { id: 1 }], "Compound index order by failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Keep the index up to date on upsert and delete.", (done: MochaDone) => {
+        eventsDB((nSQL) => {
+            nSQL.query("upsert", { created: 50 }).where(["id", "=", 3]).exec().then(() => {
+                return nSQL.query("delete").where(["id", "=", 6]).exec();
+            }).then(() => {
+                return nSQL.query("upsert", { tenant: "a", created: 25, name: "seven" }).exec();
+            }).then(() => {
+                return nSQL.query("select", ["id"]).where([["tenant", "=", "a"], "AND", ["created", ">=", 20], "AND", ["name", "!=", "two"]]).orderBy({ created: "asc" }).exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 7 }, { id: 5 }, { id: 3 }], "Compound index update failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Match long values without the cache and read primary keys first.", (done: MochaDone) => {
+        const long = "a tenant name that is longer than thirty two characters";
+        eventsDB((nSQL) => {
+            nSQL.query("upsert", [{ tenant: long + " 1", created: 20 }, { tenant: long + " 2", created: 20 }, { tenant: long + " 2", created: 30 }]).exec().then(() => {
+                return nSQL.query("select", ["id"]).where([["tenant", "=", long + " 2"], "AND", ["created", ">", 10]]).exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 8 }, { id: 9 }], "Compound index long value select failed!");
+                    return nSQL.query("select", ["id"]).where(["tenant", "=", "a"]).orderBy({ created: "asc" }).exec();
+                } catch (e) {
+                    done(e);
+                }
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 3 }, { id: 2 }, { id: 6 }, { id: 5 }], "Compound index select without cache failed!");
+                    return nSQL.query("select").where([["id", "=", 2], "AND", ["tenant", "=", "a"], "AND", ["created", "=", 20]]).explain();
+                } catch (e) {
+                    done(e);
+                    return;
+                }
+            }).then((plan) => {
+                try {
+                    expect(plan.access).to.equal("pk", "Primary key read wasn't used!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        }, false);
+    });
+});
@@ -0,0 +1,133 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { usersDB, ExampleUsers } from "./data";
+
+const UniqueDataModel = [
+    { key: "id", type: "int", props: ["pk()", "ai()"] },
+    { key: "name", type: "string" },
+    { key: "email", type: "string", props: ["unique()"] },
+    { key: "slug", type: "string", props: ["unique()"] }
+];
+
+const loadUsers = (ready: (nSQL: NanoSQLInstance) => void) => {
+    usersDB(UniqueDataModel, (nSQL) => {
+        nSQL.loadJS("users", [
+            { id: 1, name: "Bill", email: "bill@gmail.com", slug: "bill" },
+            { id: 2, name: "Jeb", email: "jeb@gmail.com", slug: "jeb" }
+        ]).then(() => {
+            ready(nSQL);
+        });
+    });
+};
+
+describe("Unique Constraints", () => {
+    it("Reject rows with an existing unique value.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            let errorEvent: any;
+            nSQL.table("users").on("error", (ev) => {
+                errorEvent = ev;
+            });
+            nSQL.query("upsert", { name: "Bob", email: "bill@gmail.com", slug: "bob" }).exec().then(() => {
+                done(new Error("Duplicate row was written!"));
+            }).catch((err) => {
+                setTimeout(() => {
+                    nSQL.query("select", ["id", "email"]).exec().then((rows) => {
+                        try {
+                            expect(err).to.equal(`nSQL: Unique constraint failed, users.email "bill@gmail.com" already exists!`);
+                            expect(errorEvent.types).to.deep.equal(["error"], "Error event not emitted!");
+                            expect(errorEvent.notes).to.deep.equal([err], "Error event not emitted!");
+                            expect(rows).to.deep.equal([{ id: 1, email: "bill@gmail.com" }, { id: 2, email: "jeb@gmail.com" }], "Duplicate row was written!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    });
+                }, 10);
+            });
+        });
+    });
+
+    it("Check updates and rows in the same query.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            let errors: string[] = [];
+            nSQL.query("upsert", { slug: "jeb" }).where(["id", "=", 1]).exec().catch((err) => {
+                errors.push(err);
+                return nSQL.query("upsert", [
+                    { name: "Bob", email: "bob@gmail.com", slug: "bob" },
+                    { name: "Bobby", email: "bob@gmail.com", slug: "bobby" }
+                ]).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("upsert", { name: "Billy", email: "bill@gmail.com", slug: "bill" }).where(["id", "=", 1]).exec();
+            }).then(() => {
+                // swapping values in one query is fine
+                return nSQL.query("upsert", [
+                    { id: 1, slug: "jeb" },
+                    { id: 2, slug: "bill" }
+                ]).exec();
+            }).then(() => {
+                return nSQL.query("select", ["id", "name", "slug"]).exec();
+            }).then((rows) => {
+                try {
+                    expect(errors).to.deep.equal([
+                        `nSQL: Unique constraint failed, users.slug "jeb" already exists!`,
+                        `nSQL: Unique constraint failed, users.email "bob@gmail.com" already exists!`
+                    ]);
+                    expect(rows).to.deep.equal([
+                        { id: 1, name: "Billy", slug: "jeb" },
+                        { id: 2, name: "Jeb", slug: "bill" }
+                    ], "Unique updates failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Reject duplicates written at the same time.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            let results: string[] = [];
+            const insert = (name: string) => {
+                nSQL.query("upsert", { name: name, email: "bob@gmail.com", slug: name }).exec().then(() => {
+                    results.push("ok");
+                }).catch(() => {
+                    results.push("error");
+                }).then(() => {
+                    if (results.length < 2) return;
+                    try {
+                        expect(results.sort()).to.deep.equal(["error", "ok"], "Duplicate row was written!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            };
+            insert("bob");
+            insert("bobby");
+        });
+    });
+
+    it("Roll back transactions that break a unique constraint.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            nSQL.doTransaction((db, complete) => {
+                db("users").query("upsert", { name: "Bob", email: "bob@gmail.com", slug: "bob" }).exec();
+                db("users").query("upsert", { name: "Bobby", email: "bob@gmail.com", slug: "bobby" }).exec();
+                complete();
+            }).then(() => {
+                done(new Error("Transaction didn't fail!"));
+            }).catch((err) => {
+                nSQL.query("select", ["id"]).exec().then((rows) => {
+                    try {
+                        expect(err).to.equal(`nSQL: Unique constraint failed, users.email "bob@gmail.com" already exists!`);
+                        expect(rows).to.deep.equal([{ id: 1 }, { id: 2 }], "Transaction wasn't rolled back!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+});
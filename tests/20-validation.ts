@@ -0,0 +1,105 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const ValidatedDataModel = [
+    { key: "id", type: "int", props: ["pk()", "ai()"] },
+    { key: "name", type: "string", required: true, minLength: 2, maxLength: 10 },
+    { key: "age", type: "int", min: 0, max: 150 },
+    { key: "email", type: "string", notNull: true, pattern: /^\S+@\S+$/ },
+    { key: "role", type: "string", enum: ["admin", "user"], default: "user" },
+    { key: "tags", type: "string[]", maxLength: 2 },
+    { key: "even", type: "int", validate: (value: number) => value % 2 === 0 ? true : "must be even" }
+];
+
+const validatedDB = (strict: boolean, ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("users")
+    .model(ValidatedDataModel)
+    .config({ strict: strict })
+    .connect().then(() => {
+        ready(n);
+    });
+};
+
+describe("Validation", () => {
+    it("Reject rows listing every failing column.", (done: MochaDone) => {
+        validatedDB(false, (nSQL) => {
+            nSQL.query("upsert", { age: 200, email: "nope", role: "owner", tags: ["a", "b", "c"], even: 3 }).exec().then(() => {
+                done(new Error("Invalid row was written!"));
+            }).catch((err) => {
+                nSQL.query("select").exec().then((rows) => {
+                    try {
+                        expect(err).to.equal("nSQL: Validation failed, " + [
+                            `users.name is required`,
+                            `users.age must be at most 150`,
+                            `users.email must match /^\\S+@\\S+$/`,
+                            `users.role must be one of ["admin","user"]`,
+                            `users.tags must have a length of at most 2`,
+                            `users.even must be even`
+                        ].join(", ") + "!");
+                        expect(rows).to.deep.equal([], "Invalid row was written!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+
+    it("Only check changed columns of existing rows.", (done: MochaDone) => {
+        validatedDB(false, (nSQL) => {
+            let errors: string[] = [];
+            nSQL.query("upsert", { name: "Bill", age: 20, email: "bill@gmail.com" }).exec().then(() => {
+                return nSQL.query("upsert", { id: 1, age: 21 }).exec();
+            }).then(() => {
+                return nSQL.query("upsert", { email: null }).where(["id", "=", 1]).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("upsert", { id: 1, name: "B" }).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("select").exec();
+            }).then((rows) => {
+                try {
+                    expect(errors).to.deep.equal([
+                        "nSQL: Validation failed, users.email can't be null!",
+                        "nSQL: Validation failed, users.name must have a length of at least 2!"
+                    ]);
+                    expect(rows).to.deep.equal([{ id: 1, name: "Bill", age: 21, email: "bill@gmail.com", role: "user" }], "Valid update failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Strict mode rejects values instead of casting them.", (done: MochaDone) => {
+        validatedDB(true, (nSQL) => {
+            nSQL.query("upsert", { name: "Bill", age: "abc", email: "bill@gmail.com", tags: ["a", 2] }).exec().then(() => {
+                done(new Error("Invalid row was written!"));
+            }).catch((err) => {
+                try {
+                    expect(err).to.equal("nSQL: Validation failed, users.age must be of type int, users.tags must be of type string[]!");
+                } catch (e) {
+                    done(e);
+                    return;
+                }
+                validatedDB(false, (nSQL2) => {
+                    nSQL2.query("upsert", { name: "Bill", age: "abc", email: "bill@gmail.com" }).exec().then(() => {
+                        return nSQL2.query("select", ["age"]).exec();
+                    }).then((rows) => {
+                        try {
+                            expect(rows).to.deep.equal([{ age: 0 }], "Non strict mode didn't cast!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    });
+                });
+            });
+        });
+    });
+});
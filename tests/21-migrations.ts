@@ -0,0 +1,164 @@
+import { NanoSQLInstance, NanoSQLMigration } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { _SyncStore } from "../src/database/adapter-sync";
+import { DataModel } from "../src/index";
+import { ExampleUsers, ExampleDataModel } from "./data";
+
+// memory store that keeps its rows between connections, like a persistent adapter would
+class ReconnectStore extends _SyncStore {
+
+    private _made: { [tableName: string]: boolean } = {};
+
+    public makeTable(tableName: string, dataModels: DataModel[]): void {
+        if (this._made[tableName]) return;
+        this._made[tableName] = true;
+        super.makeTable(tableName, dataModels);
+    }
+}
+
+const connectDB = (store: ReconnectStore, dataModel: any[], migrations: NanoSQLMigration[], toVersion?: number) => {
+    const n = new NanoSQLInstance();
+    return n.table("users")
+    .model(dataModel)
+    .config({ mode: store } as any)
+    .migrations(migrations, toVersion)
+    .connect().then(() => {
+        return n;
+    });
+};
+
+const MigratedDataModel = [
+    { key: "id", type: "int", props: ["pk()", "ai()"] },
+    { key: "fullName", type: "string", props: ["idx()"] },
+    { key: "email", type: "string", props: ["trie()"] },
+    { key: "active", type: "bool" },
+    { key: "meta", type: "map" },
+    { key: "posts", type: "int[]" }
+];
+
+describe("Migrations", () => {
+    it("Rewrite rows and indexes with the column helpers.", (done: MochaDone) => {
+        const store = new ReconnectStore();
+        let nSQL: NanoSQLInstance;
+        let rows: any[];
+        let jeb: any[];
+        connectDB(store, ExampleDataModel, []).then((db) => {
+            return db.loadJS("users", ExampleUsers);
+        }).then(() => {
+            return connectDB(store, MigratedDataModel, [
+                { version: 1, up: (db) => db.renameColumn("users", "name", "fullName") },
+                { version: 2, up: (db) => db.addColumn("users", "active", (row) => row.id !== 2) },
+                { version: 3, up: (db) => db.dropColumn("users", "age") }
+            ]);
+        }).then((db) => {
+            nSQL = db;
+            return nSQL.query("select", ["id", "fullName", "age", "active"]).exec();
+        }).then((result) => {
+            rows = result;
+            return nSQL.query("select", ["id"]).where(["fullName", "=", "Jeb"]).exec();
+        }).then((result) => {
+            jeb = result;
+            return nSQL.query("select").where(["key", "=", "schemaVersion"]).manualExec({ table: "_util" });
+        }).then((version) => {
+            try {
+                expect(rows).to.deep.equal([
+                    { id: 1, fullName: "Bill", age: undefined, active: true },
+                    { id: 2, fullName: "Jeb", age: undefined, active: false },
+                    { id: 3, fullName: "Bob", age: undefined, active: true }
+                ], "Rows weren't migrated!");
+                expect(jeb).to.deep.equal([{ id: 2 }], "Secondary index wasn't rebuilt!");
+                expect(version[0].value).to.equal(3, "Schema version wasn't saved!");
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+
+    it("Skip applied steps and migrate down to a lower version.", (done: MochaDone) => {
+        const store = new ReconnectStore();
+        let ran: string[] = [];
+        const migrations: NanoSQLMigration[] = [
+            {
+                version: 1,
+                up: (db) => {
+                    ran.push("up 1");
+                    return db.addColumn("users", "active", true);
+                },
+                down: (db) => {
+                    ran.push("down 1");
+                    return db.dropColumn("users", "active");
+                }
+            },
+            {
+                version: 2,
+                up: (db) => {
+                    ran.push("up 2");
+                    return db.query("users", "upsert", { name: "Scott", age: 30, active: false }).exec();
+                },
+                down: (db) => {
+                    ran.push("down 2");
+                    return db.query("users", "delete").where(["name", "=", "Scott"]).exec();
+                }
+            }
+        ];
+        const dataModel = ExampleDataModel.concat([{ key: "active", type: "bool" }] as any[]);
+
+        connectDB(store, dataModel, []).then((nSQL) => {
+            return nSQL.loadJS("users", ExampleUsers);
+        }).then(() => {
+            return connectDB(store, dataModel, migrations.slice(0, 1));
+        }).then(() => {
+            return connectDB(store, dataModel, migrations);
+        }).then((nSQL) => {
+            return nSQL.query("select", ["name", "active"]).exec();
+        }).then((rows) => {
+            try {
+                expect(rows).to.deep.equal([
+                    { name: "Bill", active: true },
+                    { name: "Jeb", active: true },
+                    { name: "Bob", active: true },
+                    { name: "Scott", active: false }
+                ], "Up migration failed!");
+            } catch (e) {
+                done(e);
+                return;
+            }
+            return connectDB(store, dataModel, migrations, 0).then((nSQL) => {
+                return nSQL.query("select", ["name", "active"]).exec().then((rows) => {
+                    return nSQL.query("select").where(["key", "=", "schemaVersion"]).manualExec({ table: "_util" }).then((version) => {
+                        try {
+                            expect(ran).to.deep.equal(["up 1", "up 2", "down 2", "down 1"], "Migration steps ran out of order!");
+                            expect(rows).to.deep.equal([
+                                { name: "Bill", active: undefined },
+                                { name: "Jeb", active: undefined },
+                                { name: "Bob", active: undefined }
+                            ], "Down migration failed!");
+                            expect(version[0].value).to.equal(0, "Schema version wasn't saved!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    });
+                });
+            });
+        });
+    });
+
+    it("Reject connect when a step fails.", (done: MochaDone) => {
+        connectDB(new ReconnectStore(), ExampleDataModel, [
+            { version: 1, up: (db) => db.addColumn("users", "active", true) },
+            { version: 2, up: () => { throw new Error("nope"); } }
+        ]).then(() => {
+            done(new Error("Connect didn't fail!"));
+        }).catch((err) => {
+            try {
+                expect(err.message).to.equal("nope");
+                done();
+            } catch (e) {
+                done(e);
+            }
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { usersDB, ExampleUsers, ExampleDataModel } from "./data";
+import { QueryPlan } from "../src/query/std-query";
+
+const loadUsers = (ready: (nSQL: NanoSQLInstance) => void) => {
+    usersDB(ExampleDataModel, (nSQL) => {
+        nSQL.loadJS("users", ExampleUsers).then(() => {
+            ready(nSQL);
+        });
+    });
+};
+
+// timings change every run
+const withoutTime = (plan: QueryPlan) => {
+    expect(plan.time).to.be.a("number");
+    return {
+        ...plan,
+        time: undefined,
+        stages: plan.stages.map((s) => {
+            expect(s.time).to.be.a("number");
+            return { ...s, time: undefined };
+        })
+    };
+};
+
+describe("Explain", () => {
+    it("Show the access path and rows scanned.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            let plans: QueryPlan[] = [];
+            nSQL.query("select").where(["id", "=", 2]).explain().then((plan) => {
+                plans.push(plan);
+                return nSQL.query("select").where(["age", ">", 20]).explain();
+            }).then((plan) => {
+                plans.push(plan);
+                return nSQL.query("select").where([["age", ">", 20], "AND", ["name", "LIKE", "bob"]]).explain();
+            }).then((plan) => {
+                plans.push(plan);
+                return nSQL.query("select").where([["name", "=", "Bill"], "OR", ["id", "IN", [2, 3]]]).explain();
+            }).then((plan) => {
+                plans.push(plan);
+                return nSQL.query("select").where(["name", "LIKE", "bob"]).explain();
+            }).then((plan) => {
+                plans.push(plan);
+                try {
+                    const where = (estimated: number, scanned: number, rows: number) => [{ stage: "where", estimated: estimated, scanned: scanned, rows: rows, time: undefined }];
+                    expect(plans.map(withoutTime)).to.deep.equal([
+                        { access: "pk", indexes: ["id"], filtered: false, stages: where(1, 1, 1), time: undefined },
+                        { access: "index", indexes: ["age"], filtered: false, stages: where(1, 2, 2), time: undefined },
+                        { access: "index", indexes: ["age"], filtered: true, stages: where(1, 2, 1), time: undefined },
+                        { access: "index merge", indexes: ["name", "id"], filtered: false, stages: where(3, 3, 3), time: undefined },
+                        { access: "full scan", indexes: [], filtered: true, stages: where(3, 3, 1), time: undefined }
+                    ], "Query plans are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Show each stage of the query.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            nSQL.query("select", ["name", "UPPER(name) AS upper"]).where(["age", ">", 20]).orderBy({ name: "asc" }).offset(1).limit(1).explain().then((plan) => {
+                try {
+                    expect(withoutTime(plan).stages).to.deep.equal([
+                        { stage: "where", estimated: 1, scanned: 2, rows: 2, time: undefined },
+                        { stage: "functions", estimated: 1, scanned: 2, rows: 2, time: undefined },
+                        { stage: "orderBy", estimated: 1, scanned: 2, rows: 2, time: undefined },
+                        { stage: "offset", estimated: 1, scanned: 2, rows: 1, time: undefined },
+                        { stage: "limit", estimated: 0, scanned: 1, rows: 1, time: undefined }
+                    ], "Query stages are wrong!");
+                } catch (e) {
+                    done(e);
+                    return;
+                }
+                nSQL.query("select").join({ type: "cross", table: "users" }).explain().then((plan) => {
+                    try {
+                        expect(plan.access).to.equal("join", "Join wasn't explained!");
+                        expect(withoutTime(plan).stages).to.deep.equal([
+                            { stage: "join", estimated: 12, scanned: 12, rows: 9, time: undefined }
+                        ], "Join stage is wrong!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+
+    it("Only explain select queries.", (done: MochaDone) => {
+        loadUsers((nSQL) => {
+            nSQL.query("delete").where(["id", "=", 1]).explain().then(() => {
+                done(new Error("Delete query was explained!"));
+            }).catch((err) => {
+                nSQL.query("select", ["id"]).exec().then((rows) => {
+                    try {
+                        expect(err).to.equal("nSQL: Only select queries can be explained!");
+                        expect(rows).to.deep.equal([{ id: 1 }, { id: 2 }, { id: 3 }], "Delete query ran!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { ExampleUsers, ExampleDataModel } from "./data";
+
+const postsDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n
+        .table("users").model(ExampleDataModel)
+        .table("posts").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "title", type: "string" },
+            { key: "author", type: "int" }
+        ])
+        .connect()
+        .then(() => {
+            return n.loadJS("users", ExampleUsers);
+        }).then(() => {
+            return n.loadJS("posts", [
+                { id: 1, title: "never", author: 1 },
+                { id: 2, title: "gonna", author: 3 },
+                { id: 3, title: "give", author: 1 }
+            ]);
+        }).then(() => {
+            ready(n);
+        });
+};
+
+describe("Subqueries", () => {
+    it("Use subquery results in where conditions.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("select", ["id"]).where(["id", "IN", nSQL.table("posts").query("select", ["author"])]).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where(["id", "NOT IN", nSQL.table("posts").query("select", ["author"]).where(["title", "=", "gonna"])]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where([["age", "=", nSQL.table("users").query("select", ["MAX(age)"])], "OR", ["name", "=", "Bill"]]).orderBy({ id: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where(["EXISTS", nSQL.table("posts").query("select").where(["author", "=", 2])]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id"]).where([["NOT EXISTS", nSQL.table("posts").query("select").where(["author", "=", 2])], "AND", ["age", ">", 20]]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ id: 1 }, { id: 3 }],
+                        [{ id: 1 }, { id: 2 }],
+                        [{ id: 1 }, { id: 2 }],
+                        [],
+                        [{ id: 2 }, { id: 3 }]
+                    ], "Subquery where conditions failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Match no rows when a scalar subquery finds nothing.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            const noAuthor = () => nSQL.table("users").query("select", ["id"]).where(["name", "=", "Nobody"]);
+            let results: any[] = [];
+            nSQL.table("posts").query("select", ["id"]).where(["editor", "=", noAuthor()]).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("posts").query("select", ["id"]).where(["author", "!=", noAuthor()]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("posts").query("select", ["id"]).where([["author", "=", noAuthor()], "OR", ["title", "=", "give"]]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([[], [], [{ id: 3 }]], "Empty subqueries matched rows!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Use subqueries in upserts and deletes.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            nSQL.table("posts").query("delete").where(["author", "IN", nSQL.table("users").query("select", ["id"]).where(["name", "=", "Bob"])]).exec().then(() => {
+                return nSQL.table("users").query("upsert", { age: 50 }).where(["id", "IN", nSQL.table("posts").query("select", ["author"])]).exec();
+            }).then(() => {
+                return nSQL.table("users").query("select", ["id", "age"]).exec();
+            }).then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ id: 1, age: 50 }, { id: 2, age: 24 }, { id: 3, age: 21 }], "Subquery upsert or delete failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Select scalar subquery columns.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            const totalPosts = nSQL.table("posts").query("select", ["COUNT(*)"]);
+            nSQL.table("users").query("select", ["name", { query: totalPosts, as: "totalPosts" }]).where(["id", "<", 3]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { name: "Bill", totalPosts: 3 },
+                        { name: "Jeb", totalPosts: 3 }
+                    ], "Subquery column failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Reject subqueries that aren't selects.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            nSQL.table("users").query("select").where(["id", "IN", nSQL.table("posts").query("delete")]).exec().then(() => {
+                done(new Error("Query didn't fail!"));
+            }).catch((err) => {
+                nSQL.table("posts").query("select", ["id"]).exec().then((rows) => {
+                    try {
+                        expect(err).to.equal("nSQL: Subqueries must be select queries!");
+                        expect(rows.length).to.equal(3, "Subquery deleted rows!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+});
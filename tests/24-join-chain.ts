@@ -0,0 +1,143 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const chainTables = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n
+        .table("users").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "name", type: "string" },
+            { key: "boss", type: "int" }
+        ])
+        .table("posts").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "title", type: "string" },
+            { key: "author", type: "int" },
+            { key: "likes", type: "int" }
+        ])
+        .table("comments").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "post", type: "int" },
+            { key: "text", type: "string" }
+        ])
+        .connect()
+        .then(() => {
+            return n.loadJS("users", [
+                { id: 1, name: "Bill", boss: 0 },
+                { id: 2, name: "Jeb", boss: 1 },
+                { id: 3, name: "Bob", boss: 1 },
+                { id: 4, name: "Val", boss: 2 }
+            ]);
+        }).then(() => {
+            return n.loadJS("posts", [
+                { id: 1, title: "never", author: 1, likes: 5 },
+                { id: 2, title: "gonna", author: 3, likes: 1 },
+                { id: 3, title: "give", author: 2, likes: 8 }
+            ]);
+        }).then(() => {
+            return n.loadJS("comments", [
+                { id: 1, post: 1, text: "nice" },
+                { id: 2, post: 1, text: "meh" },
+                { id: 3, post: 3, text: "wow" }
+            ]);
+        }).then(() => {
+            ready(n);
+        });
+};
+
+describe("Join Chains", () => {
+    it("Chain joins across three tables.", (done: MochaDone) => {
+        chainTables((nSQL) => {
+            nSQL.table("users").query("select", ["users.name AS name", "posts.title AS title", "comments.text AS text"]).join([
+                { type: "inner", table: "posts", where: ["users.id", "=", "posts.author"] },
+                { type: "left", table: "comments", where: ["comments.post", "=", "posts.id"] }
+            ]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { name: "Bill", title: "never", text: "nice" },
+                        { name: "Bill", title: "never", text: "meh" },
+                        { name: "Jeb", title: "give", text: "wow" },
+                        { name: "Bob", title: "gonna", text: undefined }
+                    ], "Join chain failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Self join with table aliases.", (done: MochaDone) => {
+        chainTables((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("select", ["users.name AS name", "boss.name AS boss"]).join({
+                type: "left",
+                table: "users AS boss",
+                where: ["users.boss", "=", "boss.id"]
+            }).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["users.name AS name", "grand.name AS grandBoss"]).join([
+                    { type: "inner", table: "users AS boss", where: ["users.boss", "=", "boss.id"] },
+                    { type: "inner", table: "users AS grand", where: ["boss.boss", "=", "grand.id"] }
+                ]).where(["grand.name", "=", "Bill"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [
+                            { name: "Bill", boss: undefined },
+                            { name: "Jeb", boss: "Bill" },
+                            { name: "Bob", boss: "Bill" },
+                            { name: "Val", boss: "Jeb" }
+                        ],
+                        [{ name: "Val", grandBoss: "Bill" }]
+                    ], "Self join failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Join on compound and non equality conditions.", (done: MochaDone) => {
+        chainTables((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("select", ["users.name AS name", "posts.title AS title"]).join({
+                type: "inner",
+                table: "posts",
+                where: [["posts.author", "=", "users.id"], "AND", ["posts.likes", ">", 2]]
+            }).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["users.name AS a", "u2.name AS b"]).join({
+                    type: "inner",
+                    table: "users AS u2",
+                    where: [["users.id", "<", "u2.id"], "AND", [["u2.boss", "=", 1], "OR", ["u2.name", "=", "Val"]]]
+                }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.sql("SELECT users.name AS name, boss.name AS boss FROM users JOIN users boss ON users.boss = boss.id AND boss.id > 1").exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ name: "Bill", title: "never" }, { name: "Jeb", title: "give" }],
+                        [
+                            { a: "Bill", b: "Jeb" },
+                            { a: "Bill", b: "Bob" },
+                            { a: "Bill", b: "Val" },
+                            { a: "Jeb", b: "Bob" },
+                            { a: "Jeb", b: "Val" },
+                            { a: "Bob", b: "Val" }
+                        ],
+                        [{ name: "Val", boss: "Jeb" }]
+                    ], "Compound join conditions failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const employeesDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("employees")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string" },
+        { key: "dept", type: "string" },
+        { key: "salary", type: "int" }
+    ])
+    .connect().then(() => {
+        return n.loadJS("employees", [
+            { id: 1, name: "Ann", dept: "eng", salary: 100 },
+            { id: 2, name: "Ben", dept: "eng", salary: 70 },
+            { id: 3, name: "Cat", dept: "eng", salary: 100 },
+            { id: 4, name: "Dan", dept: "ops", salary: 50 },
+            { id: 5, name: "Eve", dept: "ops", salary: 70 }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Window Functions", () => {
+    it("Number and rank rows in each partition.", (done: MochaDone) => {
+        employeesDB((nSQL) => {
+            nSQL.query("select", [
+                "name",
+                "ROW_NUMBER() OVER (PARTITION BY dept ORDER BY salary DESC) AS num",
+                "RANK() OVER (PARTITION BY dept ORDER BY salary DESC) AS rank",
+                "DENSE_RANK() OVER (PARTITION BY dept ORDER BY salary DESC) AS dense"
+            ]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { name: "Ann", num: 1, rank: 1, dense: 1 },
+                        { name: "Ben", num: 3, rank: 3, dense: 2 },
+                        { name: "Cat", num: 2, rank: 1, dense: 1 },
+                        { name: "Dan", num: 2, rank: 2, dense: 2 },
+                        { name: "Eve", num: 1, rank: 1, dense: 1 }
+                    ], "Ranking functions failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Running aggregates, LAG and LEAD.", (done: MochaDone) => {
+        employeesDB((nSQL) => {
+            nSQL.query("select", [
+                "id",
+                "SUM(salary) OVER (ORDER BY id) AS running",
+                "AVG(salary) OVER (PARTITION BY dept) AS deptAvg",
+                "COUNT(*) OVER (PARTITION BY dept ORDER BY id) AS deptCount",
+                "LAG(salary) OVER (ORDER BY id) AS prev",
+                "LEAD(salary, 2, 0) OVER (ORDER BY id) AS next"
+            ]).where(["id", "<", 6]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { id: 1, running: 100, deptAvg: 90, deptCount: 1, prev: undefined, next: 100 },
+                        { id: 2, running: 170, deptAvg: 90, deptCount: 2, prev: 100, next: 50 },
+                        { id: 3, running: 270, deptAvg: 90, deptCount: 3, prev: 70, next: 70 },
+                        { id: 4, running: 320, deptAvg: 60, deptCount: 1, prev: 100, next: 0 },
+                        { id: 5, running: 390, deptAvg: 60, deptCount: 2, prev: 50, next: 0 }
+                    ], "Window aggregates failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Parse OVER clauses in SQL and reject bad window columns.", (done: MochaDone) => {
+        employeesDB((nSQL) => {
+            let errors: string[] = [];
+            nSQL.sql("SELECT name, RANK() OVER (PARTITION BY dept ORDER BY salary DESC) AS r FROM employees WHERE dept = 'ops'").exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{ name: "Dan", r: 2 }, { name: "Eve", r: 1 }], "SQL window function failed!");
+                } catch (e) {
+                    done(e);
+                    return;
+                }
+                return nSQL.query("select", ["ROW_NUMBER() AS num"]).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("select", ["COUNT(*)", "RANK() OVER (ORDER BY salary) AS rank"]).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("select", ["UPPER(name) OVER (ORDER BY id) AS upper"]).exec();
+            }).catch((err) => {
+                errors.push(err);
+                try {
+                    expect(errors).to.deep.equal([
+                        "nSQL: 'ROW_NUMBER' needs an OVER clause!",
+                        "nSQL: Window functions can't be used with aggregate functions!",
+                        "nSQL: 'UPPER' can't be used with OVER!"
+                    ], "Bad window columns weren't rejected!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const peopleDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("people")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "first", type: "string" },
+        { key: "last", type: "string" },
+        { key: "nick", type: "string" },
+        { key: "email", type: "string" },
+        { key: "age", type: "int" },
+        { key: "born", type: "any" }
+    ])
+    .connect().then(() => {
+        return n.loadJS("people", [
+            { id: 1, first: "  bill ", last: "Smith", email: "bill@x.com", age: 30, born: Date.UTC(2000, 0, 31, 13, 5) },
+            { id: 2, first: "jeb", last: "Kerman", nick: "JK", email: "jeb@x.com", age: 15, born: "2010-06-15T00:00:00Z" },
+            { id: 3, first: "bob", last: "Li", nick: null, email: null, age: 8, born: Date.UTC(2016, 1, 29) }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Scalar Functions", () => {
+    it("String and null functions with nested calls.", (done: MochaDone) => {
+        peopleDB((nSQL) => {
+            nSQL.query("select", [
+                "UPPER(TRIM(first)) AS upper",
+                "CONCAT(TRIM(first), ' ', last) AS full",
+                "SUBSTR(last, 2, 3) AS part",
+                "REPLACE(email, '@', ' at ') AS email",
+                "LENGTH(TRIM(first)) AS len",
+                "COALESCE(nick, email, 'none') AS contact",
+                "CONCAT(last, ', A AS B (x)') AS quoted"
+            ]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { upper: "BILL", full: "bill Smith", part: "mit", email: "bill at x.com", len: 4, contact: "bill@x.com", quoted: "Smith, A AS B (x)" },
+                        { upper: "JEB", full: "jeb Kerman", part: "erm", email: "jeb at x.com", len: 3, contact: "JK", quoted: "Kerman, A AS B (x)" },
+                        { upper: "BOB", full: "bob Li", part: "i", email: null, len: 3, contact: "none", quoted: "Li, A AS B (x)" }
+                    ], "String functions failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Conditional and date functions.", (done: MochaDone) => {
+        peopleDB((nSQL) => {
+            let rows: any[];
+            const before = Date.now();
+            nSQL.query("select", [
+                "CASE(age >= 21, 'adult', age >= 13, 'teen', 'child') AS group",
+                "CASE(nick = NULL, 'no nick', nick) AS nick",
+                "DATE_ADD(born, 1, 'month') AS nextMonth",
+                "DATE_DIFF('2020-02-29T00:00:00Z', born, 'years') AS years",
+                "DATE_DIFF(DATE_ADD(born, 36, 'hours'), born, 'days') AS days",
+                "STRFTIME('%Y-%m-%d %H:%M', born) AS day"
+            ]).exec().then((result) => {
+                rows = result;
+                return nSQL.query("select", ["NOW() AS now"]).where(["id", "=", 1]).exec();
+            }).then((now) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { group: "adult", nick: "no nick", nextMonth: Date.UTC(2000, 1, 29, 13, 5), years: 20, days: 1, day: "2000-01-31 13:05" },
+                        { group: "teen", nick: "JK", nextMonth: Date.UTC(2010, 6, 15), years: 9, days: 1, day: "2010-06-15 00:00" },
+                        { group: "child", nick: "no nick", nextMonth: Date.UTC(2016, 2, 29), years: 4, days: 1, day: "2016-02-29 00:00" }
+                    ], "Conditional or date functions failed!");
+                    expect(now[0].now).to.be.within(before, Date.now(), "NOW() failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Aggregates inside functions and SQL string arguments.", (done: MochaDone) => {
+        peopleDB((nSQL) => {
+            let results: any[] = [];
+            const query = nSQL.sql("SELECT CONCAT(last, ', ', TRIM(first)) AS name, CASE WHEN age > 21 THEN 'old' WHEN nick IS NULL THEN 'unknown' ELSE 'young' END AS bucket FROM people");
+            try {
+                expect(query.emit().actionArgs).to.deep.equal([
+                    "CONCAT(last, ', ', TRIM(first)) AS name",
+                    "CASE(age > 21, 'old', nick = NULL, 'unknown', 'young') AS bucket"
+                ], "SQL functions didn't compile!");
+            } catch (e) {
+                done(e);
+                return;
+            }
+            query.exec().then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["ROUND(AVG(age)) AS avgAge", "SUM(LENGTH(last)) AS letters", "MAX(LENGTH(TRIM(first))) AS longest"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [
+                            { name: "Smith, bill", bucket: "old" },
+                            { name: "Kerman, jeb", bucket: "young" },
+                            { name: "Li, bob", bucket: "unknown" }
+                        ],
+                        [{ avgAge: 18, letters: 13, longest: 4 }]
+                    ], "Nested aggregates failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+});
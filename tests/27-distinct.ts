@@ -0,0 +1,135 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const ordersDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("orders")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "customer", type: "string", props: ["idx()"] },
+        { key: "amount", type: "int", props: ["idx()"] },
+        { key: "email", type: "string" },
+        { key: "city", type: "string" }
+    ])
+    .connect().then(() => {
+        return n.loadJS("orders", [
+            { id: 1, customer: "ann", amount: 10, email: "a@x.com", city: "NY" },
+            { id: 2, customer: "ben", amount: 20, email: "b@x.com", city: "LA" },
+            { id: 3, customer: "ann", amount: 10, email: "a@x.com", city: "NY" },
+            { id: 4, customer: "cat", amount: 0, email: null, city: "NY" },
+            { id: 5, customer: "ben", amount: 30, email: "b@x.com", city: "LA" }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Distinct", () => {
+    it("Select distinct rows and aggregate distinct values.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("select", ["email", "city"]).distinct().exec().then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["COUNT(DISTINCT email) AS emails", "COUNT(email) AS withEmail", "SUM(DISTINCT amount) AS total", "COUNT(DISTINCT UPPER(city)) AS cities"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["city", "COUNT(DISTINCT customer) AS customers"]).groupBy({ city: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [
+                            { email: "a@x.com", city: "NY" },
+                            { email: "b@x.com", city: "LA" },
+                            { email: null, city: "NY" }
+                        ],
+                        [{ emails: 2, withEmail: 4, total: 60, cities: 2 }],
+                        [{ city: "LA", customers: 1 }, { city: "NY", customers: 2 }]
+                    ], "Distinct results are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Read distinct values from secondary indexes.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            let results: any[] = [];
+            let access: string[] = [];
+            nSQL.query("select", ["customer"]).distinct().orderBy({ customer: "desc" }).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["COUNT(DISTINCT amount) AS amounts", "SUM(DISTINCT amount) AS total"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["COUNT(DISTINCT amount) AS amounts"]).explain();
+            }).then((plan) => {
+                access.push(plan.access);
+                expect(plan.indexes).to.deep.equal(["amount"], "Index wasn't explained!");
+                return nSQL.query("delete").where(["id", "IN", [2, 5]]).exec();
+            }).then(() => {
+                return nSQL.query("select", ["customer"]).distinct().exec();
+            }).then((rows) => {
+                results.push(rows);
+                // rows without a value are indexed as "undefined", so the rows have to be read
+                return nSQL.query("upsert", { id: 6, city: "LA" }).exec();
+            }).then(() => {
+                return nSQL.query("select", ["COUNT(DISTINCT customer) AS customers"]).explain();
+            }).then((plan) => {
+                access.push(plan.access);
+                return nSQL.query("select", ["COUNT(DISTINCT customer) AS customers"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ customer: "cat" }, { customer: "ben" }, { customer: "ann" }],
+                        [{ amounts: 4, total: 60 }],
+                        [{ customer: "ann" }, { customer: "cat" }],
+                        [{ customers: 2 }]
+                    ], "Distinct index results are wrong!");
+                    expect(access).to.deep.equal(["distinct index", "full scan"], "Distinct index wasn't used!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Parse DISTINCT in SQL and reject it outside aggregates.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            let results: any[] = [];
+            const query = nSQL.sql("SELECT DISTINCT city FROM orders ORDER BY city ASC");
+            try {
+                expect(query.emit().distinct).to.equal(true, "SELECT DISTINCT didn't compile!");
+                expect(nSQL.sql("SELECT COUNT(DISTINCT customer) AS c, SUM(DISTINCT amount) FROM orders").emit().actionArgs).to.deep.equal([
+                    "COUNT(DISTINCT customer) AS c",
+                    "SUM(DISTINCT amount)"
+                ], "DISTINCT aggregates didn't compile!");
+            } catch (e) {
+                done(e);
+                return;
+            }
+            query.exec().then((rows) => {
+                results.push(rows);
+                return nSQL.sql("SELECT COUNT(DISTINCT customer) AS c, SUM(DISTINCT amount) AS s FROM orders WHERE city = 'NY'").exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["UPPER(DISTINCT city)"]).exec();
+            }).catch((err) => {
+                try {
+                    expect(results).to.deep.equal([
+                        [{ city: "LA" }, { city: "NY" }],
+                        [{ c: 2, s: 10 }]
+                    ], "SQL distinct failed!");
+                    expect(err).to.equal("nSQL: DISTINCT can only be used with aggregate functions!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+});
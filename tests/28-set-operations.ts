@@ -0,0 +1,134 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const archiveDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n
+        .table("users").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "name", type: "string" },
+            { key: "age", type: "int" }
+        ])
+        .table("archive").model([
+            { key: "id", type: "int", props: ["pk()", "ai()"] },
+            { key: "name", type: "string" },
+            { key: "age", type: "float" },
+            { key: "note", type: "string" }
+        ])
+        .connect()
+        .then(() => {
+            return n.loadJS("users", [
+                { id: 1, name: "Bill", age: 20 },
+                { id: 2, name: "Jeb", age: 24 },
+                { id: 3, name: "Bob", age: 21 }
+            ]);
+        }).then(() => {
+            return n.loadJS("archive", [
+                { id: 3, name: "Bob", age: 21, note: "moved" },
+                { id: 4, name: "Val", age: 30, note: "left" },
+                { id: 5, name: "Jeb", age: 24, note: "moved" }
+            ]);
+        }).then(() => {
+            ready(n);
+        });
+};
+
+describe("Set Operations", () => {
+    it("Union queries with one order by and limit.", (done: MochaDone) => {
+        archiveDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("select", ["name"]).union(nSQL.table("archive").query("select", ["name"])).orderBy({ name: "asc" }).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["id", "name"]).unionAll(nSQL.table("archive").query("select", ["id", "name"])).orderBy({ id: "desc" }).limit(3).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["name AS who", "age"]).where(["age", ">", 20]).union(nSQL.table("archive").query("select", ["UPPER(name)", "age"]).where(["age", ">", 25])).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ name: "Bill" }, { name: "Bob" }, { name: "Jeb" }, { name: "Val" }],
+                        [{ id: 5, name: "Jeb" }, { id: 4, name: "Val" }, { id: 3, name: "Bob" }],
+                        [{ who: "Jeb", age: 24 }, { who: "Bob", age: 21 }, { who: "VAL", age: 30 }]
+                    ], "Union failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Intersect, except and chained set operations.", (done: MochaDone) => {
+        archiveDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("select", ["name", "age"]).intersect(nSQL.table("archive").query("select", ["name", "age"])).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["name"]).except(nSQL.table("archive").query("select", ["name"])).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["name"])
+                    .union(nSQL.table("archive").query("select", ["name"]))
+                    .except(nSQL.table("archive").query("select", ["name"]).where(["note", "=", "left"]))
+                    .orderBy({ name: "desc" }).explain();
+            }).then((plan) => {
+                results.push(plan.stages.map(s => [s.stage, s.rows]));
+                try {
+                    expect(results).to.deep.equal([
+                        [{ name: "Jeb", age: 24 }, { name: "Bob", age: 21 }],
+                        [{ name: "Bill" }],
+                        [["where", 3], ["functions", 3], ["union", 4], ["except", 3], ["orderBy", 3]]
+                    ], "Intersect or except failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Parse set operations in SQL and check the columns.", (done: MochaDone) => {
+        archiveDB((nSQL) => {
+            let results: any[] = [];
+            let errors: string[] = [];
+            const query = nSQL.sql("SELECT name FROM users UNION ALL SELECT name FROM archive WHERE id > 3 ORDER BY name DESC LIMIT 2");
+            try {
+                const emitted = query.emit();
+                expect(emitted.setOperations).to.deep.equal([
+                    { type: "union all", query: { action: "select", table: "archive", actionArgs: ["name"], where: ["id", ">", 3] } }
+                ], "Set operation didn't compile!");
+                expect([emitted.orderBy, emitted.limit]).to.deep.equal([{ name: "desc" }, 2], "Order by and limit didn't compile!");
+            } catch (e) {
+                done(e);
+                return;
+            }
+            query.exec().then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select", ["name", "age"]).union(nSQL.table("archive").query("select", ["name"])).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.table("users").query("select", ["age"]).union(nSQL.table("archive").query("select", ["note"])).exec();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.table("users").query("select", ["name"]).intersect(nSQL.table("archive").query("delete")).exec();
+            }).catch((err) => {
+                errors.push(err);
+                nSQL.table("archive").query("select", ["id"]).exec().then((rows) => {
+                    try {
+                        expect(results).to.deep.equal([[{ name: "Val" }, { name: "Jeb" }]], "SQL union failed!");
+                        expect(errors).to.deep.equal([
+                            "nSQL: UNION queries must select the same number of columns!",
+                            "nSQL: UNION column \"note\" (string) doesn't match column \"age\" (int)!",
+                            "nSQL: INTERSECT can only combine select queries!"
+                        ], "Bad set operations weren't rejected!");
+                        expect(rows.length).to.equal(3, "Set operation deleted rows!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const numbersDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("numbers")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "value", type: "int" },
+        { key: "name", type: "string" }
+    ])
+    .connect().then(() => {
+        let rows: any[] = [];
+        for (let i = 1; i <= 50; i++) {
+            rows.push({ id: i, value: i * 10, name: "n" + i });
+        }
+        return n.loadJS("numbers", rows);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Stream", () => {
+    it("Stream rows with where, offset and limit.", (done: MochaDone) => {
+        numbersDB((nSQL) => {
+            let streamed: any[] = [];
+            let indexes: number[] = [];
+            nSQL.query("select", ["id", "UPPER(name) AS name"]).where(["value", ">", 200]).offset(2).limit(3).stream((row, idx) => {
+                streamed.push(row);
+                indexes.push(idx);
+            }, (err) => {
+                let ranged: any[] = [];
+                nSQL.query("select", ["id"]).offset(45).limit(10).stream((row) => {
+                    ranged.push(row);
+                }, () => {
+                    try {
+                        expect(err).to.equal(undefined, "Stream failed!");
+                        expect(streamed).to.deep.equal([
+                            { id: 23, name: "N23" },
+                            { id: 24, name: "N24" },
+                            { id: 25, name: "N25" }
+                        ], "Streamed rows are wrong!");
+                        expect(indexes).to.deep.equal([0, 1, 2], "Row indexes are wrong!");
+                        expect(ranged).to.deep.equal([{ id: 46 }, { id: 47 }, { id: 48 }, { id: 49 }, { id: 50 }], "Offset stream failed!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+
+    it("Iterate pulls rows as they're asked for.", (done: MochaDone) => {
+        numbersDB((nSQL) => {
+            let scanned = 0;
+            let rows: any[] = [];
+            const iterator = nSQL.query("select", ["id"]).where((row) => {
+                scanned++;
+                return row.id % 2 === 0;
+            }).iterate();
+            let scannedAfterTwo = 0;
+            iterator.next().then((result) => {
+                rows.push(result);
+                return iterator.next();
+            }).then((result) => {
+                rows.push(result);
+                scannedAfterTwo = scanned;
+                return iterator.return();
+            }).then((result) => {
+                rows.push(result);
+                return iterator.next();
+            }).then((result) => {
+                rows.push(result);
+                const all = nSQL.query("select", ["id"]).where(["id", ">", 47]).iterate();
+                let ids: any[] = [];
+                const readAll = () => {
+                    return all.next().then((r) => {
+                        if (r.done) return ids;
+                        ids.push((r.value as any).id);
+                        return readAll();
+                    });
+                };
+                return readAll();
+            }).then((ids) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { done: false, value: { id: 2 } },
+                        { done: false, value: { id: 4 } },
+                        { done: true, value: undefined },
+                        { done: true, value: undefined }
+                    ], "Iterator rows are wrong!");
+                    expect(scannedAfterTwo).to.equal(4, "Iterator read ahead!");
+                    expect(ids).to.deep.equal([48, 49, 50], "Iterator didn't finish!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Stream queries that need every row and reject other actions.", (done: MochaDone) => {
+        numbersDB((nSQL) => {
+            let sorted: any[] = [];
+            let counted: any[] = [];
+            nSQL.query("select", ["id"]).where(["id", "<", 4]).orderBy({ id: "desc" }).stream((row) => {
+                sorted.push(row);
+            }, () => {
+                nSQL.query("select", ["COUNT(*) AS total"]).stream((row) => {
+                    counted.push(row);
+                }, () => {
+                    nSQL.query("delete").stream(() => {
+                        done(new Error("Delete was streamed!"));
+                    }, (err) => {
+                        nSQL.query("select", ["COUNT(*) AS total"]).exec().then((rows) => {
+                            try {
+                                expect(sorted).to.deep.equal([{ id: 3 }, { id: 2 }, { id: 1 }], "Ordered stream failed!");
+                                expect(counted).to.deep.equal([{ total: 50 }], "Aggregate stream failed!");
+                                expect(err).to.equal("nSQL: Only select queries can be streamed!");
+                                expect(rows).to.deep.equal([{ total: 50 }], "Delete query ran!");
+                                done();
+                            } catch (e) {
+                                done(e);
+                            }
+                        });
+                    });
+                });
+            });
+        });
+    });
+
+    it("Read primary key ranges and stop when the iterator returns.", (done: MochaDone) => {
+        numbersDB((nSQL) => {
+            let streamed: any[] = [];
+            nSQL.query("select", ["id"]).where([["id", ">", 20], "AND", ["id", "<=", 23], "AND", ["value", "!=", 220]]).stream((row) => {
+                streamed.push(row);
+            }, () => {
+                const iterator = nSQL.query("select", ["id"]).where(["id", "BETWEEN", [10, 40]]).iterate();
+                let first: any;
+                iterator.next().then((result) => {
+                    first = result;
+                    return iterator.return();
+                }).then((result) => {
+                    try {
+                        expect(streamed).to.deep.equal([{ id: 21 }, { id: 23 }], "Primary key range stream failed!");
+                        expect(first).to.deep.equal({ done: false, value: { id: 10 } }, "Iterator rows are wrong!");
+                        expect(result).to.deep.equal({ done: true, value: undefined }, "Iterator didn't return!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const scoresDB = (ready: (nSQL: NanoSQLInstance) => void, cache?: boolean) => {
+    const n = new NanoSQLInstance();
+    n.config({ cache: cache !== false }).table("scores")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "score", type: "int", props: ["idx()"] },
+        { key: "name", type: "string" },
+        { key: "code", type: "string", props: ["idx()"] }
+    ])
+    .connect().then(() => {
+        let rows: any[] = [];
+        for (let i = 1; i <= 25; i++) {
+            rows.push({ id: i, score: i % 5, name: "p" + i, code: "c" + i });
+        }
+        return n.loadJS("scores", rows);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Cursor", () => {
+    it("Page through the primary key until the cursor runs out.", (done: MochaDone) => {
+        scoresDB((nSQL) => {
+            let pages: any[][] = [];
+            let cursors: any[] = [];
+            const nextPage = (cursor?: string) => {
+                let query = nSQL.query("select", ["id"]).limit(10);
+                if (cursor !== undefined) query = query.after(cursor);
+                query.page().then((page) => {
+                    pages.push(page.rows.map(r => r.id));
+                    cursors.push(page.cursor);
+                    if (page.cursor !== undefined) {
+                        nextPage(page.cursor);
+                        return;
+                    }
+                    try {
+                        expect(pages).to.deep.equal([
+                            [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+                            [11, 12, 13, 14, 15, 16, 17, 18, 19, 20],
+                            [21, 22, 23, 24, 25]
+                        ], "Pages are wrong!");
+                        expect(typeof cursors[0]).to.equal("string", "Cursor wasn't returned!");
+                        expect(cursors[2]).to.equal(undefined, "Last page has a cursor!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                }).catch(done);
+            };
+            nextPage();
+        });
+    });
+
+    it("Page a secondary index with duplicate values and a where.", (done: MochaDone) => {
+        scoresDB((nSQL) => {
+            let pages: any[][] = [];
+            const query = () => nSQL.query("select", ["id", "score", "UPPER(name) AS name"]).where(["id", ">", 10]).orderBy({ score: "desc" }).limit(4);
+            query().page().then((page) => {
+                pages.push(page.rows);
+                return query().after(page.cursor as string).page();
+            }).then((page) => {
+                pages.push(page.rows);
+                return query().after(page.cursor as string).exec();
+            }).then((rows) => {
+                pages.push(rows);
+                try {
+                    expect(pages).to.deep.equal([
+                        [
+                            { id: 24, score: 4, name: "P24" },
+                            { id: 19, score: 4, name: "P19" },
+                            { id: 14, score: 4, name: "P14" },
+                            { id: 23, score: 3, name: "P23" }
+                        ],
+                        [
+                            { id: 18, score: 3, name: "P18" },
+                            { id: 13, score: 3, name: "P13" },
+                            { id: 22, score: 2, name: "P22" },
+                            { id: 17, score: 2, name: "P17" }
+                        ],
+                        [
+                            { id: 12, score: 2, name: "P12" },
+                            { id: 21, score: 1, name: "P21" },
+                            { id: 16, score: 1, name: "P16" },
+                            { id: 11, score: 1, name: "P11" }
+                        ]
+                    ], "Index pages are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Reject cursors that don't fit the query.", (done: MochaDone) => {
+        scoresDB((nSQL) => {
+            let errors: string[] = [];
+            nSQL.query("select").orderBy({ id: "asc" }).page().catch((err) => {
+                errors.push(err);
+                return nSQL.query("select").orderBy({ name: "asc" }).limit(5).page();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("select").limit(5).page();
+            }).then((page: any) => {
+                return nSQL.query("select").orderBy({ id: "desc" }).limit(5).after(page.cursor).page();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("select").limit(5).after("nope").page();
+            }).catch((err) => {
+                errors.push(err);
+                return nSQL.query("delete").page();
+            }).catch((err) => {
+                errors.push(err);
+                try {
+                    expect(errors).to.deep.equal([
+                        "nSQL: Cursors need a limit!",
+                        "nSQL: Cursors can only order by the primary key or a secondary index!",
+                        "nSQL: The cursor doesn't match the query's order!",
+                        "nSQL: Invalid cursor!",
+                        "nSQL: Only select queries can be paged!"
+                    ], "Bad cursors weren't rejected!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Seek to the cursor without the index cache.", (done: MochaDone) => {
+        scoresDB((nSQL) => {
+            let pages: any[][] = [];
+            nSQL.query("select", ["id"]).orderBy({ id: "desc" }).limit(3).page().then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                return nSQL.query("select", ["id"]).orderBy({ id: "desc" }).limit(3).after(page.cursor as string).page();
+            }).then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                return nSQL.query("select", ["id"]).where(["id", "<", 20]).orderBy({ score: "desc" }).limit(4).page();
+            }).then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                return nSQL.query("select", ["id"]).where(["id", "<", 20]).orderBy({ score: "desc" }).limit(4).after(page.cursor as string).page();
+            }).then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                try {
+                    expect(pages).to.deep.equal([
+                        [25, 24, 23],
+                        [22, 21, 20],
+                        [19, 14, 9, 4],
+                        [18, 13, 8, 3]
+                    ], "Pages are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        }, false);
+    });
+
+    it("Page a secondary index after it's rebuilt.", (done: MochaDone) => {
+        scoresDB((nSQL) => {
+            let pages: any[][] = [];
+            const query = () => nSQL.query("select", ["id"]).orderBy({ code: "asc" }).limit(4);
+            nSQL.extend("rebuild_idx", "scores").then(() => {
+                return query().page();
+            }).then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                return query().after(page.cursor as string).page();
+            }).then((page) => {
+                pages.push(page.rows.map(r => r.id));
+                try {
+                    expect(pages).to.deep.equal([
+                        [1, 10, 11, 12],
+                        [13, 14, 15, 16]
+                    ], "Pages are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
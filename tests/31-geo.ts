@@ -0,0 +1,127 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const places = [
+    { id: 1, name: "Portland", lat: 45.5152, lon: -122.6784 },
+    { id: 2, name: "Vancouver", lat: 45.6387, lon: -122.6615 },
+    { id: 3, name: "Beaverton", lat: 45.4871, lon: -122.8037 },
+    { id: 4, name: "Salem", lat: 44.9429, lon: -123.0351 },
+    { id: 5, name: "Seattle", lat: 47.6062, lon: -122.3321 },
+    { id: 6, name: "Suva", lat: -18.1248, lon: 178.4501 },
+    { id: 7, name: "Apia", lat: -13.8333, lon: -171.75 },
+    { id: 8, name: "Nukualofa", lat: -21.1394, lon: -175.2049 },
+    { id: 9, name: "Nowhere", lat: null, lon: null }
+];
+
+const placesDB = (props: any[], latProps: string[], ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("places")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string" },
+        { key: "lat", type: "float", props: latProps },
+        { key: "lon", type: "float", props: latProps }
+    ], props)
+    .connect().then(() => {
+        return n.loadJS("places", places);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Geo Index", () => {
+    it("Find rows within a distance using a geo index.", (done: MochaDone) => {
+        placesDB(["geo(lat, lon)"], [], (nSQL) => {
+            let results: any[] = [];
+            nSQL.query("select", ["name", "_distance"]).where(["crow(45.5152, -122.6784)", "<", 20]).orderBy({ _distance: "asc" }).exec().then((rows) => {
+                results.push(rows.map(r => [r.name, Math.round(r._distance)]));
+                return nSQL.query("select", ["name"]).where(["crow(45.5152, -122.6784)", "<", 20]).explain();
+            }).then((plan) => {
+                results.push([plan.access, plan.indexes, plan.stages[0].scanned]);
+                return nSQL.query("select", ["name"]).where([["crow(45.5152, -122.6784)", "<=", 100], "AND", ["name", "!=", "Portland"]]).orderBy({ name: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows.map(r => r.name));
+                try {
+                    expect(results).to.deep.equal([
+                        [["Portland", 0], ["Beaverton", 10], ["Vancouver", 14]],
+                        ["geo", ["lat", "lon"], 3],
+                        ["Beaverton", "Salem", "Vancouver"]
+                    ], "Geo distance query failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Find rows inside a bounding box and keep the index updated.", (done: MochaDone) => {
+        placesDB(["geo(lat, lon)"], [], (nSQL) => {
+            let results: any[] = [];
+            const box = (where: any[]) => nSQL.query("select", ["name"]).where(where).orderBy({ name: "asc" }).exec().then((rows) => {
+                results.push(rows.map(r => r.name));
+            });
+            box(["within(45, -123, 46, -122)", "=", true]).then(() => {
+                // crosses the 180th meridian
+                return box(["within(-22, 175, -13, -173)", "=", true]);
+            }).then(() => {
+                return nSQL.query("upsert", { id: 4, lat: 45.52, lon: -122.68 }).exec();
+            }).then(() => {
+                return nSQL.query("delete").where(["id", "=", 2]).exec();
+            }).then(() => {
+                return box(["within(45, -123, 46, -122)", "=", true]);
+            }).then(() => {
+                return box(["crow(45.5152, -122.6784)", "<", 5]);
+            }).then(() => {
+                try {
+                    expect(results).to.deep.equal([
+                        ["Beaverton", "Portland", "Vancouver"],
+                        ["Nukualofa", "Suva"],
+                        ["Beaverton", "Portland", "Salem"],
+                        ["Portland", "Salem"]
+                    ], "Bounding box query failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Distance queries without a geo index give the same rows.", (done: MochaDone) => {
+        let results: any[] = [];
+        let access: string[] = [];
+        const query = (nSQL: NanoSQLInstance) => {
+            return nSQL.query("select", ["name"]).where(["crow(45.5152, -122.6784)", "<", 100]).orderBy({ name: "asc" }).exec().then((rows) => {
+                results.push(rows.map(r => r.name));
+                return nSQL.query("select", ["name"]).where(["crow(45.5152, -122.6784)", "<", 100]).explain();
+            }).then((plan) => {
+                access.push(plan.access);
+                return nSQL.query("select", ["name"]).where(["id", "<", 3]).exec();
+            }).then((rows) => {
+                results.push(rows.map(r => r.name));
+            });
+        };
+        placesDB([], ["idx()"], (indexed) => {
+            query(indexed).then(() => {
+                placesDB([], [], (plain) => {
+                    query(plain).then(() => {
+                        try {
+                            expect(results).to.deep.equal([
+                                ["Beaverton", "Portland", "Salem", "Vancouver"],
+                                ["Portland", "Vancouver"],
+                                ["Beaverton", "Portland", "Salem", "Vancouver"],
+                                ["Portland", "Vancouver"]
+                            ], "Distance queries don't match!");
+                            expect(access).to.deep.equal(["crow", "full scan"], "Wrong access path!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    }).catch(done);
+                });
+            }).catch(done);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const articlesDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("articles")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "title", type: "string", props: ["search(3, english-stem)"] },
+        { key: "body", type: "string", props: ["search(1, english-stem)"] }
+    ])
+    .connect().then(() => {
+        return n.loadJS("articles", [
+            { id: 1, title: "Gardening basics", body: "Water the garden in the morning and pull weeds every week." },
+            { id: 2, title: "Weekend cooking", body: "Tomatoes from the garden make a quick sauce, tomatoes and basil and tomatoes again." },
+            { id: 3, title: "Tomatoes", body: "Growing tomatoes needs sun." },
+            { id: 4, title: "Travel notes", body: "A long trip by train through the mountains with many stops, small towns, old bridges and one tomato stand." },
+            { id: 5, title: "Bicycle repair", body: "Fix a flat tire with a patch kit and a pump." }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Search Score", () => {
+    it("Rank search results by their BM25 score.", (done: MochaDone) => {
+        articlesDB((nSQL) => {
+            nSQL.query("select", ["id", "_score"]).where(["search(title, body)", ">0", "tomatoes"]).orderBy({ _score: "desc" }).exec().then((rows) => {
+                try {
+                    expect(rows.map(r => r.id)).to.deep.equal([3, 2, 4], "Rows aren't ranked by score!");
+                    rows.forEach((row) => {
+                        expect(row._score).to.be.above(0, "Score wasn't set!");
+                    });
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Boost columns with the weight in their search() prop.", (done: MochaDone) => {
+        articlesDB((nSQL) => {
+            let scores: any = {};
+            nSQL.query("select", ["id", "_score"]).where(["search(title)", ">0", "tomatoes"]).exec().then((rows) => {
+                scores.title = rows.map(r => [r.id, r._score]);
+                return nSQL.query("select", ["id", "_score"]).where(["search(body)", ">0", "growing tomatoes"]).exec();
+            }).then((rows) => {
+                scores.body = rows.map(r => [r.id, r._score]);
+                try {
+                    expect(scores.title.map(s => s[0])).to.deep.equal([3], "Title search failed!");
+                    const bodyScore = scores.body.filter(s => s[0] === 3)[0][1];
+                    // the title is boosted 3 times and has fewer words than the body
+                    expect(scores.title[0][1]).to.be.above(bodyScore, "Title boost wasn't used!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Keep the search stats up to date as rows change.", (done: MochaDone) => {
+        articlesDB((nSQL) => {
+            let scores: number[] = [];
+            const score = () => nSQL.query("select", ["id", "_score"]).where(["search(body)", ">0", "sun"]).exec().then((rows) => {
+                scores.push(rows.filter(r => r.id === 3)[0]._score);
+            });
+            score().then(() => {
+                // the word gets more common, so it's worth less
+                return nSQL.query("upsert", { id: 6, title: "Summer", body: "Ride in the sun." }).exec();
+            }).then(() => {
+                return score();
+            }).then(() => {
+                return nSQL.query("delete").where(["id", "=", 6]).exec();
+            }).then(() => {
+                return score();
+            }).then(() => {
+                try {
+                    expect(scores[1]).to.be.below(scores[0], "Score didn't drop!");
+                    expect(scores[2]).to.be.closeTo(scores[0], 0.0001, "Score didn't come back!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
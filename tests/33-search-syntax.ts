@@ -0,0 +1,107 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { parseSearchQuery } from "../src/utilities";
+
+const recipesDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("recipes")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "title", type: "string", props: ["search(2, english-stem)"] },
+        { key: "body", type: "string", props: ["search(1, english-stem)"] }
+    ])
+    .connect().then(() => {
+        return n.loadJS("recipes", [
+            { id: 1, title: "Tomato sauce", body: "A quick sauce of fresh tomatoes, garlic and basil." },
+            { id: 2, title: "Garlic bread", body: "Bread with garlic butter, quick to bake." },
+            { id: 3, title: "Basil pesto", body: "Basil, pine nuts and garlic make a sauce that is quick." },
+            { id: 4, title: "Tomato soup", body: "Roast tomatoes and onions, then blend into a soup." },
+            { id: 5, title: "Pancakes", body: "Flour, eggs and milk, cooked in butter." }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+const search = (nSQL: NanoSQLInstance, value: string): Promise<number[]> => {
+    return nSQL.query("select", ["id"]).where(["search(title, body)", ">0", value]).orderBy({ id: "asc" }).exec().then((rows) => {
+        return rows.map(r => r.id);
+    }) as any;
+};
+
+describe("Search Syntax", () => {
+    it("Parse search operators.", (done: MochaDone) => {
+        try {
+            expect(parseSearchQuery(`garlic +sauce -"pine nuts" "quick sauce" butt* -onion`)).to.deep.equal({
+                text: "garlic sauce quick sauce",
+                required: ["sauce", "quick sauce"],
+                excluded: ["pine nuts", "onion"],
+                prefixes: ["butt"]
+            });
+            expect(parseSearchQuery("plain words")).to.deep.equal({ text: "plain words", required: [], excluded: [], prefixes: [] });
+            done();
+        } catch (e) {
+            done(e);
+        }
+    });
+
+    it("Require and exclude words.", (done: MochaDone) => {
+        recipesDB((nSQL) => {
+            let results: number[][] = [];
+            search(nSQL, "garlic tomatoes").then((ids) => {
+                results.push(ids);
+                return search(nSQL, "+garlic tomatoes");
+            }).then((ids) => {
+                results.push(ids);
+                return search(nSQL, "garlic -sauce");
+            }).then((ids) => {
+                results.push(ids);
+                return search(nSQL, "tomato -\"quick sauce\" butt*");
+            }).then((ids) => {
+                results.push(ids);
+                try {
+                    expect(results).to.deep.equal([
+                        [1, 2, 3, 4],
+                        [1, 2, 3],
+                        [2],
+                        [2, 4, 5]
+                    ], "Boolean search failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Match exact phrases using word positions.", (done: MochaDone) => {
+        recipesDB((nSQL) => {
+            let results: number[][] = [];
+            search(nSQL, "\"quick sauce\"").then((ids) => {
+                results.push(ids);
+                return search(nSQL, "\"sauce quick\"");
+            }).then((ids) => {
+                results.push(ids);
+                // stop words keep their place in the phrase
+                return search(nSQL, "\"garlic make a sauce\" basil");
+            }).then((ids) => {
+                results.push(ids);
+                return search(nSQL, "\"tomato soup\" +roast");
+            }).then((ids) => {
+                results.push(ids);
+                try {
+                    expect(results).to.deep.equal([
+                        [1],
+                        [],
+                        [3],
+                        [4]
+                    ], "Phrase search failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
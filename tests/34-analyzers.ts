@@ -0,0 +1,114 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const catalogDB = (analyzer: string, rows: any[], ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("products")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string", props: ["search(1, " + analyzer + ")"] }
+    ])
+    .connect().then(() => {
+        return n.loadJS("products", rows);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+const search = (nSQL: NanoSQLInstance, value: string): Promise<number[]> => {
+    return nSQL.query("select", ["id"]).where(["search(name)", ">0", value]).orderBy({ id: "asc" }).exec().then((rows) => {
+        return rows.map(r => r.id);
+    }) as any;
+};
+
+describe("Analyzers", () => {
+    it("Stem german, french and spanish words.", (done: MochaDone) => {
+        try {
+            const stems = (analyzer: string, value: string) => NanoSQLInstance.analyzers[analyzer].tokenize(value, ["1", analyzer]).map(t => t.w);
+            expect(stems("german", "Die Häuser und das Haus, Büchern über Bücher")).to.deep.equal(["", "haus", "", "", "haus", "buch", "", "buch"]);
+            expect(stems("french", "Les chevaux, le cheval et l'école rapidement")).to.deep.equal(["", "cheval", "", "cheval", "", "", "ecol", "rapid"]);
+            expect(stems("spanish", "Las canciones y una canción con luces")).to.deep.equal(["", "cancion", "", "", "cancion", "", "luz"]);
+            done();
+        } catch (e) {
+            done(e);
+        }
+    });
+
+    it("Search a multilingual catalog.", (done: MochaDone) => {
+        let results: number[][] = [];
+        catalogDB("german", [
+            { id: 1, name: "Kinderbücher für den Sommer" },
+            { id: 2, name: "Das große Buch der Häuser" },
+            { id: 3, name: "Gartenhaus aus Holz" }
+        ], (german) => {
+            search(german, "haus").then((ids) => {
+                results.push(ids);
+                return search(german, "\"großen Bücher\"");
+            }).then((ids) => {
+                results.push(ids);
+                catalogDB("cjk", [
+                    { id: 1, name: "東京都の地図" },
+                    { id: 2, name: "京都のお寺" },
+                    { id: 3, name: "iPhone用ケース、黒" }
+                ], (cjk) => {
+                    search(cjk, "京都").then((ids) => {
+                        results.push(ids);
+                        return search(cjk, "\"東京都\"");
+                    }).then((ids) => {
+                        results.push(ids);
+                        return search(cjk, "iphone ケース");
+                    }).then((ids) => {
+                        results.push(ids);
+                        try {
+                            expect(results).to.deep.equal([
+                                [2, 3], // fuzzy matching finds gartenhaus
+                                [2],
+                                [1, 2],
+                                [1],
+                                [3]
+                            ], "Analyzer search failed!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    }).catch(done);
+                });
+            }).catch(done);
+        });
+    });
+
+    it("Use custom analyzers by name.", (done: MochaDone) => {
+        NanoSQLInstance.analyzers.sku = {
+            tokenize: (value) => String(value || "").split("/").map((w, i) => ({ o: w, w: w.toUpperCase(), i }))
+        };
+        catalogDB("sku", [
+            { id: 1, name: "ab-12/cd-34" },
+            { id: 2, name: "cd-34/ef-56" }
+        ], (nSQL) => {
+            search(nSQL, "CD-34").then((ids) => {
+                const n = new NanoSQLInstance();
+                n.table("products")
+                .model([
+                    { key: "id", type: "int", props: ["pk()", "ai()"] },
+                    { key: "name", type: "string", props: ["search(sku)"] }
+                ])
+                .connect().then(() => {
+                    return n.loadJS("products", [{ id: 1, name: "ab-12/cd-34" }]);
+                }).then(() => {
+                    return n.query("select", ["id", "_score"]).where(["search(name)", ">0", "ab-12"]).exec();
+                }).then((rows) => {
+                    delete NanoSQLInstance.analyzers.sku;
+                    try {
+                        expect(ids).to.deep.equal([1, 2], "Custom analyzer wasn't used!");
+                        expect(rows.map(r => r.id)).to.deep.equal([1], "search(analyzer) wasn't used!");
+                        expect(rows[0]._score).to.be.above(0, "Boost wasn't set!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                }).catch(done);
+            }).catch(done);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { tokenOffsets, searchSnippet } from "../src/utilities";
+
+const postsDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("posts")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "title", type: "string", props: ["search(2, english-stem)"] },
+        { key: "body", type: "string", props: ["search(1, english-stem)"] },
+        { key: "tags", type: "string", props: ["search(1, cjk)"] }
+    ])
+    .connect().then(() => {
+        return n.loadJS("posts", [
+            { id: 1, title: "Fresh Tomatoes!", body: "Growing tomatoes takes patience. Water them daily, stake the vines, and pick the tomatoes when they're red.", tags: "東京都の野菜" },
+            { id: 2, title: "Bread", body: "Bake the bread at a high heat.", tags: "京都のパン" }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Highlight", () => {
+    it("Find the character offsets of tokens.", (done: MochaDone) => {
+        try {
+            expect(tokenOffsets("  Don't (stop)-me, 東京都", [{ o: "dont" }, { o: "stop" }, { o: "me" }, { o: "東京" }, { o: "京都" }, { o: "1000.0000" }])).to.deep.equal([
+                [2, 7], [9, 13], [15, 17], [19, 21], [20, 22], undefined
+            ]);
+            const text = "one two three four five six seven eight nine ten eleven twelve";
+            expect(searchSnippet(text, [{ start: 40, end: 44 }], { pre: "[", post: "]", length: 20 })).to.equal("...eight [nine] ten...");
+            expect(searchSnippet(text, [{ start: 0, end: 3 }, { start: 4, end: 7 }], { pre: "[", post: "]", length: 20 })).to.equal("[one] [two] three four...");
+            expect(searchSnippet("short", [], { pre: "[", post: "]", length: 20 })).to.equal("short");
+            done();
+        } catch (e) {
+            done(e);
+        }
+    });
+
+    it("Return matches and snippets for search results.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            nSQL.query("select", ["id", "_highlights"]).where(["search(title, body)", ">0", "tomatoes"]).highlight({ length: 40 }).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([{
+                        id: 1,
+                        _highlights: {
+                            title: {
+                                matches: [{ word: "Tomatoes", start: 6, end: 14 }],
+                                snippet: "Fresh <b>Tomatoes</b>!"
+                            },
+                            body: {
+                                matches: [{ word: "tomatoes", start: 8, end: 16 }, { word: "tomatoes", start: 81, end: 89 }],
+                                snippet: "Growing <b>tomatoes</b> takes patience. Water..."
+                            }
+                        }
+                    }], "Highlights are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Only highlight when asked and merge overlapping matches.", (done: MochaDone) => {
+        postsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("select").where(["search(body)", ">0", "bread"]).exec().then((rows) => {
+                results.push(rows.map(r => r._highlights));
+                return nSQL.query("select", ["id", "_highlights"]).where(["search(tags)", ">0", "東京都"]).orderBy({ id: "asc" }).highlight({ pre: "*", post: "*" }).exec();
+            }).then((rows) => {
+                results.push(rows.map(r => r._highlights.tags.snippet));
+                try {
+                    expect(results).to.deep.equal([
+                        [undefined],
+                        ["*東京都*の野菜", "*京都*のパン"]
+                    ], "Highlights are wrong!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const ordersDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("orders")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "region", type: "string" },
+        { key: "item", type: "string" },
+        { key: "total", type: "number" }
+    ])
+    .connect().then(() => {
+        return n.loadJS("orders", [
+            { id: 1, region: "east", item: "pen", total: 2 },
+            { id: 2, region: "east", item: "ink", total: 4 },
+            { id: 3, region: "east", item: "pen", total: 4 },
+            { id: 4, region: "east", item: "pad", total: 5 },
+            { id: 5, region: "west", item: "pad", total: 10 },
+            { id: 6, region: "west", item: null, total: null },
+            { id: 7, region: "north", item: "pen", total: 3 }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Aggregate Functions", () => {
+    it("Median, mode, variance, standard deviation and percentiles.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            nSQL.query("select", [
+                "MEDIAN(total) AS median",
+                "MODE(total) AS mode",
+                "VARIANCE(total) AS variance",
+                "STDDEV(total) AS stddev",
+                "PERCENTILE(total, 0.25) AS p25",
+                "PERCENTILE(total, 1) AS p100"
+            ]).exec().then((rows) => {
+                try {
+                    expect(rows.length).to.equal(1, "Wrong number of rows!");
+                    expect(rows[0].median).to.equal(4, "MEDIAN failed!");
+                    expect(rows[0].mode).to.equal(4, "MODE failed!");
+                    expect(rows[0].variance).to.be.closeTo(7.8667, 0.0001, "VARIANCE failed!");
+                    expect(rows[0].stddev).to.be.closeTo(Math.sqrt(7.8667), 0.0001, "STDDEV failed!");
+                    expect(rows[0].p25).to.equal(3.25, "PERCENTILE failed!");
+                    expect(rows[0].p100).to.equal(10, "PERCENTILE failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Concatenate and collect values.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            nSQL.query("select", ["GROUP_CONCAT(item) AS items", "GROUP_CONCAT(item, ', ') AS spaced", "ARRAY_AGG(total) AS totals"]).where(["region", "=", "west"]).exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { items: "pad", spaced: "pad", totals: [10, null] }
+                    ], "Collect functions failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Use the new aggregates with groupBy and having.", (done: MochaDone) => {
+        ordersDB((nSQL) => {
+            nSQL.query("select", ["region", "MEDIAN(total) AS median", "STDDEV(total) AS spread", "GROUP_CONCAT(item, '|') AS items", "ARRAY_AGG(id) AS ids"])
+            .groupBy({ region: "asc" })
+            .having(["median", ">", 3])
+            .exec().then((rows) => {
+                try {
+                    expect(rows).to.deep.equal([
+                        { region: "east", median: 4, spread: Math.sqrt(1.5833333333333333), items: "pen|ink|pen|pad", ids: [1, 2, 3, 4] },
+                        { region: "west", median: 10, spread: undefined, items: "pad", ids: [5, 6] }
+                    ], "Grouped aggregates failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { Promise } from "../src/utilities";
+
+const itemsDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("items")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string", props: ["idx()"], required: true },
+        { key: "color", type: "string" },
+        { key: "stock", type: "int", default: 0 }
+    ])
+    .connect().then(() => {
+        return n.loadJS("items", [
+            { id: 1, name: "cup", color: "red", stock: 5 },
+            { id: 2, name: "plate", color: "blue", stock: 2 }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Upsert Modes", () => {
+    it("Insert only upserts fail or skip existing rows.", (done: MochaDone) => {
+        itemsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", [{ id: 3, name: "bowl" }, { id: 1, name: "mug" }]).upsertMode("insert").exec().catch((err) => {
+                results.push(err);
+                return nSQL.query("upsert", [{ id: 3, name: "bowl" }, { id: 1, name: "mug" }]).upsertMode("ignore").exec();
+            }).then((result) => {
+                results.push(result[0].changes);
+                return nSQL.query("select").orderBy({ id: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        "nSQL: Insert failed, items.id \"1\" already exists!",
+                        [{ before: undefined, after: { id: 3, name: "bowl", stock: 0 } }],
+                        [
+                            { id: 1, name: "cup", color: "red", stock: 5 },
+                            { id: 2, name: "plate", color: "blue", stock: 2 },
+                            { id: 3, name: "bowl", stock: 0 }
+                        ]
+                    ], "Insert modes failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Update only and replace upserts.", (done: MochaDone) => {
+        itemsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", [{ id: 1, stock: 9 }, { id: 7, name: "fork" }]).upsertMode("update").exec().then((result) => {
+                results.push(result[0].changes);
+                return nSQL.query("upsert", { id: 2, name: "saucer" }).upsertMode("replace").exec();
+            }).then((result) => {
+                results.push(result[0].changes);
+                return nSQL.query("select").orderBy({ id: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["id"]).where(["name", "=", "plate"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ before: { id: 1, name: "cup", color: "red", stock: 5 }, after: { id: 1, name: "cup", color: "red", stock: 9 } }],
+                        [{ before: { id: 2, name: "plate", color: "blue", stock: 2 }, after: { id: 2, name: "saucer", stock: 0 } }],
+                        [
+                            { id: 1, name: "cup", color: "red", stock: 9 },
+                            { id: 2, name: "saucer", stock: 0 }
+                        ],
+                        []
+                    ], "Update modes failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Modes with a where and bad modes.", (done: MochaDone) => {
+        itemsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", { name: "dish" }).where(["id", "=", 2]).upsertMode("replace").exec().then((result) => {
+                results.push(result[0].changes);
+                return nSQL.query("upsert", { name: "dish" }).where(["id", "=", 2]).upsertMode("insert").exec();
+            }).catch((err) => {
+                results.push(err);
+                return nSQL.query("upsert", { id: 1 }).upsertMode("nope" as any).exec();
+            }).catch((err) => {
+                results.push(err);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ before: { id: 2, name: "plate", color: "blue", stock: 2 }, after: { id: 2, name: "dish", stock: 0 } }],
+                        "nSQL: Upserts with a where can only merge, replace or update rows!",
+                        "nSQL: Unknown upsert mode \"nope\"!"
+                    ], "Where modes failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            });
+        });
+    });
+
+    it("Run concurrent inserts one at a time and reject repeated keys.", (done: MochaDone) => {
+        itemsDB((nSQL) => {
+            let results: any[] = [];
+            Promise.all([
+                nSQL.query("upsert", { id: 3, name: "bowl" }).upsertMode("insert").exec().then(() => "ok").catch(err => err),
+                nSQL.query("upsert", { id: 3, name: "jug" }).upsertMode("insert").exec().then(() => "ok").catch(err => err)
+            ]).then((inserts) => {
+                results.push(inserts);
+                return nSQL.query("upsert", [{ id: 4, name: "pan" }, { id: 4, name: "pot" }]).upsertMode("insert").exec();
+            }).catch((err) => {
+                results.push(err);
+                return nSQL.query("select", ["id", "name"]).where(["id", ">", 2]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        ["ok", "nSQL: Insert failed, items.id \"3\" already exists!"],
+                        "nSQL: Insert failed, items.id \"4\" is in the upsert more than once!",
+                        [{ id: 3, name: "bowl" }]
+                    ], "Inserts weren't atomic!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Validate replaced rows like new ones.", (done: MochaDone) => {
+        itemsDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", { id: 1, stock: 4 }).upsertMode("replace").exec().catch((err) => {
+                results.push(err);
+                return nSQL.query("upsert", { id: 1, stock: 4 }).exec();
+            }).then(() => {
+                return nSQL.query("select").where(["id", "=", 1]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        "nSQL: Validation failed, items.name is required!",
+                        [{ id: 1, name: "cup", color: "red", stock: 4 }]
+                    ], "Replace wasn't validated!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+});
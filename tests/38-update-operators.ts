@@ -0,0 +1,112 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { Promise } from "../src/utilities";
+
+const profilesDB = (ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("profiles")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string", props: ["search(1, english-stem)"] },
+        { key: "visits", type: "int", props: ["idx()"] },
+        { key: "best", type: "int" },
+        { key: "tags", type: "string[]" },
+        { key: "address", type: "map" }
+    ])
+    .connect().then(() => {
+        return n.loadJS("profiles", [
+            { id: 1, name: "Ada", visits: 1, best: 50, tags: ["admin"], address: { city: "London", geo: { zip: "N1" } } },
+            { id: 2, name: "Alan", visits: 3, best: 40, tags: [], address: {} }
+        ]);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Update Operators", () => {
+    it("Change numbers and arrays in place.", (done: MochaDone) => {
+        profilesDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", { id: 1, $inc: { visits: 2 }, $mul: { best: 2 }, $push: { tags: { $each: ["staff", "admin"] } } }).exec().then(() => {
+                return nSQL.query("upsert", { $min: { best: 45 }, $max: { visits: 4 }, $addToSet: { tags: "staff" } }).where(["id", ">", 0]).exec();
+            }).then(() => {
+                return nSQL.query("upsert", { id: 1, $pull: { tags: "admin" } }).exec();
+            }).then(() => {
+                return nSQL.query("upsert", { name: "Grace", $inc: { visits: 1 }, $push: { tags: "new" } }).exec();
+            }).then(() => {
+                return nSQL.query("select", ["id", "visits", "best", "tags"]).orderBy({ id: "asc" }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["id"]).where(["visits", "=", 4]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        [
+                            { id: 1, visits: 4, best: 45, tags: ["staff"] },
+                            { id: 2, visits: 4, best: 40, tags: ["staff"] },
+                            { id: 3, visits: 1, best: undefined, tags: ["new"] }
+                        ],
+                        [{ id: 1 }, { id: 2 }]
+                    ], "Update operators failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Set and unset deep paths and keep the search index in sync.", (done: MochaDone) => {
+        profilesDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.query("upsert", { $set: { "address.city": "Paris", "address.geo.zip": "75001", "name": "Ada Lovelace" }, $unset: ["best", "address.country"] }).where(["id", "=", 1]).exec().then((result) => {
+                results.push(result[0].changes[0].after);
+                return nSQL.query("upsert", { id: 2, $set: { "address.geo.lat": 51.5 } }).exec();
+            }).then(() => {
+                return nSQL.query("select", ["id", "address"]).where(["id", "=", 2]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["id"]).where(["search(name)", "=", "lovelace"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        { id: 1, name: "Ada Lovelace", visits: 1, tags: ["admin"], address: { city: "Paris", geo: { zip: "75001" } } },
+                        [{ id: 2, address: { geo: { lat: 51.5 } } }],
+                        [{ id: 1 }]
+                    ], "Deep updates failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Apply concurrent increments one at a time and reject unknown operators.", (done: MochaDone) => {
+        profilesDB((nSQL) => {
+            let increments: any[] = [];
+            for (let i = 0; i < 20; i++) {
+                increments.push(nSQL.query("upsert", { id: 2, $inc: { visits: 1 } }).exec());
+            }
+            Promise.all(increments).then(() => {
+                return nSQL.query("select", ["visits"]).where(["id", "=", 2]).exec();
+            }).then((rows) => {
+                return nSQL.query("upsert", { id: 2, $rename: { visits: "count" } }).exec().catch((err) => {
+                    return nSQL.query("upsert", { id: 2, $inc: 5 }).exec().catch((err2) => {
+                        try {
+                            expect(rows).to.deep.equal([{ visits: 23 }], "Increments were lost!");
+                            expect(err).to.equal("nSQL: Unknown update operator \"$rename\"!");
+                            expect(err2).to.equal("nSQL: \"$inc\" needs an object of columns!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    });
+                });
+            }).catch(done);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+
+const cacheDB = (ttlProp: string, rows: any[], ready: (nSQL: NanoSQLInstance) => void) => {
+    const n = new NanoSQLInstance();
+    n.table("cache")
+    .model([
+        { key: "url", type: "string", props: ["pk()"] },
+        { key: "status", type: "int", props: ["idx()"] },
+        { key: "body", type: "string", props: ["search(1, english-stem)"] },
+        { key: "stamp", type: "any", props: [ttlProp] }
+    ])
+    .connect().then(() => {
+        return n.loadJS("cache", rows);
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Row Expiry", () => {
+    it("Hide expired rows and stamp ttl() columns with the write time.", (done: MochaDone) => {
+        const start = Date.now();
+        cacheDB("ttl(60)", [
+            { url: "/old", status: 404, body: "missing page", stamp: start - 120000 },
+            { url: "/new", status: 200, body: "home page" }
+        ], (nSQL) => {
+            let results: any[] = [];
+            nSQL.query("select", ["url", "stamp"]).exec().then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["url"]).where(["status", "=", 404]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("select", ["url"]).where(["search(body)", ">0", "missing"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.query("upsert", { url: "/old", status: 200, body: "found page" }).exec();
+            }).then((result) => {
+                results.push(result[0].changes[0].before);
+                try {
+                    expect(results[0].map(r => r.url)).to.deep.equal(["/new"], "Expired row was selected!");
+                    expect(results[0][0].stamp).to.be.within(start, Date.now(), "Write time wasn't set!");
+                    expect(results.slice(1)).to.deep.equal([[], [], undefined], "Expired row wasn't purged!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Expire rows at the time in an expiresAt column.", (done: MochaDone) => {
+        cacheDB("expiresAt", [
+            { url: "/a", status: 200, stamp: Date.now() + 40 },
+            { url: "/b", status: 200, stamp: new Date(Date.now() - 1000).toISOString() },
+            { url: "/c", status: 200, stamp: null },
+            { url: "/d", status: 200, stamp: Date.now() + 60000 }
+        ], (nSQL) => {
+            let results: any[] = [];
+            nSQL.query("select", ["url"]).orderBy({ url: "asc" }).exec().then((rows) => {
+                results.push(rows);
+                setTimeout(() => {
+                    nSQL.query("select", ["url"]).where(["status", "=", 200]).orderBy({ url: "asc" }).exec().then((rows) => {
+                        results.push(rows);
+                        try {
+                            expect(results).to.deep.equal([
+                                [{ url: "/a" }, { url: "/c" }, { url: "/d" }],
+                                [{ url: "/c" }, { url: "/d" }]
+                            ], "expiresAt rows failed!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    }).catch(done);
+                }, 80);
+            }).catch(done);
+        });
+    });
+
+    it("Purge expired rows in the background with expired delete events.", (done: MochaDone) => {
+        cacheDB("ttl(0.05)", [], (nSQL) => {
+            let events: any[] = [];
+            nSQL.table("cache").on("delete", (event) => {
+                events.push({ notes: event.notes, pks: event.affectedRowPKS });
+            });
+            nSQL.query("upsert", [{ url: "/a", status: 200 }, { url: "/b", status: 500 }]).exec().then(() => {
+                return nSQL.query("delete").where(["url", "=", "/b"]).exec();
+            }).then(() => {
+                setTimeout(() => {
+                    nSQL.query("select").exec().then((rows) => {
+                        try {
+                            expect(rows).to.deep.equal([], "Rows weren't purged!");
+                            expect(events).to.deep.equal([
+                                { notes: [], pks: ["/b"] },
+                                { notes: ["expired"], pks: ["/a"] }
+                            ], "Expiry events are wrong!");
+                            done();
+                        } catch (e) {
+                            done(e);
+                        }
+                    }).catch(done);
+                }, 150);
+            }).catch(done);
+        });
+    });
+});
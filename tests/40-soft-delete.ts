@@ -0,0 +1,210 @@
+import { NanoSQLInstance } from "../src/index";
+import { expect, assert } from "chai";
+import "mocha";
+import { Promise } from "../src/utilities";
+
+const blogDB = (ready: (nSQL: NanoSQLInstance) => void, cache?: boolean) => {
+    const n = new NanoSQLInstance();
+    n.config({ cache: cache !== false }).table("users")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string", props: ["idx()"] },
+        { key: "email", type: "string", props: ["unique()"] },
+        { key: "posts", type: "posts[]", props: ["orm(author)"] }
+    ], ["softDelete"]);
+    n.table("posts")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "title", type: "string" },
+        { key: "author", type: "users", props: ["orm(posts[])"] }
+    ], ["softDelete"]);
+    n.table("tags")
+    .model([
+        { key: "id", type: "int", props: ["pk()", "ai()"] },
+        { key: "name", type: "string" }
+    ]);
+    n.connect().then(() => {
+        return n.table("users").query("upsert", [
+            { id: 1, name: "Ada", email: "ada@example.com", posts: [] },
+            { id: 2, name: "Alan", email: "alan@example.com", posts: [] },
+            { id: 3, name: "Grace", email: "grace@example.com", posts: [] }
+        ]).exec();
+    }).then(() => {
+        return n.table("posts").query("upsert", [
+            { id: 1, title: "Engines", author: 1 },
+            { id: 2, title: "Machines", author: 2 },
+            { id: 3, title: "Notes", author: 1 }
+        ]).exec();
+    }).then(() => {
+        ready(n);
+    });
+};
+
+describe("Soft Delete", () => {
+    it("Hide soft deleted rows from selects, joins and ORM.", (done: MochaDone) => {
+        blogDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("posts").query("delete").where(["id", "=", 3]).exec().then(() => {
+                return nSQL.table("users").query("delete").where(["name", "=", "Alan"]).exec();
+            }).then((result) => {
+                results.push(result[0].msg);
+                return nSQL.table("users").query("select", ["id"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select").where(["name", "=", "Alan"]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("select").where(["name", "=", "Alan"]).withDeleted().exec();
+            }).then((rows) => {
+                results.push(rows.map(r => typeof r._deletedAt));
+                return nSQL.table("users").query("select", ["id", "posts"]).where(["id", "=", 1]).orm(["posts"]).exec();
+            }).then((rows) => {
+                results.push(rows[0].posts.map(p => p.id));
+                return nSQL.table("posts").query("select", ["posts.id"]).join({ type: "inner", table: "users", where: ["posts.author", "=", "users.id"] }).exec();
+            }).then((rows) => {
+                results.push(rows);
+                try {
+                    expect(results).to.deep.equal([
+                        "1 row(s) deleted.",
+                        [{ id: 1 }, { id: 3 }],
+                        [],
+                        ["number"],
+                        [1],
+                        [{ "posts.id": 1 }]
+                    ], "Soft deleted rows weren't hidden!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Restore soft deleted rows.", (done: MochaDone) => {
+        blogDB((nSQL) => {
+            let results: any[] = [];
+            nSQL.table("users").query("delete").where(["id", "=", 2]).exec().then(() => {
+                return nSQL.table("users").query("restore").where(["id", "=", 2]).exec();
+            }).then((result) => {
+                results.push(result[0].affectedRows);
+                return nSQL.table("users").query("delete").exec();
+            }).then(() => {
+                return nSQL.table("users").query("select").exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("users").query("restore").exec();
+            }).then((result) => {
+                results.push(result[0].msg);
+                return nSQL.table("users").query("delete").where(["id", "=", 3]).exec();
+            }).then(() => {
+                return nSQL.table("users").query("upsert", { id: 3, name: "Hopper", email: "grace@example.com" }).upsertMode("insert").exec();
+            }).then((result) => {
+                results.push(result[0].changes);
+                return nSQL.table("users").query("upsert", { id: 4, email: "ada@example.com" }).exec().catch((err) => err);
+            }).then((err) => {
+                results.push(err);
+                try {
+                    expect(results).to.deep.equal([
+                        [{ id: 2, name: "Alan", email: "alan@example.com", posts: [2] }],
+                        [],
+                        "3 row(s) restored.",
+                        [{ before: undefined, after: { id: 3, name: "Hopper", email: "grace@example.com" } }],
+                        "nSQL: Unique constraint failed, users.email \"ada@example.com\" already exists!"
+                    ], "Restore failed!");
+                    done();
+                } catch (e) {
+                    done(e);
+                }
+            }).catch(done);
+        });
+    });
+
+    it("Free the unique values and primary keys of soft deleted rows.", (done: MochaDone) => {
+        const check = (cache: boolean) => new Promise((res, rej) => {
+            blogDB((nSQL) => {
+                let results: any[] = [];
+                nSQL.table("users").query("delete").where(["id", "=", 1]).exec().then(() => {
+                    return nSQL.table("users").query("upsert", { id: 4, name: "Ana", email: "ada@example.com" }).exec();
+                }).then((result) => {
+                    results.push(result[0].affectedRowPKS);
+                    return nSQL.table("users").query("restore").where(["id", "=", 1]).exec().catch((err) => err);
+                }).then((err) => {
+                    results.push(err);
+                    return nSQL.table("users").query("delete").where(["id", "=", 3]).exec();
+                }).then(() => {
+                    return nSQL.table("users").query("upsert", { id: 3, email: "hopper@example.com" }).exec();
+                }).then((result) => {
+                    results.push(result[0].changes);
+                    return nSQL.table("users").query("select", ["id", "name", "email"]).withDeleted().exec();
+                }).then((rows) => {
+                    results.push(rows);
+                    res(results);
+                }).catch(rej);
+            }, cache);
+        });
+        const expected = [
+            [4],
+            "nSQL: Unique constraint failed, users.email \"ada@example.com\" already exists!",
+            [{ before: undefined, after: { id: 3, email: "hopper@example.com" } }],
+            [
+                { id: 1, name: "Ada", email: "ada@example.com" },
+                { id: 2, name: "Alan", email: "alan@example.com" },
+                { id: 3, name: undefined, email: "hopper@example.com" },
+                { id: 4, name: "Ana", email: "ada@example.com" }
+            ]
+        ];
+        check(true).then((results) => {
+            expect(results).to.deep.equal(expected, "Soft deleted rows held their values!");
+            return check(false);
+        }).then((results) => {
+            expect(results).to.deep.equal(expected, "Soft deleted rows held their values without the cache!");
+            done();
+        }).catch(done);
+    });
+
+    it("Purge old soft deleted rows for good.", (done: MochaDone) => {
+        blogDB((nSQL) => {
+            let results: any[] = [];
+            let events: any[] = [];
+            nSQL.table("users").on("change", (event) => {
+                events.push([event.query.action, event.types]);
+            });
+            nSQL.table("users").query("delete").where(["id", "=", 2]).exec().then(() => {
+                return nSQL.table("users").query("purge", 3600).exec();
+            }).then((result) => {
+                results.push(result[0].msg);
+                return nSQL.table("users").query("purge").exec();
+            }).then((result) => {
+                results.push(result[0].affectedRowPKS);
+                return nSQL.table("users").query("select", ["id"]).withDeleted().exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("posts").query("select", ["id", "author"]).where(["id", "=", 2]).exec();
+            }).then((rows) => {
+                results.push(rows);
+                return nSQL.table("tags").query("restore").exec().catch((err) => err);
+            }).then((err) => {
+                results.push(err);
+                setTimeout(() => {
+                    try {
+                        expect(results).to.deep.equal([
+                            "0 row(s) deleted.",
+                            [2],
+                            [{ id: 1 }, { id: 3 }],
+                            [{ id: 2, author: null }],
+                            "nSQL: \"restore\" queries need a table with the softDelete prop!"
+                        ], "Purge failed!");
+                        expect(events).to.deep.equal([
+                            ["delete", ["delete", "change"]],
+                            ["purge", ["delete", "change"]],
+                            ["purge", ["delete", "change"]]
+                        ], "Purge events are wrong!");
+                        done();
+                    } catch (e) {
+                        done(e);
+                    }
+                }, 10);
+            }).catch(done);
+        });
+    });
+});
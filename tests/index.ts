@@ -20,4 +20,29 @@ import "./10-groupbyFns";
 import "./11-orm";
 import "./12-events";
 import "./13-search";
+import "./16-sql";
+import "./17-transaction";
+import "./18-compound-index";
+import "./19-unique";
+import "./20-validation";
+import "./21-migrations";
+import "./22-explain";
+import "./23-subquery";
+import "./24-join-chain";
+import "./25-window";
+import "./26-scalar-functions";
+import "./27-distinct";
+import "./28-set-operations";
+import "./29-stream";
+import "./30-cursor";
+import "./31-geo";
+import "./32-search-score";
+import "./33-search-syntax";
+import "./34-analyzers";
+import "./35-highlight";
+import "./36-aggregates";
+import "./37-upsert-modes";
+import "./38-update-operators";
+import "./39-ttl";
+import "./40-soft-delete";
 // import "./13-denormalization";
\ No newline at end of file